@@ -0,0 +1,244 @@
+#!/usr/bin/env node
+// capyfocus - control the running CapyFocus app from a terminal.
+// Talks to the app over the local socket whose path and token it writes to
+// cli.json in its data folder. When that can't be reached it falls back to the
+// local control API (Settings > Integrations) and its control-api.json.
+// The app maps the arguments onto requests (see src/services/controlApi.ts).
+'use strict';
+
+const fs = require('fs');
+const http = require('http');
+const net = require('net');
+const os = require('os');
+const path = require('path');
+
+const USAGE = `Usage: capyfocus <command> [--json]
+
+Commands:
+  status                                  show the timer (the default)
+  start [minutes] [--task <name>] [--mode pomodoro|flow|shortBreak|longBreak]
+  pause | resume | skip | reset
+  tasks list [--all]                      open tasks, --all includes completed ones
+  tasks add <title>                       quick capture syntax works: ~2 @fri + outline
+  tasks done <id or title>
+  note append <text>                      add a timestamped line to today's note
+
+--json prints the app's answer as JSON.
+Needs CapyFocus running.`;
+
+const NOT_RUNNING = "CapyFocus isn't running.";
+
+// Packaged builds use the product name for their data folder, development builds the package name
+const APP_NAMES = ['CapyFocus', 'focusflow'];
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+const MODE_LABELS = {
+  pomodoro: 'Focus',
+  flow: 'Flow',
+  shortBreak: 'Short break',
+  longBreak: 'Long break',
+};
+
+function getAppDataDir() {
+  switch (process.platform) {
+    case 'darwin':
+      return path.join(os.homedir(), 'Library', 'Application Support');
+    case 'win32':
+      return process.env.APPDATA || path.join(os.homedir(), 'AppData', 'Roaming');
+    default:
+      return process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  }
+}
+
+function isProcessAlive(pid) {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return error.code === 'EPERM';
+  }
+}
+
+// The info a running app wrote to fileName, or null; a file left by a crashed app is ignored
+function findAppFile(override, fileName, isComplete) {
+  const files = override ? [override] : APP_NAMES.map((name) => path.join(getAppDataDir(), name, fileName));
+
+  for (const file of files) {
+    try {
+      const info = JSON.parse(fs.readFileSync(file, 'utf8'));
+      if (isComplete(info) && info.token && isProcessAlive(info.pid)) return info;
+    } catch {
+      // Missing or unreadable, try the next one
+    }
+  }
+  return null;
+}
+
+function findCliSocket() {
+  return findAppFile(process.env.CAPYFOCUS_CLI_FILE, 'cli.json', (info) => info.socket);
+}
+
+function findControlApi() {
+  return findAppFile(process.env.CAPYFOCUS_CONTROL_FILE, 'control-api.json', (info) => info.port);
+}
+
+// One JSON line each way: { token, args } out, { status, body } back
+function sendOverSocket({ socket: socketPath, token }, args) {
+  return new Promise((resolve, reject) => {
+    const socket = net.connect(socketPath);
+    let received = '';
+    socket.setEncoding('utf8');
+    socket.setTimeout(REQUEST_TIMEOUT_MS, () => socket.destroy(new Error('CapyFocus did not answer in time')));
+    socket.on('connect', () => socket.write(`${JSON.stringify({ token, args })}\n`));
+    socket.on('data', (chunk) => {
+      received += chunk;
+    });
+    socket.on('end', () => {
+      try {
+        resolve(JSON.parse(received));
+      } catch {
+        reject(new Error('Unexpected answer from CapyFocus'));
+      }
+    });
+    socket.on('error', reject);
+  });
+}
+
+function sendOverHttp({ port, token }, args) {
+  return new Promise((resolve, reject) => {
+    const payload = JSON.stringify({ args });
+    const req = http.request(
+      {
+        host: '127.0.0.1',
+        port,
+        method: 'POST',
+        path: '/cli',
+        timeout: REQUEST_TIMEOUT_MS,
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+          'Content-Length': Buffer.byteLength(payload),
+        },
+      },
+      (res) => {
+        const chunks = [];
+        res.on('data', (chunk) => chunks.push(chunk));
+        res.on('end', () => {
+          try {
+            resolve({ status: res.statusCode, body: JSON.parse(Buffer.concat(chunks).toString('utf8')) });
+          } catch {
+            reject(new Error(`Unexpected answer from CapyFocus (HTTP ${res.statusCode})`));
+          }
+        });
+      }
+    );
+    req.on('timeout', () => req.destroy(new Error('CapyFocus did not answer in time')));
+    req.on('error', reject);
+    req.end(payload);
+  });
+}
+
+const isUnreachable = (error) => ['ECONNREFUSED', 'ENOENT'].includes(error.code);
+
+// The app's answer, or null when no running app can be reached
+async function sendCommand(args) {
+  const socket = findCliSocket();
+  if (socket) {
+    try {
+      return await sendOverSocket(socket, args);
+    } catch (error) {
+      if (!isUnreachable(error)) throw error;
+    }
+  }
+
+  const api = findControlApi();
+  if (!api) return null;
+  try {
+    return await sendOverHttp(api, args);
+  } catch (error) {
+    if (isUnreachable(error)) return null;
+    throw error;
+  }
+}
+
+function formatTime(seconds) {
+  const total = Math.max(0, Math.round(seconds));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
+
+function formatTimer(timer) {
+  const label = MODE_LABELS[timer.mode] || timer.mode;
+  const time = timer.mode === 'flow' ? `${formatTime(timer.elapsedSeconds)} elapsed` : `${formatTime(timer.secondsLeft)} left`;
+  const lines = [`${label} ${time} (${timer.isRunning ? 'running' : 'stopped'})`];
+  if (timer.currentTask) {
+    lines.push(`Task: ${formatTask(timer.currentTask, false)}`);
+  }
+  return lines.join('\n');
+}
+
+function formatTask(task, withId = true) {
+  const pomodoros = task.estimatedPomodoros
+    ? `${task.spentPomodoros}/${task.estimatedPomodoros} pomodoros`
+    : `${task.spentPomodoros} ${task.spentPomodoros === 1 ? 'pomodoro' : 'pomodoros'}`;
+  const parts = [task.title, pomodoros];
+  if (task.dueDate) parts.push(`due ${task.dueDate}`);
+  if (withId) parts.push(`[${task.id}]`);
+  return parts.join('  ');
+}
+
+function formatAnswer(command, body) {
+  switch (command) {
+    case 'tasks': {
+      if (body.task) {
+        return `${body.task.isCompleted ? 'Completed' : 'Added'}: ${formatTask(body.task)}`;
+      }
+      if (body.tasks.length === 0) return 'No tasks';
+      return body.tasks.map((task) => `${task.isCompleted ? '[x]' : '[ ]'} ${formatTask(task)}`).join('\n');
+    }
+    case 'note':
+      return "Added to today's note";
+    default:
+      return [body.message, formatTimer(body.timer)].filter(Boolean).join('\n');
+  }
+}
+
+async function main(argv) {
+  const json = argv.includes('--json');
+  const args = argv.filter((arg) => arg !== '--json');
+  const command = args[0] || 'status';
+
+  if (command === 'help' || args.includes('--help') || args.includes('-h')) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  // Asking for the status of an app that isn't running isn't an error
+  const notRunning = () => {
+    console.log(json ? JSON.stringify({ ok: false, running: false, error: NOT_RUNNING }, null, 2) : NOT_RUNNING);
+    return command === 'status' ? 0 : 1;
+  };
+
+  let answer;
+  try {
+    answer = await sendCommand(args);
+  } catch (error) {
+    console.error(`capyfocus: ${error.message}`);
+    return 1;
+  }
+  if (!answer) return notRunning();
+
+  const { status, body } = answer;
+  if (json) {
+    console.log(JSON.stringify({ ...body, running: true }, null, 2));
+  } else if (body.ok) {
+    console.log(formatAnswer(command, body));
+  } else {
+    console.error(`capyfocus: ${body.error}`);
+  }
+  return status < 400 ? 0 : 1;
+}
+
+main(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
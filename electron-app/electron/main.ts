@@ -1,8 +1,29 @@
-import { app, BrowserWindow, ipcMain, Tray, Menu, nativeImage, globalShortcut } from 'electron';
+import { app, BrowserWindow, ipcMain, Tray, Menu, nativeImage, globalShortcut, Notification, screen, powerMonitor } from 'electron';
 import * as path from 'path';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as net from 'net';
+import * as os from 'os';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import {
+  TimerMode,
+  SessionPhase,
+  AwayBehavior,
+  AwayPeriod,
+  TimerCompletion,
+  TimerState,
+  TimerConfig,
+  TimerStartOptions,
+  DEFAULT_TIMER_CONFIG,
+  createTimerState,
+  createTimerEngine,
+  getRunElapsedSeconds,
+  isPauseLocked,
+} from './timerEngine';
 
 let mainWindow: BrowserWindow | null = null;
 let miniWindow: BrowserWindow | null = null;
+let quickCaptureWindow: BrowserWindow | null = null;
 let tray: Tray | null = null;
 let isCollapsed = false;
 let isQuitting = false;
@@ -13,12 +34,47 @@ const EXPANDED_HEIGHT = 520;
 const COLLAPSED_WIDTH = 380;
 const COLLAPSED_HEIGHT = 60;
 
-// Mini widget dimensions
-const MINI_WIDTH = 340;
-const MINI_HEIGHT = 220;
+// Mini widget layouts: the size each opens at and the bounds it resizes within
+type MiniWidgetLayout = 'ring' | 'timerTask' | 'timerMusic' | 'pill';
 
-function createWindow(): void {
+interface MiniWidgetSize {
+  width: number;
+  height: number;
+  minWidth: number;
+  minHeight: number;
+  maxWidth: number;
+  maxHeight: number;
+}
+
+const MINI_LAYOUT_SIZES: Record<MiniWidgetLayout, MiniWidgetSize> = {
+  ring: { width: 200, height: 200, minWidth: 150, minHeight: 150, maxWidth: 360, maxHeight: 360 },
+  timerTask: { width: 340, height: 236, minWidth: 300, minHeight: 220, maxWidth: 520, maxHeight: 360 },
+  timerMusic: { width: 340, height: 220, minWidth: 300, minHeight: 200, maxWidth: 520, maxHeight: 320 },
+  pill: { width: 260, height: 64, minWidth: 200, minHeight: 56, maxWidth: 420, maxHeight: 72 },
+};
+
+const MINI_LAYOUT_LABELS: Record<MiniWidgetLayout, string> = {
+  ring: 'Ring',
+  timerTask: 'Timer and Task',
+  timerMusic: 'Timer and Music',
+  pill: 'Compact Pill',
+};
+
+const DEFAULT_MINI_LAYOUT: MiniWidgetLayout = 'timerMusic';
+
+// Layouts arrive over IPC and from the saved state, so only own keys count
+// (a plain `in` check would let 'toString' or 'constructor' through)
+function isMiniWidgetLayout(layout: unknown): layout is MiniWidgetLayout {
+  return typeof layout === 'string' && Object.prototype.hasOwnProperty.call(MINI_LAYOUT_SIZES, layout);
+}
+
+// Quick capture dimensions
+const QUICK_CAPTURE_WIDTH = 480;
+const QUICK_CAPTURE_HEIGHT = 132;
+
+function createWindow(show = true): void {
   mainWindow = new BrowserWindow({
+    show,
     width: EXPANDED_WIDTH,
     height: EXPANDED_HEIGHT,
     minWidth: 340,
@@ -65,49 +121,149 @@ function createWindow(): void {
   // Make window draggable by background
   mainWindow.setMovable(true);
 
-  // Restore window position
-  const Store = require('electron-store');
-  const store = new Store();
-  const savedBounds = store.get('windowBounds');
-  if (savedBounds) {
-    mainWindow.setBounds(savedBounds);
-  }
+  // Restore window position, if it's still on a connected display
+  restoreMainWindowBounds();
 
-  // Save window position on move/resize
+  // Save window position on move/resize, snapping to nearby screen edges
   mainWindow.on('moved', () => {
     if (mainWindow) {
-      store.set('windowBounds', mainWindow.getBounds());
+      snapToScreenEdges(mainWindow);
+      saveMainWindowBounds();
     }
   });
 
-  mainWindow.on('resized', () => {
-    if (mainWindow) {
-      store.set('windowBounds', mainWindow.getBounds());
-    }
+  mainWindow.on('resized', saveMainWindowBounds);
+
+  // Deep links and control requests wait until the new page is listening again
+  isDeepLinkReceiverReady = false;
+  isControlReceiverReady = false;
+  mainWindow.webContents.on('did-start-loading', () => {
+    isDeepLinkReceiverReady = false;
+    isControlReceiverReady = false;
   });
 
   mainWindow.on('closed', () => {
     mainWindow = null;
+    isDeepLinkReceiverReady = false;
+    isControlReceiverReady = false;
   });
 }
 
-function createMiniWindow(): void {
-  if (miniWindow) {
-    // Window already exists, just show/focus it
-    if (miniWindow.isVisible()) {
-      miniWindow.hide();
-    } else {
-      miniWindow.show();
-      miniWindow.focus();
-    }
-    return;
+// Each display remembers the widget's layout and, per layout, where it sat and
+// how big it was, under 'miniWidgetDisplays' in electron-store
+interface MiniWidgetDisplayState {
+  layout: MiniWidgetLayout;
+  bounds: Partial<Record<MiniWidgetLayout, Electron.Rectangle>>;
+}
+
+let miniWidgetLayout: MiniWidgetLayout = DEFAULT_MINI_LAYOUT;
+
+function getMiniWidgetDisplayState(displayId: number): MiniWidgetDisplayState {
+  const Store = require('electron-store');
+  const store = new Store();
+  const state: MiniWidgetDisplayState | undefined = store.get(`miniWidgetDisplays.${displayId}`);
+  return state && isMiniWidgetLayout(state.layout) ? state : { layout: DEFAULT_MINI_LAYOUT, bounds: {} };
+}
+
+function saveMiniWidgetDisplayState(displayId: number, state: MiniWidgetDisplayState): void {
+  const Store = require('electron-store');
+  const store = new Store();
+  store.set(`miniWidgetDisplays.${displayId}`, state);
+}
+
+// The display the widget is on, or the one the cursor is on before it opens
+function getMiniWidgetDisplay(): Electron.Display {
+  return miniWindow
+    ? screen.getDisplayMatching(miniWindow.getBounds())
+    : screen.getDisplayNearestPoint(screen.getCursorScreenPoint());
+}
+
+// Size `bounds` within the layout's limits and keep them inside the display's
+// work area; missing values fall back to the layout's size, centered
+function fitMiniWidgetBounds(
+  bounds: Partial<Electron.Rectangle>,
+  layout: MiniWidgetLayout,
+  display: Electron.Display
+): Electron.Rectangle {
+  const size = MINI_LAYOUT_SIZES[layout];
+  const { workArea } = display;
+  const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+  const width = clamp(bounds.width ?? size.width, size.minWidth, size.maxWidth);
+  const height = clamp(bounds.height ?? size.height, size.minHeight, size.maxHeight);
+  return keepInWorkArea({
+    x: bounds.x ?? workArea.x + (workArea.width - width) / 2,
+    y: bounds.y ?? workArea.y + (workArea.height - height) / 2,
+    width,
+    height,
+  }, workArea);
+}
+
+// Switch the widget to `layout` on `display`, at the bounds last used for it
+// there (or where the widget is now, at the layout's size)
+function applyMiniWidgetLayout(layout: MiniWidgetLayout, display: Electron.Display): void {
+  const state = getMiniWidgetDisplayState(display.id);
+  miniWidgetLayout = layout;
+  saveMiniWidgetDisplayState(display.id, { ...state, layout });
+  broadcast('mini-widget-layout', layout);
+
+  if (!miniWindow) return;
+  const size = MINI_LAYOUT_SIZES[layout];
+  const current = miniWindow.getBounds();
+  const isOnDisplay = screen.getDisplayMatching(current).id === display.id;
+  const bounds = fitMiniWidgetBounds(
+    state.bounds[layout] ?? (isOnDisplay && miniWindow.isVisible() ? { x: current.x, y: current.y } : {}),
+    layout,
+    display
+  );
+
+  miniWindow.setMinimumSize(size.minWidth, size.minHeight);
+  miniWindow.setMaximumSize(size.maxWidth, size.maxHeight);
+  miniWindow.setAspectRatio(layout === 'ring' ? 1 : 0);
+  miniWindow.setBounds(bounds);
+}
+
+// Remember where the widget was moved or resized to, under the display it's on now
+function saveMiniWidgetBounds(): void {
+  if (!miniWindow) return;
+  const bounds = miniWindow.getBounds();
+  const display = screen.getDisplayMatching(bounds);
+  const state = getMiniWidgetDisplayState(display.id);
+  saveMiniWidgetDisplayState(display.id, {
+    layout: miniWidgetLayout,
+    bounds: { ...state.bounds, [miniWidgetLayout]: bounds },
+  });
+}
+
+function setMiniWidgetLayout(layout: MiniWidgetLayout): MiniWidgetLayout {
+  if (isMiniWidgetLayout(layout)) {
+    applyMiniWidgetLayout(layout, getMiniWidgetDisplay());
   }
+  return miniWidgetLayout;
+}
 
+function showMiniWidgetMenu(): void {
+  if (!miniWindow) return;
+  const menu = Menu.buildFromTemplate([
+    ...(Object.keys(MINI_LAYOUT_LABELS) as MiniWidgetLayout[]).map((layout) => ({
+      label: MINI_LAYOUT_LABELS[layout],
+      type: 'radio' as const,
+      checked: layout === miniWidgetLayout,
+      click: () => setMiniWidgetLayout(layout),
+    })),
+    { type: 'separator' },
+    { label: 'Close', click: () => miniWindow?.hide() },
+  ]);
+  menu.popup({ window: miniWindow });
+}
+
+function createMiniWindow(): void {
+  const size = MINI_LAYOUT_SIZES[miniWidgetLayout];
   miniWindow = new BrowserWindow({
-    width: MINI_WIDTH,
-    height: MINI_HEIGHT,
+    width: size.width,
+    height: size.height,
     frame: false,
-    resizable: false,
+    resizable: true,
     alwaysOnTop: true,
     transparent: true,
     backgroundColor: '#00000000',
@@ -136,20 +292,14 @@ function createMiniWindow(): void {
     });
   }
 
-  // Restore mini window position
-  const Store = require('electron-store');
-  const store = new Store();
-  const savedMiniBounds = store.get('miniWindowBounds');
-  if (savedMiniBounds) {
-    miniWindow.setBounds({ ...savedMiniBounds, width: MINI_WIDTH, height: MINI_HEIGHT });
-  }
-
-  // Save mini window position on move
+  // Save the widget's place on move/resize, snapping to nearby screen edges
   miniWindow.on('moved', () => {
     if (miniWindow) {
-      store.set('miniWindowBounds', miniWindow.getBounds());
+      snapToScreenEdges(miniWindow);
+      saveMiniWidgetBounds();
     }
   });
+  miniWindow.on('resized', saveMiniWidgetBounds);
 
   // Show window when ready
   miniWindow.once('ready-to-show', () => {
@@ -172,236 +322,1733 @@ function createMiniWindow(): void {
   });
 }
 
-function toggleMiniWidget(): void {
+// Open the widget on the cursor's display, in the layout and place saved for it
+function showMiniWidget(): void {
+  const display = screen.getDisplayNearestPoint(screen.getCursorScreenPoint());
+  const isNew = !miniWindow;
   if (!miniWindow) {
     createMiniWindow();
-  } else if (miniWindow.isVisible()) {
+  }
+  applyMiniWidgetLayout(getMiniWidgetDisplayState(display.id).layout, display);
+
+  // A new window shows itself once it's ready
+  if (!isNew) {
+    miniWindow?.show();
+    miniWindow?.focus();
+  }
+}
+
+function toggleMiniWidget(): void {
+  if (miniWindow?.isVisible()) {
     miniWindow.hide();
   } else {
-    miniWindow.show();
-    miniWindow.focus();
+    showMiniWidget();
   }
 }
 
-function registerGlobalShortcuts(): void {
-  // Register global shortcut to toggle mini widget
-  // Using Cmd+Shift+F (F for Focus) to avoid conflicts with Spotlight
-  const shortcut = process.platform === 'darwin' ? 'Command+Shift+F' : 'Ctrl+Shift+F';
+// ============================================================
+// Window Placement
+// ============================================================
+// Saved positions are checked against the connected displays before they're
+// used, so a window never opens on a monitor that has been unplugged. The
+// main window remembers a position per display arrangement (laptop alone,
+// laptop plus monitor, ...) under 'windowPlacements', and windows dropped
+// near a screen edge or corner snap to it.
+
+const SNAP_DISTANCE = 16;
+
+// How much of a window's top strip (where it's dragged from) must be on a
+// display for it to count as reachable
+const MIN_VISIBLE_WIDTH = 80;
+const MIN_VISIBLE_HEIGHT = 32;
+
+// Identifies the current arrangement of displays
+function getDisplayConfigKey(): string {
+  return screen
+    .getAllDisplays()
+    .map(({ id, bounds }) => `${id}:${bounds.x},${bounds.y},${bounds.width}x${bounds.height}`)
+    .sort()
+    .join('|');
+}
 
-  const registered = globalShortcut.register(shortcut, () => {
-    console.log('Global shortcut triggered!');
-    toggleMiniWidget();
+function isBoundsReachable(bounds: Electron.Rectangle): boolean {
+  return screen.getAllDisplays().some(({ workArea }) => {
+    const visibleWidth = Math.min(bounds.x + bounds.width, workArea.x + workArea.width) - Math.max(bounds.x, workArea.x);
+    const visibleHeight = Math.min(bounds.y + MIN_VISIBLE_HEIGHT, workArea.y + workArea.height) - Math.max(bounds.y, workArea.y);
+    return visibleWidth >= MIN_VISIBLE_WIDTH && visibleHeight >= MIN_VISIBLE_HEIGHT;
   });
+}
 
-  if (!registered) {
-    console.error('Failed to register global shortcut:', shortcut);
-  } else {
-    console.log('Global shortcut registered:', shortcut);
+// Move bounds (shrinking them if they're too big) to lie inside a work area
+function keepInWorkArea(bounds: Electron.Rectangle, workArea: Electron.Rectangle): Electron.Rectangle {
+  const width = Math.round(Math.min(bounds.width, workArea.width));
+  const height = Math.round(Math.min(bounds.height, workArea.height));
+  return {
+    x: Math.round(Math.min(Math.max(bounds.x, workArea.x), workArea.x + workArea.width - width)),
+    y: Math.round(Math.min(Math.max(bounds.y, workArea.y), workArea.y + workArea.height - height)),
+    width,
+    height,
+  };
+}
+
+// Saved bounds made safe to use: nudged fully onto their display, or centered
+// on the primary display when that display is gone
+function getPlaceableBounds(bounds: Electron.Rectangle): Electron.Rectangle {
+  if (isBoundsReachable(bounds)) {
+    return keepInWorkArea(bounds, screen.getDisplayMatching(bounds).workArea);
   }
+  const { workArea } = screen.getPrimaryDisplay();
+  return keepInWorkArea({
+    ...bounds,
+    x: workArea.x + (workArea.width - bounds.width) / 2,
+    y: workArea.y + (workArea.height - bounds.height) / 2,
+  }, workArea);
 }
 
-function unregisterGlobalShortcuts(): void {
-  globalShortcut.unregisterAll();
+function snapToScreenEdges(window: BrowserWindow): void {
+  const bounds = window.getBounds();
+  const { workArea } = screen.getDisplayMatching(bounds);
+  const snap = (value: number, start: number, end: number) => {
+    if (Math.abs(value - start) <= SNAP_DISTANCE) return start;
+    if (Math.abs(value - end) <= SNAP_DISTANCE) return end;
+    return value;
+  };
+
+  const x = snap(bounds.x, workArea.x, workArea.x + workArea.width - bounds.width);
+  const y = snap(bounds.y, workArea.y, workArea.y + workArea.height - bounds.height);
+  if (x !== bounds.x || y !== bounds.y) {
+    window.setPosition(x, y);
+  }
 }
 
-function createTray(): void {
-  // Load the CapyFocus tray icon - focus ring design
-  // macOS template images: Use black pixels (#000000) with alpha for shape
-  // macOS automatically inverts colors for light/dark menu bar
-  // "Template" suffix in filename is convention, but we MUST call setTemplateImage(true)
+// Bounds saved for this display arrangement, or the last saved anywhere
+function getSavedMainWindowBounds(): Electron.Rectangle | undefined {
+  const Store = require('electron-store');
+  const store = new Store();
+  return store.get(`windowPlacements.${getDisplayConfigKey()}`) ?? store.get('windowBounds');
+}
 
-  let iconDir: string;
+function saveMainWindowBounds(): void {
+  if (!mainWindow) return;
+  const Store = require('electron-store');
+  const store = new Store();
+  const bounds = mainWindow.getBounds();
+  store.set('windowBounds', bounds);
+  store.set(`windowPlacements.${getDisplayConfigKey()}`, bounds);
+}
 
-  if (app.isPackaged) {
-    iconDir = path.join(process.resourcesPath, 'icons', 'menu');
-  } else {
-    iconDir = path.join(app.getAppPath(), 'assets', 'icons', 'menu');
+function restoreMainWindowBounds(): void {
+  const saved = getSavedMainWindowBounds();
+  if (mainWindow && saved) {
+    mainWindow.setBounds(getPlaceableBounds(saved));
   }
+}
 
-  // Load both 1x (16px) and 2x (32px) images for proper retina support
-  // Electron will use the appropriate one based on display scale factor
-  const icon1xPath = path.join(iconDir, 'capyfocus-tasktimerTemplate.png');
-  const icon2xPath = path.join(iconDir, 'capyfocus-tasktimerTemplate@2x.png');
+// Displays were plugged in, unplugged or rearranged: go back to where the
+// windows were in this arrangement, or at least somewhere reachable
+function handleDisplaysChanged(): void {
+  if (mainWindow) {
+    const current = mainWindow.getBounds();
+    const Store = require('electron-store');
+    const store = new Store();
+    const saved: Electron.Rectangle | undefined = store.get(`windowPlacements.${getDisplayConfigKey()}`);
+    // Only the position: the size depends on whether the window is collapsed
+    const target = saved ? { ...current, x: saved.x, y: saved.y } : current;
+    mainWindow.setBounds(getPlaceableBounds(target));
+  }
 
-  console.log('Tray icon 1x path:', icon1xPath);
-  console.log('Tray icon 2x path:', icon2xPath);
+  if (miniWindow && !isBoundsReachable(miniWindow.getBounds())) {
+    const display = screen.getPrimaryDisplay();
+    applyMiniWidgetLayout(getMiniWidgetDisplayState(display.id).layout, display);
+  }
+  updateTray();
+}
 
-  // Create icon from the 1x image first
-  let icon = nativeImage.createFromPath(icon1xPath);
+// Carry a window to another display, keeping its relative place on the screen
+function moveWindowToDisplay(window: BrowserWindow, display: Electron.Display): void {
+  const bounds = window.getBounds();
+  const from = screen.getDisplayMatching(bounds).workArea;
+  const to = display.workArea;
+  const relativeX = (bounds.x - from.x) / Math.max(1, from.width - bounds.width);
+  const relativeY = (bounds.y - from.y) / Math.max(1, from.height - bounds.height);
+
+  window.setBounds(keepInWorkArea({
+    ...bounds,
+    x: to.x + relativeX * Math.max(0, to.width - bounds.width),
+    y: to.y + relativeY * Math.max(0, to.height - bounds.height),
+  }, to));
+}
 
-  if (icon.isEmpty()) {
-    console.error('Failed to load tray icon from:', icon1xPath);
-    // Create a fallback empty icon
-    icon = nativeImage.createEmpty();
-  } else {
-    console.log('Tray icon 1x loaded. Size:', icon.getSize());
+// Bring the main window (and the mini widget, if open) to the display the cursor is on
+function moveToActiveDisplay(): void {
+  const display = screen.getDisplayNearestPoint(screen.getCursorScreenPoint());
 
-    // Add the @2x representation for retina displays
-    // This is the key to crisp icons on retina Macs
-    const icon2x = nativeImage.createFromPath(icon2xPath);
-    if (!icon2x.isEmpty()) {
-      console.log('Tray icon 2x loaded. Size:', icon2x.getSize());
-      // Add 2x representation with scale factor 2
-      icon.addRepresentation({
-        scaleFactor: 2.0,
-        width: 32,
-        height: 32,
-        buffer: icon2x.toPNG(),
-      });
-    }
+  if (!mainWindow) {
+    createWindow();
+  }
+  if (mainWindow) {
+    moveWindowToDisplay(mainWindow, display);
+    saveMainWindowBounds();
+    mainWindow.show();
+    mainWindow.focus();
   }
 
-  // DO NOT resize - use the images at their native sizes (16px and 32px@2x)
-  // resize() creates issues with template images
+  if (miniWindow?.isVisible()) {
+    applyMiniWidgetLayout(getMiniWidgetDisplayState(display.id).layout, display);
+  }
+}
 
-  // CRITICAL: Set template flag AFTER all representations are added
-  // This tells macOS to treat the icon as a template (auto-invert for dark/light mode)
-  icon.setTemplateImage(true);
+// ============================================================
+// Startup Options
+// ============================================================
+// Set from Settings and kept in electron-store under 'startupOptions'. Launch
+// at login is registered with the OS (macOS and Windows only); the other two
+// decide which windows show when the app starts.
+
+interface StartupOptions {
+  launchAtLogin: boolean;
+  startMinimized: boolean; // stay in the tray, the main window loads hidden
+  openMiniWidgetOnLaunch: boolean;
+}
 
-  // Debug logging
-  console.log('Final icon isEmpty:', icon.isEmpty());
-  console.log('Final icon size:', icon.getSize());
-  console.log('Final icon isTemplateImage:', icon.isTemplateImage());
+interface StartupOptionsStatus extends StartupOptions {
+  launchAtLoginSupported: boolean;
+}
 
-  tray = new Tray(icon);
+const DEFAULT_STARTUP_OPTIONS: StartupOptions = {
+  launchAtLogin: false,
+  startMinimized: false,
+  openMiniWidgetOnLaunch: false,
+};
 
-  const contextMenu = Menu.buildFromTemplate([
-    {
-      label: 'Show/Hide',
-      click: () => {
-        if (mainWindow) {
-          if (mainWindow.isVisible()) {
-            mainWindow.hide();
-          } else {
-            mainWindow.show();
-          }
-        }
-      },
-    },
-    {
-      label: 'Toggle Mini Widget',
-      accelerator: process.platform === 'darwin' ? 'Cmd+Shift+F' : 'Ctrl+Shift+F',
-      click: () => {
-        toggleMiniWidget();
-      },
-    },
-    { type: 'separator' },
-    {
-      label: 'Quit',
-      click: () => {
-        isQuitting = true;
-        app.quit();
-      },
-    },
-  ]);
+function isLaunchAtLoginSupported(): boolean {
+  return process.platform === 'darwin' || process.platform === 'win32';
+}
 
-  tray.setToolTip('CapyFocus');
-  tray.setContextMenu(contextMenu);
+function loadStartupOptions(): StartupOptions {
+  const Store = require('electron-store');
+  const store = new Store();
+  return { ...DEFAULT_STARTUP_OPTIONS, ...store.get('startupOptions', {}) };
+}
 
-  tray.on('click', () => {
-    if (mainWindow) {
-      if (mainWindow.isVisible()) {
-        mainWindow.hide();
-      } else {
-        mainWindow.show();
-      }
-    }
-  });
+function getStartupOptionsStatus(): StartupOptionsStatus {
+  const options = loadStartupOptions();
+  const launchAtLoginSupported = isLaunchAtLoginSupported();
+  return {
+    ...options,
+    // The user may have removed the login item in the OS settings since
+    launchAtLogin: launchAtLoginSupported ? app.getLoginItemSettings().openAtLogin : false,
+    launchAtLoginSupported,
+  };
 }
 
-// IPC Handlers
-ipcMain.handle('toggle-collapse', () => {
-  if (!mainWindow) return;
+function setStartupOptions(changes: Partial<StartupOptions>): StartupOptionsStatus {
+  const options: StartupOptions = { ...loadStartupOptions() };
+  for (const key of Object.keys(DEFAULT_STARTUP_OPTIONS) as (keyof StartupOptions)[]) {
+    if (typeof changes[key] === 'boolean') {
+      options[key] = changes[key] as boolean;
+    }
+  }
 
-  isCollapsed = !isCollapsed;
-  const bounds = mainWindow.getBounds();
+  const Store = require('electron-store');
+  const store = new Store();
+  store.set('startupOptions', options);
 
-  if (isCollapsed) {
-    mainWindow.setMinimumSize(320, COLLAPSED_HEIGHT);
-    mainWindow.setMaximumSize(500, COLLAPSED_HEIGHT);
-    mainWindow.setBounds({
-      x: bounds.x,
-      y: bounds.y + bounds.height - COLLAPSED_HEIGHT,
-      width: COLLAPSED_WIDTH,
-      height: COLLAPSED_HEIGHT,
-    }, true);
-  } else {
-    mainWindow.setMinimumSize(340, 300);
-    mainWindow.setMaximumSize(600, 700);
-    mainWindow.setBounds({
-      x: bounds.x,
-      y: bounds.y + bounds.height - EXPANDED_HEIGHT,
-      width: EXPANDED_WIDTH,
-      height: EXPANDED_HEIGHT,
-    }, true);
+  if (typeof changes.launchAtLogin === 'boolean' && isLaunchAtLoginSupported()) {
+    app.setLoginItemSettings({ openAtLogin: options.launchAtLogin });
   }
+  return getStartupOptionsStatus();
+}
 
-  return isCollapsed;
-});
+// ============================================================
+// Deep Links (capyfocus://)
+// ============================================================
+// Links like capyfocus://start?minutes=25 or capyfocus://open/notes are
+// routed by the main window, which maps them onto store actions. Links that
+// arrive before it is listening (e.g. the one that launched the app) queue
+// until it asks for them on 'deep-link-ready'.
 
-ipcMain.handle('get-collapsed-state', () => {
-  return isCollapsed;
-});
+const DEEP_LINK_PROTOCOL = 'capyfocus';
 
-ipcMain.handle('close-window', () => {
-  if (mainWindow) {
-    mainWindow.hide();
+// Routes that bring the main window forward; the rest (start, pause,
+// add-task...) run in the background so scripts don't steal focus
+const DEEP_LINK_WINDOW_ROUTES = ['open', 'reset-password'];
+
+const pendingDeepLinks: string[] = [];
+let isDeepLinkReceiverReady = false;
+
+function findDeepLink(argv: string[]): string | undefined {
+  return argv.find((arg) => arg.startsWith(`${DEEP_LINK_PROTOCOL}://`));
+}
+
+function registerDeepLinkProtocol(): void {
+  // In development the app runs as `electron .`, so the path to it is passed along
+  if (process.defaultApp && process.argv.length >= 2) {
+    app.setAsDefaultProtocolClient(DEEP_LINK_PROTOCOL, process.execPath, [path.resolve(process.argv[1])]);
+  } else {
+    app.setAsDefaultProtocolClient(DEEP_LINK_PROTOCOL);
   }
-});
+}
 
-ipcMain.handle('minimize-window', () => {
-  if (mainWindow) {
-    mainWindow.minimize();
+function handleDeepLink(url: string): void {
+  let route = '';
+  try {
+    const parsed = new URL(url);
+    route = `${parsed.host}${parsed.pathname}`.replace(/^\/+/, '').split('/')[0].toLowerCase();
+  } catch {
+    console.error('Invalid deep link:', url);
+    return;
   }
-});
 
-ipcMain.handle('close-mini-widget', () => {
-  if (miniWindow) {
-    miniWindow.hide();
+  if (!app.isReady()) {
+    pendingDeepLinks.push(url);
+    return;
   }
-});
 
-ipcMain.handle('toggle-mini-widget', () => {
-  toggleMiniWidget();
-});
+  if (DEEP_LINK_WINDOW_ROUTES.includes(route)) {
+    showMainWindow();
+  } else if (!mainWindow) {
+    createWindow();
+  }
 
-ipcMain.handle('set-always-on-top', (_event, enabled: boolean) => {
-  if (mainWindow) {
-    mainWindow.setAlwaysOnTop(enabled);
+  if (mainWindow && isDeepLinkReceiverReady) {
+    mainWindow.webContents.send('deep-link', url);
+  } else {
+    pendingDeepLinks.push(url);
   }
-  if (miniWindow) {
-    miniWindow.setAlwaysOnTop(enabled);
+}
+
+// ============================================================
+// Global Shortcuts
+// ============================================================
+// Bindings are kept in electron-store under 'shortcuts' and edited from
+// Settings. An empty accelerator leaves the action unbound. Registration
+// results are kept so Settings can show which bindings failed.
+
+type ShortcutAction =
+  | 'toggleTimer'
+  | 'skip'
+  | 'reset'
+  | 'toggleMusic'
+  | 'showMainWindow'
+  | 'quickAddTask'
+  | 'toggleMiniWidget'
+  | 'moveToActiveDisplay';
+
+// invalid: not an accelerator; duplicate: bound to another action too;
+// unavailable: taken by the system or another app
+type ShortcutError = 'invalid' | 'duplicate' | 'unavailable';
+
+interface ShortcutStatus {
+  action: ShortcutAction;
+  accelerator: string;
+  error: ShortcutError | null;
+}
+
+interface ShortcutUpdateResult {
+  ok: boolean;
+  error: ShortcutError | null;
+  conflictsWith: ShortcutAction | null;
+  statuses: ShortcutStatus[];
+}
+
+// Cmd+Shift+F (F for Focus) avoids conflicts with Spotlight; Cmd+Alt+N for a new task
+const DEFAULT_SHORTCUTS: Record<ShortcutAction, string> = {
+  toggleTimer: '',
+  skip: '',
+  reset: '',
+  toggleMusic: '',
+  showMainWindow: '',
+  quickAddTask: 'CommandOrControl+Alt+N',
+  toggleMiniWidget: 'CommandOrControl+Shift+F',
+  moveToActiveDisplay: '',
+};
+
+const SHORTCUT_HANDLERS: Record<ShortcutAction, () => void> = {
+  toggleTimer: () => toggleTimer(),
+  skip: () => timerEngine.skip(),
+  reset: () => timerEngine.reset(),
+  // Music plays in the main window
+  toggleMusic: () => mainWindow?.webContents.send('shortcut-action', 'toggleMusic'),
+  showMainWindow: () => showMainWindow(),
+  quickAddTask: () => toggleQuickCapture(),
+  toggleMiniWidget: () => toggleMiniWidget(),
+  moveToActiveDisplay: () => moveToActiveDisplay(),
+};
+
+let shortcutStatuses: ShortcutStatus[] = [];
+
+// The accelerator an action is registered under, if any
+function getShortcutAccelerator(action: ShortcutAction): string | undefined {
+  const status = shortcutStatuses.find((s) => s.action === action);
+  return status?.accelerator && !status.error ? status.accelerator : undefined;
+}
+
+function showMainWindow(): void {
+  if (!mainWindow) {
+    createWindow();
+    return;
   }
-  return enabled;
-});
+  mainWindow.show();
+  mainWindow.focus();
+}
 
-// Audio path handler - returns correct path for both dev and packaged builds
-ipcMain.handle('get-audio-path', (_event, fileName: string) => {
-  let audioPath: string;
+function loadShortcuts(): Record<ShortcutAction, string> {
+  const Store = require('electron-store');
+  const store = new Store();
+  // Actions added since the bindings were saved get their defaults
+  return { ...DEFAULT_SHORTCUTS, ...store.get('shortcuts', {}) };
+}
 
-  if (app.isPackaged) {
-    // In production, audio files are in extraResources/audio
-    // Use file:// protocol for local files in packaged app
-    const filePath = path.join(process.resourcesPath, 'audio', `${fileName}.mp3`);
-    audioPath = `file://${filePath}`;
+function saveShortcuts(shortcuts: Record<ShortcutAction, string>): void {
+  const Store = require('electron-store');
+  const store = new Store();
+  store.set('shortcuts', shortcuts);
+}
+
+const MODIFIER_ALIASES: Record<string, string> = {
+  commandorcontrol: process.platform === 'darwin' ? 'command' : 'control',
+  cmdorctrl: process.platform === 'darwin' ? 'command' : 'control',
+  cmd: 'command',
+  ctrl: 'control',
+  option: 'alt',
+};
+
+// Compare accelerators regardless of case, aliases and modifier order
+function normalizeAccelerator(accelerator: string): string {
+  const parts = accelerator.toLowerCase().split('+').map((part) => MODIFIER_ALIASES[part] ?? part);
+  const key = parts.pop() ?? '';
+  return [...parts.sort(), key].join('+');
+}
+
+function findShortcutConflict(
+  shortcuts: Record<ShortcutAction, string>,
+  action: ShortcutAction,
+  accelerator: string
+): ShortcutAction | null {
+  if (!accelerator) return null;
+  const normalized = normalizeAccelerator(accelerator);
+  const entries = Object.entries(shortcuts) as [ShortcutAction, string][];
+  const match = entries.find(([other, bound]) => other !== action && bound && normalizeAccelerator(bound) === normalized);
+  return match ? match[0] : null;
+}
+
+// Quick capture: a small task entry window summoned by a global shortcut.
+// It opens near the top of the display the cursor is on and hides as soon
+// as it loses focus.
+function createQuickCaptureWindow(): void {
+  quickCaptureWindow = new BrowserWindow({
+    width: QUICK_CAPTURE_WIDTH,
+    height: QUICK_CAPTURE_HEIGHT,
+    frame: false,
+    resizable: false,
+    alwaysOnTop: true,
+    transparent: true,
+    backgroundColor: '#00000000',
+    skipTaskbar: true,
+    roundedCorners: true,
+    hasShadow: true,
+    show: false,
+
+    // macOS VIBRANCY
+    vibrancy: 'under-window',
+    visualEffectState: 'active',
+
+    webPreferences: {
+      preload: path.join(__dirname, 'preload.cjs'),
+      contextIsolation: true,
+      nodeIntegration: false,
+    },
+  });
+
+  if (process.env.NODE_ENV === 'development' || !app.isPackaged) {
+    quickCaptureWindow.loadURL('http://localhost:5173/#/quick-capture');
   } else {
-    // In development, serve from public/audio via Vite dev server
-    audioPath = `/audio/${fileName}.mp3`;
+    quickCaptureWindow.loadFile(path.join(__dirname, '../renderer/index.html'), {
+      hash: '/quick-capture',
+    });
   }
 
-  console.log(`Audio path for ${fileName}:`, audioPath, `(isPackaged: ${app.isPackaged})`);
-  return audioPath;
-});
+  quickCaptureWindow.once('ready-to-show', () => showQuickCapture());
 
-ipcMain.handle('is-packaged', () => {
-  return app.isPackaged;
-});
+  quickCaptureWindow.on('blur', () => {
+    quickCaptureWindow?.hide();
+  });
+
+  // Hide instead of close
+  quickCaptureWindow.on('close', (e) => {
+    if (quickCaptureWindow && !isQuitting) {
+      e.preventDefault();
+      quickCaptureWindow.hide();
+    }
+  });
+
+  quickCaptureWindow.on('closed', () => {
+    quickCaptureWindow = null;
+  });
+}
+
+function showQuickCapture(): void {
+  if (!quickCaptureWindow) {
+    createQuickCaptureWindow();
+    return;
+  }
+
+  const { workArea } = screen.getDisplayNearestPoint(screen.getCursorScreenPoint());
+  quickCaptureWindow.setPosition(
+    Math.round(workArea.x + (workArea.width - QUICK_CAPTURE_WIDTH) / 2),
+    Math.round(workArea.y + workArea.height / 4)
+  );
+  quickCaptureWindow.show();
+  quickCaptureWindow.focus();
+}
+
+function toggleQuickCapture(): void {
+  if (quickCaptureWindow?.isVisible()) {
+    quickCaptureWindow.hide();
+  } else {
+    showQuickCapture();
+  }
+}
+
+function registerGlobalShortcuts(): ShortcutStatus[] {
+  globalShortcut.unregisterAll();
+
+  const shortcuts = loadShortcuts();
+  const claimed = new Set<string>();
+  shortcutStatuses = (Object.keys(DEFAULT_SHORTCUTS) as ShortcutAction[]).map((action) => {
+    const accelerator = shortcuts[action];
+    if (!accelerator) return { action, accelerator, error: null };
+
+    // The first action bound to a combination keeps it
+    const normalized = normalizeAccelerator(accelerator);
+    if (claimed.has(normalized)) {
+      console.error('Global shortcut already bound to another action:', accelerator);
+      return { action, accelerator, error: 'duplicate' };
+    }
+    claimed.add(normalized);
+
+    let error: ShortcutError | null = null;
+    try {
+      if (!globalShortcut.register(accelerator, SHORTCUT_HANDLERS[action])) {
+        error = 'unavailable';
+      }
+    } catch {
+      error = 'invalid';
+    }
+
+    if (error) {
+      console.error('Failed to register global shortcut:', accelerator, error);
+    }
+    return { action, accelerator, error };
+  });
+
+  // The tray menu shows the mini widget binding
+  trayMenuKey = '';
+  updateTray();
+  return shortcutStatuses;
+}
+
+// Bind an action, or unbind it with an empty accelerator. A combination used
+// by another action is refused; one that fails to register is rolled back.
+function updateShortcut(action: ShortcutAction, accelerator: string): ShortcutUpdateResult {
+  const shortcuts = loadShortcuts();
+  const conflictsWith = findShortcutConflict(shortcuts, action, accelerator);
+  if (conflictsWith) {
+    return { ok: false, error: 'duplicate', conflictsWith, statuses: shortcutStatuses };
+  }
+
+  const previous = shortcuts[action];
+  saveShortcuts({ ...shortcuts, [action]: accelerator });
+  const statuses = registerGlobalShortcuts();
+  const error = statuses.find((status) => status.action === action)?.error ?? null;
+  if (!error) {
+    return { ok: true, error: null, conflictsWith: null, statuses };
+  }
+
+  saveShortcuts({ ...shortcuts, [action]: previous });
+  return { ok: false, error, conflictsWith: null, statuses: registerGlobalShortcuts() };
+}
+
+function unregisterGlobalShortcuts(): void {
+  globalShortcut.unregisterAll();
+}
+
+// ============================================================
+// Timer Service
+// ============================================================
+// The countdown lives here so there is exactly one clock no matter how many
+// windows are open (or throttled). Renderers only send commands and display
+// the state broadcast on 'timer-state'. The state machine itself is the timer
+// engine (timerEngine.ts); this hosts it over `timerState` and `timerConfig`.
+
+let timerConfig: TimerConfig = DEFAULT_TIMER_CONFIG;
+let timerState: TimerState = createTimerState(timerConfig);
+
+// Finished blocks wait here until the main window takes them to record its
+// stats, so one that ends while it is reloading or not loaded yet (started
+// hidden) is still recorded, and only once
+const pendingCompletions: TimerCompletion[] = [];
+
+function broadcast(channel: string, ...args: unknown[]): void {
+  for (const window of BrowserWindow.getAllWindows()) {
+    if (!window.isDestroyed()) {
+      window.webContents.send(channel, ...args);
+    }
+  }
+}
+
+function setTimerState(partial: Partial<TimerState>): void {
+  timerState = { ...timerState, ...partial };
+  broadcast('timer-state', timerState);
+  updateTray();
+}
+
+const timerEngine = createTimerEngine({
+  getState: () => timerState,
+  setState: (state) => setTimerState(state),
+  getConfig: () => timerConfig,
+  onComplete: (mode, elapsedSeconds) => {
+    pendingCompletions.push({ mode, elapsedSeconds });
+    broadcast('timer-complete', mode, elapsedSeconds);
+  },
+  notify: ({ title, body, silent }) => {
+    if (Notification.isSupported()) {
+      new Notification({ title, body, silent }).show();
+    }
+  },
+});
+
+function configureTimer(config: TimerConfig): void {
+  const previous = timerConfig;
+  timerConfig = config;
+  timerEngine.reconfigure(previous);
+}
+
+// ============================================================
+// Away Detection
+// ============================================================
+// powerMonitor tells us when the user leaves during a running focus block: no
+// input for the away threshold, the screen locking or the machine going to
+// sleep. With 'pause' the block is paused as of when they left (flagged instead
+// while Mind Lock holds it); otherwise it keeps running. Once they're back the
+// period goes out on 'timer-away' and the renderer counts it as a pause
+// ('flag') or asks what to do with it ('ask').
+
+type AwayReason = 'idle' | 'lock' | 'suspend';
+
+const AWAY_POLL_MS = 15 * 1000;
+
+let away: { startedAt: number; mode: TimerMode; reason: AwayReason; behavior: AwayBehavior } | null = null;
+let awayPollInterval: NodeJS.Timeout | null = null;
+
+function isFocusRunning(): boolean {
+  return timerState.isRunning && (timerState.mode === 'pomodoro' || timerState.mode === 'flow');
+}
+
+// Mind Lock outranks auto-pause: the block keeps running and the time away is flagged
+function getAwayBehavior(): AwayBehavior {
+  const behavior = timerConfig.awayBehavior;
+  return behavior === 'pause' && isPauseLocked(timerState, timerConfig) ? 'flag' : behavior;
+}
+
+// The user left `secondsAgo` seconds ago
+function beginAway(reason: AwayReason, secondsAgo = 0): void {
+  const behavior = getAwayBehavior();
+  if (away || behavior === 'off' || !isFocusRunning()) return;
+
+  away = { startedAt: Date.now() - secondsAgo * 1000, mode: timerState.mode, reason, behavior };
+  if (behavior === 'pause') {
+    timerEngine.pause();
+    timerEngine.discardTime(secondsAgo);
+  }
+}
+
+// The user came back `secondsAgo` seconds ago
+function endAway(secondsAgo = 0): void {
+  if (!away) return;
+  const { startedAt, mode, behavior } = away;
+  away = null;
+
+  // Nothing to report once the block has ended; an auto-paused one is still waiting
+  const isSameBlock = timerState.mode === mode && (timerState.isRunning || behavior === 'pause');
+  if (timerConfig.awayBehavior === 'off' || !isSameBlock) return;
+
+  const awaySeconds = Math.max(0, Math.round((Date.now() - secondsAgo * 1000 - startedAt) / 1000));
+  const period: AwayPeriod = {
+    mode,
+    seconds: behavior === 'pause' ? awaySeconds : Math.min(awaySeconds, getRunElapsedSeconds(timerState)),
+    behavior,
+  };
+  if (period.seconds > 0) {
+    broadcast('timer-away', period);
+  }
+}
+
+// Idle time is polled; a lock or sleep period is ended by its own event
+function checkIdleTime(): void {
+  if (timerConfig.awayBehavior === 'off' || timerConfig.awayThresholdSeconds <= 0) return;
+
+  const idleSeconds = powerMonitor.getSystemIdleTime();
+  if (idleSeconds >= timerConfig.awayThresholdSeconds) {
+    beginAway('idle', idleSeconds);
+  } else if (away?.reason === 'idle') {
+    endAway(idleSeconds);
+  }
+}
+
+function startAwayDetection(): void {
+  powerMonitor.on('lock-screen', () => beginAway('lock'));
+  powerMonitor.on('suspend', () => beginAway('suspend'));
+  powerMonitor.on('unlock-screen', () => {
+    if (away?.reason !== 'idle') endAway();
+  });
+  powerMonitor.on('resume', () => {
+    if (away?.reason === 'suspend') endAway();
+  });
+  awayPollInterval = setInterval(checkIdleTime, AWAY_POLL_MS);
+}
+
+function stopAwayDetection(): void {
+  if (awayPollInterval) {
+    clearInterval(awayPollInterval);
+    awayPollInterval = null;
+  }
+}
+
+// ============================================================
+// Cross-window Store Sync
+// ============================================================
+// Each renderer has its own zustand stores. Windows send the keys they change
+// here and main relays them to the other windows. Conflicts resolve per key:
+// the newest `updatedAt` wins, ties go to the higher window id.
+
+interface StoreSyncMessage {
+  store: string;
+  patch: Record<string, unknown>;
+  updatedAt: number;
+  origin: number; // webContents id of the sending window
+}
+
+interface SyncedValue {
+  value: unknown;
+  updatedAt: number;
+  origin: number;
+}
+
+// Latest value of every key changed this session, handed to windows that open later
+const storeSnapshot: Record<string, Record<string, SyncedValue>> = {};
+
+function isNewerSyncedValue(candidate: SyncedValue, current: SyncedValue | undefined): boolean {
+  if (!current) return true;
+  if (candidate.updatedAt !== current.updatedAt) {
+    return candidate.updatedAt > current.updatedAt;
+  }
+  return candidate.origin > current.origin;
+}
+
+function recordStoreSync(message: StoreSyncMessage): void {
+  const snapshot = (storeSnapshot[message.store] ??= {});
+  for (const [key, value] of Object.entries(message.patch)) {
+    const candidate = { value, updatedAt: message.updatedAt, origin: message.origin };
+    if (isNewerSyncedValue(candidate, snapshot[key])) {
+      snapshot[key] = candidate;
+    }
+  }
+}
+
+function getStoreSnapshotMessages(): StoreSyncMessage[] {
+  const messages: StoreSyncMessage[] = [];
+  for (const [store, values] of Object.entries(storeSnapshot)) {
+    for (const [key, synced] of Object.entries(values)) {
+      messages.push({
+        store,
+        patch: { [key]: synced.value },
+        updatedAt: synced.updatedAt,
+        origin: synced.origin,
+      });
+    }
+  }
+  return messages;
+}
+
+
+// Root of the bundled icon folders (assets/icons in dev, resources/icons when packaged)
+function getIconsDir(): string {
+  return app.isPackaged
+    ? path.join(process.resourcesPath, 'icons')
+    : path.join(app.getAppPath(), 'assets', 'icons');
+}
+
+// Load a macOS template image from `dir`, with its @2x representation
+// macOS template images: Use black pixels (#000000) with alpha for shape
+// macOS automatically inverts colors for light/dark menu bar
+// "Template" suffix in filename is convention, but we MUST call setTemplateImage(true)
+function loadTemplateIcon(dir: string, name: string): Electron.NativeImage {
+  // Load both 1x (16px) and 2x (32px) images for proper retina support
+  // Electron will use the appropriate one based on display scale factor
+  const icon1xPath = path.join(dir, `${name}.png`);
+  const icon2xPath = path.join(dir, `${name}@2x.png`);
+
+  // Create icon from the 1x image first
+  let icon = nativeImage.createFromPath(icon1xPath);
+
+  if (icon.isEmpty()) {
+    console.error('Failed to load tray icon from:', icon1xPath);
+    // Create a fallback empty icon
+    icon = nativeImage.createEmpty();
+  } else {
+    // Add the @2x representation for retina displays
+    // This is the key to crisp icons on retina Macs
+    const icon2x = nativeImage.createFromPath(icon2xPath);
+    if (!icon2x.isEmpty()) {
+      // Add 2x representation with scale factor 2
+      icon.addRepresentation({
+        scaleFactor: 2.0,
+        width: 32,
+        height: 32,
+        buffer: icon2x.toPNG(),
+      });
+    }
+  }
+
+  // DO NOT resize - use the images at their native sizes (16px and 32px@2x)
+  // resize() creates issues with template images
+
+  // CRITICAL: Set template flag AFTER all representations are added
+  // This tells macOS to treat the icon as a template (auto-invert for dark/light mode)
+  icon.setTemplateImage(true);
+  return icon;
+}
+
+// ============================================================
+// Control API
+// ============================================================
+// Opt-in REST server for scripts and editor integrations. It listens on
+// 127.0.0.1 only and every request needs the token ("Authorization: Bearer
+// <token>"). Requests are answered by the main window, which maps them onto
+// the same actions the coach uses. While the server runs, its port and token
+// are written to control-api.json in userData; the capyfocus CLI falls back to
+// it when the CLI socket (below) can't be reached.
+
+interface ControlApiRequest {
+  id: number;
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body: unknown;
+}
+
+interface ControlApiResponse {
+  status: number;
+  body: unknown;
+}
+
+interface ControlApiStatus {
+  running: boolean;
+  port: number;
+  token: string;
+  error: string | null;
+}
+
+const CONTROL_API_HOST = '127.0.0.1';
+const CONTROL_API_TIMEOUT_MS = 5000;
+// A request that launched the app waits for the main window to load
+const CONTROL_API_STARTUP_TIMEOUT_MS = 30 * 1000;
+const CONTROL_API_MAX_BODY_BYTES = 64 * 1024;
+const CONTROL_API_FILE = 'control-api.json';
+
+let controlServer: http.Server | null = null;
+let controlApiPort = 0;
+let controlApiError: string | null = null;
+let nextControlRequestId = 1;
+const pendingControlRequests = new Map<number, (response: ControlApiResponse) => void>();
+// Requests wait here until the main window's page is listening for them
+const queuedControlRequests: ControlApiRequest[] = [];
+let isControlReceiverReady = false;
+
+function getControlApiToken(regenerate = false): string {
+  const Store = require('electron-store');
+  const store = new Store();
+  let token: string | undefined = store.get('controlApiToken');
+  if (!token || regenerate) {
+    token = randomBytes(24).toString('hex');
+    store.set('controlApiToken', token);
+  }
+  return token;
+}
+
+function getControlApiStatus(): ControlApiStatus {
+  return {
+    running: !!controlServer,
+    port: controlApiPort,
+    token: getControlApiToken(),
+    error: controlApiError,
+  };
+}
+
+function broadcastControlApiStatus(): ControlApiStatus {
+  const status = getControlApiStatus();
+  broadcast('control-api-status', status);
+  return status;
+}
+
+function isControlRequestAuthorized(req: http.IncomingMessage): boolean {
+  // Only same-host clients: a browser page sent here by DNS rebinding would carry its own Host
+  const host = req.headers.host ?? '';
+  if (host !== `${CONTROL_API_HOST}:${controlApiPort}` && host !== `localhost:${controlApiPort}`) {
+    return false;
+  }
+
+  const match = (req.headers.authorization ?? '').match(/^Bearer\s+(\S+)$/);
+  if (!match) return false;
+  const expected = Buffer.from(getControlApiToken());
+  const given = Buffer.from(match[1]);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+function readControlRequestBody(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > CONTROL_API_MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf8').trim();
+      if (!text) {
+        resolve(null);
+        return;
+      }
+      try {
+        resolve(JSON.parse(text));
+      } catch {
+        reject(new Error('Body must be JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function sendControlRequest(request: ControlApiRequest): void {
+  if (mainWindow && isControlReceiverReady) {
+    mainWindow.webContents.send('control-api-request', request);
+  } else {
+    queuedControlRequests.push(request);
+  }
+}
+
+// Hand a request to the main window and wait for its answer
+function forwardControlRequest(
+  request: Omit<ControlApiRequest, 'id'>,
+  timeoutMs = CONTROL_API_TIMEOUT_MS
+): Promise<ControlApiResponse> {
+  if (!mainWindow) {
+    return Promise.resolve({ status: 503, body: { ok: false, error: 'CapyFocus window is not open' } });
+  }
+
+  const id = nextControlRequestId++;
+  return new Promise((resolve) => {
+    const timeout = setTimeout(() => {
+      pendingControlRequests.delete(id);
+      const index = queuedControlRequests.findIndex((queued) => queued.id === id);
+      if (index !== -1) queuedControlRequests.splice(index, 1);
+      resolve({ status: 504, body: { ok: false, error: 'CapyFocus did not answer in time' } });
+    }, timeoutMs);
+
+    pendingControlRequests.set(id, (response) => {
+      clearTimeout(timeout);
+      pendingControlRequests.delete(id);
+      resolve(response);
+    });
+    sendControlRequest({ ...request, id });
+  });
+}
+
+async function handleControlRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  const send = ({ status, body }: ControlApiResponse) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+
+  if (!isControlRequestAuthorized(req)) {
+    send({ status: 401, body: { ok: false, error: 'Missing or wrong token' } });
+    return;
+  }
+
+  let body: unknown;
+  try {
+    body = await readControlRequestBody(req);
+  } catch (error) {
+    send({ status: 400, body: { ok: false, error: (error as Error).message } });
+    return;
+  }
+
+  const url = new URL(req.url ?? '/', `http://${CONTROL_API_HOST}`);
+  send(await forwardControlRequest({
+    method: req.method ?? 'GET',
+    path: url.pathname.replace(/\/+$/, '') || '/',
+    query: Object.fromEntries(url.searchParams),
+    body,
+  }));
+}
+
+function getControlApiFilePath(): string {
+  return path.join(app.getPath('userData'), CONTROL_API_FILE);
+}
+
+// Tell the CLI where to find the server; readable by this user only
+function writeControlApiFile(): void {
+  const contents = { port: controlApiPort, token: getControlApiToken(), pid: process.pid };
+  try {
+    fs.writeFileSync(getControlApiFilePath(), JSON.stringify(contents, null, 2), { mode: 0o600 });
+  } catch (error) {
+    console.error('Failed to write the control API file:', error);
+  }
+}
+
+function removeControlApiFile(): void {
+  try {
+    fs.rmSync(getControlApiFilePath(), { force: true });
+  } catch (error) {
+    console.error('Failed to remove the control API file:', error);
+  }
+}
+
+function stopControlServer(): void {
+  if (controlServer) {
+    removeControlApiFile();
+  }
+  controlServer?.close();
+  controlServer = null;
+}
+
+// Start, restart (new port) or stop the server to match the settings
+function configureControlApi(enabled: boolean, port: number): Promise<ControlApiStatus> {
+  if (controlServer && (!enabled || port !== controlApiPort)) {
+    stopControlServer();
+  }
+  controlApiPort = port;
+  controlApiError = null;
+
+  if (!enabled || controlServer) {
+    return Promise.resolve(broadcastControlApiStatus());
+  }
+  if (!Number.isInteger(port) || port < 1024 || port > 65535) {
+    controlApiError = 'Port must be between 1024 and 65535';
+    return Promise.resolve(broadcastControlApiStatus());
+  }
+
+  return new Promise((resolve) => {
+    const server = http.createServer((req, res) => {
+      handleControlRequest(req, res).catch((error) => {
+        console.error('Control API request failed:', error);
+        if (!res.headersSent) {
+          res.writeHead(500, { 'Content-Type': 'application/json' });
+        }
+        res.end(JSON.stringify({ ok: false, error: 'Internal error' }));
+      });
+    });
+
+    server.once('error', (error: NodeJS.ErrnoException) => {
+      controlApiError = error.code === 'EADDRINUSE' ? `Port ${port} is already in use` : error.message;
+      console.error('Control API failed to start:', error);
+      resolve(broadcastControlApiStatus());
+    });
+
+    server.listen(port, CONTROL_API_HOST, () => {
+      controlServer = server;
+      writeControlApiFile();
+      resolve(broadcastControlApiStatus());
+    });
+  });
+}
+
+// ============================================================
+// CLI Socket
+// ============================================================
+// The capyfocus CLI reaches the running app over a local socket (a named pipe
+// on Windows) that is always on, unlike the opt-in control API. Its path and a
+// token made fresh each launch are written to cli.json in userData, readable by
+// this user only. A client sends one JSON line ({ token, args }) and gets one
+// back: the answer to POST /cli.
+
+const CLI_FILE = 'cli.json';
+const CLI_MAX_REQUEST_BYTES = 64 * 1024;
+
+let cliServer: net.Server | null = null;
+const cliToken = randomBytes(24).toString('hex');
+
+function getCliSocketPath(): string {
+  return process.platform === 'win32'
+    ? `\\\\.\\pipe\\capyfocus-cli-${os.userInfo().username}`
+    : path.join(app.getPath('userData'), 'cli.sock');
+}
+
+function getCliFilePath(): string {
+  return path.join(app.getPath('userData'), CLI_FILE);
+}
+
+function isCliTokenValid(token: unknown): boolean {
+  if (typeof token !== 'string') return false;
+  const expected = Buffer.from(cliToken);
+  const given = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+async function answerCliRequest(line: string): Promise<ControlApiResponse> {
+  let request: { token?: unknown; args?: unknown };
+  try {
+    request = JSON.parse(line);
+  } catch {
+    return { status: 400, body: { ok: false, error: 'Request must be JSON' } };
+  }
+  if (!isCliTokenValid(request?.token)) {
+    return { status: 401, body: { ok: false, error: 'Missing or wrong token' } };
+  }
+  return forwardControlRequest({ method: 'POST', path: '/cli', query: {}, body: { args: request.args } });
+}
+
+function handleCliConnection(socket: net.Socket): void {
+  let received = '';
+  const reply = (response: ControlApiResponse) => socket.end(`${JSON.stringify(response)}\n`);
+
+  socket.setEncoding('utf8');
+  socket.on('error', (error) => console.error('CLI connection failed:', error));
+  socket.on('data', (chunk: string) => {
+    received += chunk;
+    const newline = received.indexOf('\n');
+    if (newline === -1 && received.length <= CLI_MAX_REQUEST_BYTES) return;
+
+    socket.removeAllListeners('data');
+    if (newline === -1) {
+      reply({ status: 400, body: { ok: false, error: 'Request too large' } });
+      return;
+    }
+    answerCliRequest(received.slice(0, newline))
+      .then(reply)
+      .catch((error) => {
+        console.error('CLI request failed:', error);
+        reply({ status: 500, body: { ok: false, error: 'Internal error' } });
+      });
+  });
+}
+
+function startCliServer(): void {
+  const socketPath = getCliSocketPath();
+  // The instance lock makes a socket file left behind a stale one
+  if (process.platform !== 'win32') {
+    fs.rmSync(socketPath, { force: true });
+  }
+
+  const server = net.createServer(handleCliConnection);
+  server.once('error', (error) => {
+    console.error('CLI socket failed to start:', error);
+  });
+  server.listen(socketPath, () => {
+    cliServer = server;
+    const contents = { socket: socketPath, token: cliToken, pid: process.pid };
+    try {
+      fs.writeFileSync(getCliFilePath(), JSON.stringify(contents, null, 2), { mode: 0o600 });
+    } catch (error) {
+      console.error('Failed to write the CLI file:', error);
+    }
+  });
+}
+
+function stopCliServer(): void {
+  if (!cliServer) return;
+  cliServer.close();
+  cliServer = null;
+  try {
+    fs.rmSync(getCliFilePath(), { force: true });
+  } catch (error) {
+    console.error('Failed to remove the CLI file:', error);
+  }
+}
+
+// ============================================================
+// Tray
+// ============================================================
+// The menu-bar item mirrors the timer: the title shows the time (mm:ss), the
+// icon the mode and progress, and the menu offers the timer controls plus the
+// current and recent tasks the main window reports on 'tray-update-tasks'.
+
+interface TrayTask {
+  id: string;
+  title: string;
+}
+
+interface TrayTasks {
+  currentTask: TrayTask | null;
+  recentTasks: TrayTask[];
+}
+
+const TRAY_MODE_LABELS: Record<TimerMode, string> = {
+  pomodoro: 'Focus',
+  shortBreak: 'Short Break',
+  longBreak: 'Long Break',
+  flow: 'Flow',
+};
+
+const TRAY_PHASE_LABELS: Record<SessionPhase, string> = {
+  warmup: 'Warm-up',
+  breathing: 'Breathe',
+  cooldown: 'Cool-down',
+};
+
+// Progress icons are drawn in this many steps (and cached per step)
+const TRAY_PROGRESS_STEPS = 32;
+const TRAY_ICON_PIXELS = 32; // drawn at 2x for a 16pt menu-bar icon
+
+let trayTasks: TrayTasks = { currentTask: null, recentTasks: [] };
+let trayIconKey = '';
+let trayMenuKey = '';
+const trayIconCache = new Map<string, Electron.NativeImage>();
+
+// Seconds run and left in the current block, counting a running clock
+function getBlockProgress(): number {
+  const elapsed = timerState.isRunning ? getRunElapsedSeconds(timerState) : timerState.elapsedSeconds;
+  const total = elapsed + timerState.secondsLeft;
+  return total > 0 ? Math.min(1, elapsed / total) : 0;
+}
+
+// Started, paused mid-way, or in a session phase
+function isTimerActive(): boolean {
+  return timerState.isRunning || !!timerState.phase || timerState.elapsedSeconds > 0;
+}
+
+function formatTrayTime(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes.toString().padStart(2, '0')}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+function getTrayTime(): string {
+  if (timerState.phase) return formatTrayTime(timerState.phaseSecondsLeft);
+  if (timerState.mode === 'flow') {
+    return formatTrayTime(timerState.isRunning ? getRunElapsedSeconds(timerState) : timerState.elapsedSeconds);
+  }
+  return formatTrayTime(timerState.secondsLeft);
+}
+
+// Draw a progress glyph as a template bitmap: a filled pie for focus, an arc
+// on a faint ring for breaks. Each pixel is supersampled for smooth edges.
+function drawProgressIcon(style: 'pie' | 'ring', progress: number): Electron.NativeImage {
+  const size = TRAY_ICON_PIXELS;
+  const center = size / 2;
+  const samples = 4;
+  const sweep = progress * Math.PI * 2;
+  const buffer = Buffer.alloc(size * size * 4);
+
+  const coverage = (x: number, y: number): number => {
+    const dx = x - center;
+    const dy = y - center;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+    // Angle clockwise from 12 o'clock
+    const angle = (Math.atan2(dx, -dy) + Math.PI * 2) % (Math.PI * 2);
+    const inSweep = angle <= sweep;
+
+    if (style === 'pie') {
+      const outline = distance <= 15 && distance >= 13;
+      const fill = distance <= 11 && inSweep;
+      return outline || fill ? 1 : 0;
+    }
+    if (distance <= 15 && distance >= 10) return inSweep ? 1 : 0;
+    return distance <= 13.5 && distance >= 11.5 ? 0.35 : 0;
+  };
+
+  for (let py = 0; py < size; py++) {
+    for (let px = 0; px < size; px++) {
+      let alpha = 0;
+      for (let sy = 0; sy < samples; sy++) {
+        for (let sx = 0; sx < samples; sx++) {
+          alpha += coverage(px + (sx + 0.5) / samples, py + (sy + 0.5) / samples);
+        }
+      }
+      // Black with alpha; macOS recolours template images for the menu bar
+      buffer[(py * size + px) * 4 + 3] = Math.round((alpha / (samples * samples)) * 255);
+    }
+  }
+
+  const icon = nativeImage.createFromBitmap(buffer, { width: size, height: size, scaleFactor: 2 });
+  icon.setTemplateImage(true);
+  return icon;
+}
+
+// Default icon when idle; hourglass during phases, stopwatch in flow,
+// otherwise a pie (focus) or ring (break) filling up with progress
+function getTrayIconKey(): string {
+  if (timerState.phase) return 'hourglass';
+  if (timerState.mode === 'flow') return 'stopwatch';
+  if (!isTimerActive()) return 'idle';
+
+  const step = Math.round(getBlockProgress() * TRAY_PROGRESS_STEPS);
+  return `${timerState.mode === 'pomodoro' ? 'pie' : 'ring'}-${step}`;
+}
+
+function getTrayIcon(key = getTrayIconKey()): Electron.NativeImage {
+  const cached = trayIconCache.get(key);
+  if (cached) return cached;
+
+  const templateDir = path.join(getIconsDir(), 'app', 'template');
+  const [style, step] = key.split('-');
+  let icon: Electron.NativeImage;
+  if (style === 'pie' || style === 'ring') {
+    icon = drawProgressIcon(style, Number(step) / TRAY_PROGRESS_STEPS);
+  } else if (key === 'hourglass') {
+    icon = loadTemplateIcon(templateDir, 'hourglassTemplate');
+  } else if (key === 'stopwatch') {
+    icon = loadTemplateIcon(templateDir, 'stopwatchTemplate');
+  } else {
+    icon = loadTemplateIcon(path.join(getIconsDir(), 'menu'), 'capyfocus-tasktimerTemplate');
+  }
+
+  trayIconCache.set(key, icon);
+  return icon;
+}
+
+function toggleMainWindow(): void {
+  if (mainWindow) {
+    if (mainWindow.isVisible()) {
+      mainWindow.hide();
+    } else {
+      mainWindow.show();
+    }
+  }
+}
+
+// Pausing also cancels a warm-up or breathing phase
+function canPauseTimer(): boolean {
+  return timerState.isRunning || (!!timerState.phase && timerState.phase !== 'cooldown');
+}
+
+// Shortcuts and the tray go through the engine, which refuses while Mind Lock holds
+function toggleTimer(): void {
+  if (canPauseTimer()) {
+    timerEngine.pause();
+  } else {
+    timerEngine.start();
+  }
+}
+
+function buildTrayMenu(): Electron.Menu {
+  const { mode, phase } = timerState;
+  const canPause = canPauseTimer();
+  const status = phase ? TRAY_PHASE_LABELS[phase] : TRAY_MODE_LABELS[mode];
+  const { currentTask, recentTasks } = trayTasks;
+
+  const template: Electron.MenuItemConstructorOptions[] = [
+    { label: isTimerActive() && !canPause ? `${status} (paused)` : status, enabled: false },
+    {
+      label: canPause ? 'Pause' : isTimerActive() ? 'Resume' : 'Start',
+      enabled: !isPauseLocked(timerState, timerConfig),
+      click: () => toggleTimer(),
+    },
+    {
+      label: mode === 'flow' ? 'Finish Flow' : 'Skip',
+      click: () => timerEngine.skip(),
+    },
+    {
+      label: 'Reset',
+      enabled: isTimerActive(),
+      click: () => timerEngine.reset(),
+    },
+    { type: 'separator' },
+    { label: currentTask ? `Task: ${currentTask.title}` : 'No task selected', enabled: false },
+  ];
+
+  if (recentTasks.length > 0) {
+    template.push({
+      label: 'Recent Tasks',
+      submenu: recentTasks.map((task) => ({
+        label: task.title,
+        type: 'radio' as const,
+        checked: task.id === currentTask?.id,
+        click: () => mainWindow?.webContents.send('tray-select-task', task.id),
+      })),
+    });
+  }
+
+  template.push(
+    { type: 'separator' },
+    { label: 'Show/Hide', click: () => toggleMainWindow() },
+    {
+      label: 'Toggle Mini Widget',
+      accelerator: getShortcutAccelerator('toggleMiniWidget'),
+      click: () => {
+        toggleMiniWidget();
+      },
+    },
+    ...(screen.getAllDisplays().length > 1
+      ? [{
+          label: 'Move to Active Display',
+          accelerator: getShortcutAccelerator('moveToActiveDisplay'),
+          click: () => moveToActiveDisplay(),
+        }]
+      : []),
+    { type: 'separator' },
+    {
+      label: 'Quit',
+      click: () => {
+        isQuitting = true;
+        app.quit();
+      },
+    }
+  );
+
+  return Menu.buildFromTemplate(template);
+}
+
+// Refresh the title every call; the icon and menu only when they would change
+function updateTray(): void {
+  if (!tray || tray.isDestroyed()) return;
+
+  const time = isTimerActive() ? getTrayTime() : '';
+  tray.setTitle(time);
+  tray.setToolTip(time ? `CapyFocus · ${TRAY_MODE_LABELS[timerState.mode]} ${time}` : 'CapyFocus');
+
+  const iconKey = getTrayIconKey();
+  if (iconKey !== trayIconKey) {
+    trayIconKey = iconKey;
+    tray.setImage(getTrayIcon(iconKey));
+  }
+
+  const menuKey = JSON.stringify([
+    timerState.mode,
+    timerState.phase,
+    timerState.isRunning,
+    isTimerActive(),
+    trayTasks,
+    screen.getAllDisplays().length, // "Move to Active Display" needs a second one
+  ]);
+  if (menuKey !== trayMenuKey) {
+    trayMenuKey = menuKey;
+    tray.setContextMenu(buildTrayMenu());
+  }
+}
+
+function createTray(): void {
+  trayIconKey = getTrayIconKey();
+  tray = new Tray(getTrayIcon(trayIconKey));
+  tray.on('click', () => toggleMainWindow());
+  updateTray();
+}
+
+// IPC Handlers
+ipcMain.handle('toggle-collapse', () => {
+  if (!mainWindow) return;
+
+  isCollapsed = !isCollapsed;
+  const bounds = mainWindow.getBounds();
+  const { workArea } = screen.getDisplayMatching(bounds);
+  const width = isCollapsed ? COLLAPSED_WIDTH : EXPANDED_WIDTH;
+  const height = isCollapsed ? COLLAPSED_HEIGHT : EXPANDED_HEIGHT;
+
+  // Keep the bottom edge in place, unless expanding that way would run past
+  // the top of the screen; then grow downwards from the top edge instead
+  const bottomAnchoredY = bounds.y + bounds.height - height;
+  const y = bottomAnchoredY < workArea.y ? bounds.y : bottomAnchoredY;
+
+  if (isCollapsed) {
+    mainWindow.setMinimumSize(320, COLLAPSED_HEIGHT);
+    mainWindow.setMaximumSize(500, COLLAPSED_HEIGHT);
+  } else {
+    mainWindow.setMinimumSize(340, 300);
+    mainWindow.setMaximumSize(600, 700);
+  }
+  mainWindow.setBounds(keepInWorkArea({ x: bounds.x, y, width, height }, workArea), true);
+
+  return isCollapsed;
+});
+
+ipcMain.handle('get-collapsed-state', () => {
+  return isCollapsed;
+});
+
+ipcMain.handle('close-window', () => {
+  if (mainWindow) {
+    mainWindow.hide();
+  }
+});
+
+ipcMain.handle('minimize-window', () => {
+  if (mainWindow) {
+    mainWindow.minimize();
+  }
+});
+
+ipcMain.handle('close-mini-widget', () => {
+  if (miniWindow) {
+    miniWindow.hide();
+  }
+});
+
+ipcMain.handle('toggle-mini-widget', () => {
+  toggleMiniWidget();
+});
+
+// Mini widget layout - chosen from the widget's menu or from Settings, saved per display
+ipcMain.handle('mini-widget-get-layout', () => {
+  return miniWindow ? miniWidgetLayout : getMiniWidgetDisplayState(getMiniWidgetDisplay().id).layout;
+});
+
+ipcMain.handle('mini-widget-set-layout', (_event, layout: MiniWidgetLayout) => setMiniWidgetLayout(layout));
+
+ipcMain.handle('mini-widget-show-menu', () => {
+  showMiniWidgetMenu();
+});
+
+ipcMain.handle('close-quick-capture', () => {
+  quickCaptureWindow?.hide();
+});
+
+ipcMain.handle('set-always-on-top', (_event, enabled: boolean) => {
+  if (mainWindow) {
+    mainWindow.setAlwaysOnTop(enabled);
+  }
+  if (miniWindow) {
+    miniWindow.setAlwaysOnTop(enabled);
+  }
+  return enabled;
+});
+
+// Audio path handler - returns correct path for both dev and packaged builds
+ipcMain.handle('get-audio-path', (_event, fileName: string) => {
+  let audioPath: string;
+
+  if (app.isPackaged) {
+    // In production, audio files are in extraResources/audio
+    // Use file:// protocol for local files in packaged app
+    const filePath = path.join(process.resourcesPath, 'audio', `${fileName}.mp3`);
+    audioPath = `file://${filePath}`;
+  } else {
+    // In development, serve from public/audio via Vite dev server
+    audioPath = `/audio/${fileName}.mp3`;
+  }
+
+  console.log(`Audio path for ${fileName}:`, audioPath, `(isPackaged: ${app.isPackaged})`);
+  return audioPath;
+});
+
+ipcMain.handle('is-packaged', () => {
+  return app.isPackaged;
+});
+
+// Timer handlers - every command answers with the resulting state
+ipcMain.handle('timer-get-state', () => {
+  return timerState;
+});
+
+ipcMain.handle('timer-start', (_event, options?: TimerStartOptions) => {
+  timerEngine.start(options);
+  return timerState;
+});
+
+ipcMain.handle('timer-pause', () => {
+  timerEngine.pause();
+  return timerState;
+});
+
+ipcMain.handle('timer-reset', () => {
+  timerEngine.reset();
+  return timerState;
+});
+
+ipcMain.handle('timer-skip', () => {
+  timerEngine.skip();
+  return timerState;
+});
+
+ipcMain.handle('timer-set-mode', (_event, mode: TimerMode, durationSeconds?: number) => {
+  timerEngine.setMode(mode, durationSeconds);
+  return timerState;
+});
+
+ipcMain.handle('timer-cancel-auto-start', () => {
+  timerEngine.cancelAutoStart();
+  return timerState;
+});
+
+ipcMain.handle('timer-skip-phase', () => {
+  timerEngine.skipPhase();
+  return timerState;
+});
+
+ipcMain.handle('timer-configure', (_event, config: TimerConfig) => {
+  configureTimer(config);
+  return timerState;
+});
+
+ipcMain.handle('timer-discard-time', (_event, seconds: number) => {
+  timerEngine.discardTime(seconds);
+  return timerState;
+});
+
+ipcMain.handle('timer-take-completions', (event) => {
+  if (event.sender !== mainWindow?.webContents) return [];
+  return pendingCompletions.splice(0);
+});
+
+// Deep link handlers - the main window collects links that arrived before it was listening
+ipcMain.handle('deep-link-ready', (event) => {
+  if (event.sender !== mainWindow?.webContents) return [];
+  isDeepLinkReceiverReady = true;
+  return pendingDeepLinks.splice(0);
+});
+
+// Shortcut handlers - Settings reads and edits the global shortcut bindings
+ipcMain.handle('shortcuts-get', () => shortcutStatuses);
+
+ipcMain.handle('shortcuts-set', (_event, action: ShortcutAction, accelerator: string) => {
+  return updateShortcut(action, accelerator);
+});
+
+ipcMain.handle('shortcuts-reset', () => {
+  saveShortcuts(DEFAULT_SHORTCUTS);
+  return registerGlobalShortcuts();
+});
+
+// Released while Settings records a combination, so pressing a bound one
+// doesn't trigger its action
+ipcMain.handle('shortcuts-suspend', (_event, suspended: boolean) => {
+  if (suspended) {
+    globalShortcut.unregisterAll();
+    return shortcutStatuses;
+  }
+  return registerGlobalShortcuts();
+});
+
+// Startup option handlers - Settings reads and changes how the app starts
+ipcMain.handle('startup-options-get', () => getStartupOptionsStatus());
+
+ipcMain.handle('startup-options-set', (_event, changes: Partial<StartupOptions>) => setStartupOptions(changes));
+
+// Control API handlers - the main window turns the server on and answers its requests.
+// It configures the server once it listens for requests, so queued ones go out then.
+ipcMain.handle('control-api-configure', (event, enabled: boolean, port: number) => {
+  if (event.sender === mainWindow?.webContents && !isControlReceiverReady) {
+    isControlReceiverReady = true;
+    queuedControlRequests.splice(0).forEach(sendControlRequest);
+  }
+  return configureControlApi(enabled, port);
+});
+
+ipcMain.handle('control-api-status', () => getControlApiStatus());
+
+ipcMain.handle('control-api-regenerate-token', () => {
+  getControlApiToken(true);
+  if (controlServer) {
+    writeControlApiFile();
+  }
+  return broadcastControlApiStatus();
+});
+
+ipcMain.handle('control-api-respond', (_event, id: number, response: ControlApiResponse) => {
+  pendingControlRequests.get(id)?.(response);
+});
+
+// Tray handlers - the main window reports the tasks the tray menu offers
+ipcMain.handle('tray-update-tasks', (_event, tasks: TrayTasks) => {
+  trayTasks = tasks;
+  updateTray();
+});
+
+// Store sync handlers - relay a window's changes to every other window
+ipcMain.handle('store-sync', (event, message: Omit<StoreSyncMessage, 'origin'>) => {
+  const stamped: StoreSyncMessage = { ...message, origin: event.sender.id };
+  recordStoreSync(stamped);
+
+  for (const window of BrowserWindow.getAllWindows()) {
+    if (!window.isDestroyed() && window.webContents.id !== event.sender.id) {
+      window.webContents.send('store-sync', stamped);
+    }
+  }
+});
+
+ipcMain.handle('store-sync-get-snapshot', (event) => {
+  return {
+    windowId: event.sender.id,
+    messages: getStoreSnapshotMessages(),
+  };
+});
+
+// CLI commands passed to the app itself ("CapyFocus --cli start 25"), run by
+// the main window the same way as the capyfocus CLI's requests
+function findCliArgs(argv: string[]): string[] | undefined {
+  const index = argv.indexOf('--cli');
+  return index === -1 ? undefined : argv.slice(index + 1);
+}
+
+function runCliArgs(args: string[], timeoutMs?: number): void {
+  forwardControlRequest({ method: 'POST', path: '/cli', query: {}, body: { args } }, timeoutMs)
+    .then(({ status, body }) => {
+      if (status >= 400) {
+        console.warn('CLI command failed:', args.join(' '), body);
+      }
+    })
+    .catch(console.error);
+}
 
 // App lifecycle
+// One instance only: a second launch (e.g. by a capyfocus:// link on Windows
+// and Linux, or with --cli arguments) hands its arguments to this one and quits
+const hasInstanceLock = app.requestSingleInstanceLock();
+if (!hasInstanceLock) {
+  app.quit();
+}
+
+app.on('second-instance', (_event, argv) => {
+  const deepLink = findDeepLink(argv);
+  const cliArgs = findCliArgs(argv);
+  if (deepLink) {
+    handleDeepLink(deepLink);
+  } else if (cliArgs) {
+    runCliArgs(cliArgs);
+  } else {
+    showMainWindow();
+  }
+});
+
+// macOS delivers links through open-url, possibly before the app is ready
+app.on('open-url', (event, url) => {
+  event.preventDefault();
+  handleDeepLink(url);
+});
+
 app.whenReady().then(() => {
-  createWindow();
+  if (!hasInstanceLock) return;
+
+  registerDeepLinkProtocol();
+  const startupOptions = loadStartupOptions();
+  createWindow(!startupOptions.startMinimized);
   createTray();
   registerGlobalShortcuts();
+  if (startupOptions.openMiniWidgetOnLaunch) {
+    showMiniWidget();
+  }
+
+  screen.on('display-added', handleDisplaysChanged);
+  screen.on('display-removed', handleDisplaysChanged);
+  screen.on('display-metrics-changed', handleDisplaysChanged);
+  startAwayDetection();
+
+  startCliServer();
+
+  // Windows and Linux pass the launching link as an argument
+  const launchDeepLink = findDeepLink(process.argv);
+  const launchCliArgs = findCliArgs(process.argv);
+  if (launchDeepLink) {
+    handleDeepLink(launchDeepLink);
+  } else if (launchCliArgs) {
+    runCliArgs(launchCliArgs, CONTROL_API_STARTUP_TIMEOUT_MS);
+  }
 
   app.on('activate', () => {
     if (BrowserWindow.getAllWindows().length === 0) {
@@ -421,6 +2068,10 @@ app.on('window-all-closed', () => {
 
 app.on('will-quit', () => {
   unregisterGlobalShortcuts();
+  stopControlServer();
+  stopCliServer();
+  timerEngine.dispose();
+  stopAwayDetection();
 });
 
 // Prevent the app from quitting when all windows are closed
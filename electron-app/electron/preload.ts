@@ -1,4 +1,13 @@
-import { contextBridge, ipcRenderer } from 'electron';
+import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron';
+
+// Subscribe to a main -> renderer channel, returning an unsubscribe function
+function subscribe<T extends unknown[]>(channel: string, callback: (...payload: T) => void): () => void {
+  const listener = (_event: IpcRendererEvent, ...payload: T) => callback(...payload);
+  ipcRenderer.on(channel, listener);
+  return () => {
+    ipcRenderer.removeListener(channel, listener);
+  };
+}
 
 contextBridge.exposeInMainWorld('electronAPI', {
   toggleCollapse: () => ipcRenderer.invoke('toggle-collapse'),
@@ -7,8 +16,58 @@ contextBridge.exposeInMainWorld('electronAPI', {
   minimizeWindow: () => ipcRenderer.invoke('minimize-window'),
   closeMiniWidget: () => ipcRenderer.invoke('close-mini-widget'),
   toggleMiniWidget: () => ipcRenderer.invoke('toggle-mini-widget'),
+  miniWidgetGetLayout: () => ipcRenderer.invoke('mini-widget-get-layout'),
+  miniWidgetSetLayout: (layout: string) => ipcRenderer.invoke('mini-widget-set-layout', layout),
+  miniWidgetShowMenu: () => ipcRenderer.invoke('mini-widget-show-menu'),
+  onMiniWidgetLayout: (callback: (layout: string) => void) => subscribe('mini-widget-layout', callback),
+  closeQuickCapture: () => ipcRenderer.invoke('close-quick-capture'),
   setAlwaysOnTop: (enabled: boolean) => ipcRenderer.invoke('set-always-on-top', enabled),
   // Audio helpers for dev/prod path resolution
   getAudioPath: (fileName: string) => ipcRenderer.invoke('get-audio-path', fileName),
   isPackaged: () => ipcRenderer.invoke('is-packaged'),
+  // Timer service (countdown runs in the main process)
+  timerGetState: () => ipcRenderer.invoke('timer-get-state'),
+  timerStart: (options?: unknown) => ipcRenderer.invoke('timer-start', options),
+  timerPause: () => ipcRenderer.invoke('timer-pause'),
+  timerReset: () => ipcRenderer.invoke('timer-reset'),
+  timerSkip: () => ipcRenderer.invoke('timer-skip'),
+  timerSetMode: (mode: string, durationSeconds?: number) =>
+    ipcRenderer.invoke('timer-set-mode', mode, durationSeconds),
+  timerCancelAutoStart: () => ipcRenderer.invoke('timer-cancel-auto-start'),
+  timerSkipPhase: () => ipcRenderer.invoke('timer-skip-phase'),
+  timerConfigure: (config: unknown) => ipcRenderer.invoke('timer-configure', config),
+  timerDiscardTime: (seconds: number) => ipcRenderer.invoke('timer-discard-time', seconds),
+  timerTakeCompletions: () => ipcRenderer.invoke('timer-take-completions'),
+  onTimerState: (callback: (state: unknown) => void) => subscribe('timer-state', callback),
+  onTimerComplete: (callback: (mode: unknown, elapsedSeconds: unknown) => void) =>
+    subscribe('timer-complete', callback),
+  onTimerAway: (callback: (period: unknown) => void) => subscribe('timer-away', callback),
+  // Cross-window store sync
+  syncStore: (message: unknown) => ipcRenderer.invoke('store-sync', message),
+  getStoreSnapshot: () => ipcRenderer.invoke('store-sync-get-snapshot'),
+  onStoreSync: (callback: (message: unknown) => void) => subscribe('store-sync', callback),
+  // Deep links (capyfocus://)
+  deepLinkReady: () => ipcRenderer.invoke('deep-link-ready'),
+  onDeepLink: (callback: (url: unknown) => void) => subscribe('deep-link', callback),
+  // Global shortcuts
+  shortcutsGet: () => ipcRenderer.invoke('shortcuts-get'),
+  shortcutsSet: (action: string, accelerator: string) =>
+    ipcRenderer.invoke('shortcuts-set', action, accelerator),
+  shortcutsReset: () => ipcRenderer.invoke('shortcuts-reset'),
+  shortcutsSuspend: (suspended: boolean) => ipcRenderer.invoke('shortcuts-suspend', suspended),
+  onShortcutAction: (callback: (action: unknown) => void) => subscribe('shortcut-action', callback),
+  // Local control API
+  controlApiConfigure: (enabled: boolean, port: number) =>
+    ipcRenderer.invoke('control-api-configure', enabled, port),
+  controlApiGetStatus: () => ipcRenderer.invoke('control-api-status'),
+  controlApiRegenerateToken: () => ipcRenderer.invoke('control-api-regenerate-token'),
+  controlApiRespond: (id: number, response: unknown) => ipcRenderer.invoke('control-api-respond', id, response),
+  onControlApiRequest: (callback: (request: unknown) => void) => subscribe('control-api-request', callback),
+  onControlApiStatus: (callback: (status: unknown) => void) => subscribe('control-api-status', callback),
+  // Startup options
+  startupOptionsGet: () => ipcRenderer.invoke('startup-options-get'),
+  startupOptionsSet: (changes: unknown) => ipcRenderer.invoke('startup-options-set', changes),
+  // Tray menu
+  updateTrayTasks: (tasks: unknown) => ipcRenderer.invoke('tray-update-tasks', tasks),
+  onTraySelectTask: (callback: (taskId: unknown) => void) => subscribe('tray-select-task', callback),
 });
@@ -0,0 +1,580 @@
+// Timer engine
+// The one implementation of the timer's state machine: the countdown, session
+// phases, flow blocks, discarded time and the cycle runner. It keeps no state
+// of its own: a host hands it the current state and settings and is told about
+// every change. The main process hosts the real timer; outside Electron
+// (browser dev, tests) the renderer's timer service hosts one over its store.
+// The timer types live here too; the renderer re-exports them from src/types.
+// Nothing here may depend on Electron or the DOM.
+
+export type TimerMode = 'pomodoro' | 'shortBreak' | 'longBreak' | 'flow';
+
+// Optional steps around a focus block: warm-up and breathing before, cool-down after
+export type SessionPhase = 'warmup' | 'breathing' | 'cooldown';
+
+// What happens to time spent away (idle, screen locked, asleep) during a focus
+// block: pause the timer, count it as a pause, or ask on return whether to keep it
+export type AwayBehavior = 'off' | 'pause' | 'flag' | 'ask';
+
+// An away period the main process noticed, reported once the user is back
+export interface AwayPeriod {
+  mode: TimerMode; // block that was running when the user left
+  seconds: number; // time away that the block ran through (or was paused for)
+  behavior: AwayBehavior;
+}
+
+// A finished block, as the main process holds it until it has been recorded
+export interface TimerCompletion {
+  mode: TimerMode;
+  elapsedSeconds: number; // time it actually ran, pauses excluded
+}
+
+export interface TimerState {
+  mode: TimerMode;
+  secondsLeft: number;
+  isRunning: boolean;
+  completedPomodoros: number;
+  targetEndTime: number | null;
+  autoStartAt: number | null; // when a pending auto-advance will start the block
+  phase: SessionPhase | null; // session phase running instead of the countdown
+  phaseSecondsLeft: number;
+  phaseEndTime: number | null;
+  elapsedSeconds: number; // time actually run in this block (flow counts up with it)
+  runStartedAt: number | null; // while running: now minus elapsedSeconds
+  suggestedBreakSeconds: number | null; // break length offered after a flow block
+}
+
+export interface TimerConfig {
+  durations: Record<TimerMode, number>; // in seconds
+  longBreakInterval: number; // long break after every N pomodoros
+  autoStartBreaks: boolean;
+  autoStartPomodoros: boolean;
+  phaseDurations: Record<SessionPhase, number>; // in seconds, 0 = phase disabled
+  flowSoftCapSeconds: number; // nudge after this long in flow, 0 = no cap
+  awayBehavior: AwayBehavior;
+  awayThresholdSeconds: number; // idle this long during focus counts as away
+  mindLock: boolean; // a running pomodoro can't be paused
+}
+
+export interface TimerStartOptions {
+  mode?: TimerMode;
+  durationSeconds?: number;
+  elapsedSeconds?: number; // picks up a block that already ran this long (no warm-up)
+}
+
+export interface TimerNotification {
+  title: string;
+  body: string;
+  silent: boolean;
+}
+
+export interface TimerEngineHost {
+  getState(): TimerState;
+  setState(state: TimerState): void;
+  getConfig(): TimerConfig;
+  // A block reached 00:00 or a flow block was finished (once per completion);
+  // elapsedSeconds is the time it actually ran, pauses excluded
+  onComplete(mode: TimerMode, elapsedSeconds: number): void;
+  notify(notification: TimerNotification): void;
+}
+
+export interface TimerEngine {
+  start(options?: TimerStartOptions): void;
+  /** Pause the block, or cancel a warm-up; refused while Mind Lock holds */
+  pause(): void;
+  reset(): void;
+  setMode(mode: TimerMode, durationSeconds?: number): void;
+  skip(): void;
+  /** End the current session phase early and move on to what follows it */
+  skipPhase(): void;
+  /** Cancel a pending auto-advance; the next block stays selected but idle */
+  cancelAutoStart(): void;
+  /**
+   * Take time back out of the current block as if it hadn't run: the countdown
+   * gets it back and flow stops counting it. Never more than the block has run.
+   */
+  discardTime(seconds: number): void;
+  /** The host's config changed from `previous` */
+  reconfigure(previous: TimerConfig): void;
+  /** Stop the clock and any pending auto-start without changing the state */
+  dispose(): void;
+}
+
+// Grace countdown before an auto-advanced block starts
+export const AUTO_START_GRACE_SECONDS = 5;
+
+const TICK_MS = 250;
+const PRE_FOCUS_PHASES: SessionPhase[] = ['warmup', 'breathing'];
+const NO_PHASE = { phase: null, phaseSecondsLeft: 0, phaseEndTime: null };
+
+// Flow blocks earn one minute of break per five focused, within these bounds
+const FLOW_BREAK_RATIO = 5;
+const FLOW_BREAK_MIN_SECONDS = 5 * 60;
+const FLOW_BREAK_MAX_SECONDS = 30 * 60;
+
+const COMPLETE_NOTIFICATIONS: Record<TimerMode, { title: string; body: string }> = {
+  pomodoro: { title: 'Focus session complete!', body: 'Great work! Time for a break.' },
+  shortBreak: { title: 'Short break over', body: 'Ready to focus again?' },
+  longBreak: { title: 'Long break over', body: 'Refreshed? Let\'s get back to work!' },
+  flow: { title: 'Flow session complete!', body: 'Nice run! Take a break sized to it.' },
+};
+
+export const DEFAULT_TIMER_CONFIG: TimerConfig = {
+  durations: {
+    pomodoro: 25 * 60,
+    shortBreak: 5 * 60,
+    longBreak: 15 * 60,
+    flow: 0, // counts up
+  },
+  longBreakInterval: 4,
+  autoStartBreaks: false,
+  autoStartPomodoros: false,
+  phaseDurations: {
+    warmup: 0,
+    breathing: 0,
+    cooldown: 0,
+  },
+  flowSoftCapSeconds: 0,
+  awayBehavior: 'off',
+  awayThresholdSeconds: 5 * 60,
+  mindLock: false,
+};
+
+// What a block that hasn't run has besides its mode and length; also fills in
+// fields missing from state saved by older versions
+export const IDLE_TIMER_FIELDS = {
+  autoStartAt: null,
+  ...NO_PHASE,
+  elapsedSeconds: 0,
+  runStartedAt: null,
+  suggestedBreakSeconds: null,
+};
+
+export function createTimerState(config: TimerConfig = DEFAULT_TIMER_CONFIG): TimerState {
+  return {
+    mode: 'pomodoro',
+    secondsLeft: config.durations.pomodoro,
+    isRunning: false,
+    completedPomodoros: 0,
+    targetEndTime: null,
+    ...IDLE_TIMER_FIELDS,
+  };
+}
+
+/**
+ * Which block follows the current one. A finished pomodoro is already counted
+ * in completedPomodoros; a skipped one still takes its place in the cycle.
+ */
+export function getNextTimerMode(
+  timer: Pick<TimerState, 'mode' | 'secondsLeft' | 'completedPomodoros'>,
+  longBreakInterval: number
+): TimerMode {
+  if (timer.mode !== 'pomodoro') return 'pomodoro';
+
+  const cyclePosition = timer.secondsLeft === 0
+    ? timer.completedPomodoros
+    : timer.completedPomodoros + 1;
+  return cyclePosition > 0 && cyclePosition % longBreakInterval === 0
+    ? 'longBreak'
+    : 'shortBreak';
+}
+
+/** Break length to suggest after a flow block, proportional to the time focused */
+export function getFlowBreakSeconds(focusedSeconds: number): number {
+  const seconds = Math.round(focusedSeconds / 60 / FLOW_BREAK_RATIO) * 60;
+  return Math.min(FLOW_BREAK_MAX_SECONDS, Math.max(FLOW_BREAK_MIN_SECONDS, seconds));
+}
+
+/**
+ * Whether Mind Lock holds the timer: no pausing a running pomodoro, whoever
+ * asks (the app, the tray, a shortcut or away detection).
+ */
+export function isPauseLocked(
+  timer: Pick<TimerState, 'mode' | 'isRunning'>,
+  config: Pick<TimerConfig, 'mindLock'>
+): boolean {
+  return config.mindLock && timer.isRunning && timer.mode === 'pomodoro';
+}
+
+/** Seconds the current block has run, counting a running clock */
+export function getRunElapsedSeconds(timer: Pick<TimerState, 'runStartedAt' | 'elapsedSeconds'>): number {
+  return timer.runStartedAt
+    ? Math.max(0, Math.floor((Date.now() - timer.runStartedAt) / 1000))
+    : timer.elapsedSeconds;
+}
+
+export function createTimerEngine(host: TimerEngineHost): TimerEngine {
+  let interval: ReturnType<typeof setInterval> | null = null;
+  let autoStartTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  const getState = () => host.getState();
+  const setState = (partial: Partial<TimerState>) => host.setState({ ...host.getState(), ...partial });
+  const getDurations = () => host.getConfig().durations;
+
+  function startTicking(): void {
+    stopTicking();
+    interval = setInterval(tick, TICK_MS);
+  }
+
+  function stopTicking(): void {
+    if (interval) {
+      clearInterval(interval);
+      interval = null;
+    }
+  }
+
+  function tick(): void {
+    const timer = getState();
+    if (timer.phase) {
+      tickPhase();
+      return;
+    }
+    if (timer.mode === 'flow') {
+      tickFlow();
+      return;
+    }
+    if (!timer.isRunning || !timer.targetEndTime) {
+      stopTicking();
+      return;
+    }
+
+    const secondsLeft = Math.ceil(Math.max(0, (timer.targetEndTime - Date.now()) / 1000));
+    if (secondsLeft <= 0) {
+      complete();
+    } else if (secondsLeft !== timer.secondsLeft) {
+      // Only update when the displayed second changes
+      setState({ secondsLeft });
+    }
+  }
+
+  function tickFlow(): void {
+    const timer = getState();
+    if (!timer.isRunning) {
+      stopTicking();
+      return;
+    }
+
+    const elapsedSeconds = getRunElapsedSeconds(timer);
+    if (elapsedSeconds === timer.elapsedSeconds) return;
+
+    // Soft cap: nudge once, but keep counting
+    const softCap = host.getConfig().flowSoftCapSeconds;
+    if (softCap > 0 && timer.elapsedSeconds < softCap && elapsedSeconds >= softCap) {
+      host.notify({
+        title: 'Still in flow',
+        body: `You've been focusing for ${Math.round(softCap / 60)} minutes. Wrap up when you're ready.`,
+        silent: false,
+      });
+    }
+
+    setState({ elapsedSeconds });
+  }
+
+  function tickPhase(): void {
+    const { phaseEndTime, phaseSecondsLeft } = getState();
+    if (!phaseEndTime) {
+      stopTicking();
+      return;
+    }
+
+    const secondsLeft = Math.ceil(Math.max(0, (phaseEndTime - Date.now()) / 1000));
+    if (secondsLeft <= 0) {
+      finishPhase();
+    } else if (secondsLeft !== phaseSecondsLeft) {
+      setState({ phaseSecondsLeft: secondsLeft });
+    }
+  }
+
+  // Run the first enabled phase out of `phases`; false if they are all disabled
+  function enterPhase(phases: SessionPhase[]): boolean {
+    const durations = host.getConfig().phaseDurations;
+    const phase = phases.find((candidate) => durations[candidate] > 0);
+    if (!phase) return false;
+
+    setState({
+      phase,
+      phaseSecondsLeft: durations[phase],
+      phaseEndTime: Date.now() + durations[phase] * 1000,
+    });
+    startTicking();
+    return true;
+  }
+
+  // Leave the current phase: warm-up leads to breathing, then the focus
+  // countdown; cool-down hands over to the cycle runner
+  function finishPhase(): void {
+    const { phase } = getState();
+    if (!phase) return;
+
+    stopTicking();
+    setState(NO_PHASE);
+
+    if (phase === 'cooldown') {
+      advanceCycle();
+      return;
+    }
+
+    const remaining = PRE_FOCUS_PHASES.slice(PRE_FOCUS_PHASES.indexOf(phase) + 1);
+    if (!enterPhase(remaining)) {
+      beginCountdown();
+    }
+  }
+
+  function beginCountdown(): void {
+    const { secondsLeft, elapsedSeconds } = getState();
+    setState({
+      isRunning: true,
+      targetEndTime: Date.now() + secondsLeft * 1000,
+      runStartedAt: Date.now() - elapsedSeconds * 1000,
+    });
+    startTicking();
+  }
+
+  function complete(): void {
+    stopTicking();
+
+    const timer = getState();
+    const { mode } = timer;
+    const elapsedSeconds = getRunElapsedSeconds(timer);
+    setState({
+      secondsLeft: 0,
+      isRunning: false,
+      targetEndTime: null,
+      elapsedSeconds,
+      runStartedAt: null,
+      completedPomodoros: mode === 'pomodoro' ? timer.completedPomodoros + 1 : timer.completedPomodoros,
+    });
+    host.onComplete(mode, elapsedSeconds);
+    // Silent: the renderer plays the chosen end chime
+    host.notify({ ...COMPLETE_NOTIFICATIONS[mode], silent: true });
+
+    if (mode === 'pomodoro' && enterPhase(['cooldown'])) return;
+    advanceCycle();
+  }
+
+  // Ending a flow block counts it as done and offers a break sized to it
+  function finishFlow(): void {
+    stopTicking();
+    const elapsedSeconds = getRunElapsedSeconds(getState());
+    setState({ isRunning: false, elapsedSeconds, runStartedAt: null });
+    host.onComplete('flow', elapsedSeconds);
+    host.notify({ ...COMPLETE_NOTIFICATIONS.flow, silent: true });
+
+    const breakSeconds = getFlowBreakSeconds(elapsedSeconds);
+    advanceCycle(breakSeconds >= getDurations().longBreak ? 'longBreak' : 'shortBreak', breakSeconds);
+    setState({ suggestedBreakSeconds: breakSeconds });
+  }
+
+  // Cycle runner: move to the next block and, if enabled for it, start it after
+  // a grace countdown the user can cancel
+  function advanceCycle(
+    nextMode = getNextTimerMode(getState(), host.getConfig().longBreakInterval),
+    durationSeconds?: number
+  ): void {
+    setMode(nextMode, durationSeconds);
+
+    const config = host.getConfig();
+    const shouldAutoStart = nextMode === 'pomodoro' ? config.autoStartPomodoros : config.autoStartBreaks;
+    if (!shouldAutoStart) return;
+
+    setState({ autoStartAt: Date.now() + AUTO_START_GRACE_SECONDS * 1000 });
+    autoStartTimeout = setTimeout(() => {
+      autoStartTimeout = null;
+      start();
+    }, AUTO_START_GRACE_SECONDS * 1000);
+  }
+
+  function cancelAutoStart(): void {
+    if (autoStartTimeout) {
+      clearTimeout(autoStartTimeout);
+      autoStartTimeout = null;
+    }
+    if (getState().autoStartAt) {
+      setState({ autoStartAt: null });
+    }
+  }
+
+  function start(options: TimerStartOptions = {}): void {
+    cancelAutoStart();
+    if (getState().isRunning) return;
+
+    // Starting during a warm-up or breathing phase skips straight to focus
+    const { phase } = getState();
+    if (phase && phase !== 'cooldown') {
+      stopTicking();
+      setState(NO_PHASE);
+      beginCountdown();
+      return;
+    }
+    // Starting during the cool-down ends it and starts the next block
+    if (phase === 'cooldown') {
+      finishPhase();
+      cancelAutoStart();
+    }
+
+    const timer = getState();
+    const durations = getDurations();
+    // Resuming a paused (or restored) block doesn't repeat the warm-up
+    const isRestoring = options.elapsedSeconds !== undefined;
+    const isResuming = isRestoring || (!options.mode
+      && !options.durationSeconds
+      && timer.secondsLeft > 0
+      && timer.secondsLeft < durations[timer.mode]);
+
+    let { mode, secondsLeft } = timer;
+    let elapsedSeconds = isResuming ? timer.elapsedSeconds : 0;
+    if (options.mode && options.mode !== mode) {
+      mode = options.mode;
+      secondsLeft = durations[mode];
+      elapsedSeconds = 0;
+    }
+    if (isRestoring) {
+      elapsedSeconds = options.elapsedSeconds ?? 0;
+    }
+
+    // Flow counts up from wherever it was paused
+    if (mode === 'flow') {
+      if (!isRestoring) {
+        elapsedSeconds = mode === timer.mode ? timer.elapsedSeconds : 0;
+      }
+      setState({
+        mode,
+        secondsLeft,
+        elapsedSeconds,
+        isRunning: true,
+        runStartedAt: Date.now() - elapsedSeconds * 1000,
+      });
+      startTicking();
+      return;
+    }
+
+    if (options.durationSeconds) {
+      secondsLeft = options.durationSeconds;
+    }
+    // Starting from 00:00 restarts the current block
+    if (secondsLeft <= 0) {
+      secondsLeft = durations[mode];
+    }
+
+    setState({ mode, secondsLeft, elapsedSeconds });
+
+    if (mode === 'pomodoro' && !isResuming && enterPhase(PRE_FOCUS_PHASES)) return;
+    beginCountdown();
+  }
+
+  function pause(): void {
+    if (isPauseLocked(getState(), host.getConfig())) return;
+    cancelAutoStart();
+
+    // Pausing before focus has begun cancels the warm-up
+    const { phase } = getState();
+    if (phase && phase !== 'cooldown') {
+      stopTicking();
+      setState(NO_PHASE);
+      return;
+    }
+
+    const timer = getState();
+    if (!timer.isRunning) return;
+    stopTicking();
+
+    const elapsedSeconds = getRunElapsedSeconds(timer);
+    if (timer.mode === 'flow') {
+      setState({ isRunning: false, elapsedSeconds, runStartedAt: null });
+      return;
+    }
+
+    const remaining = timer.targetEndTime
+      ? Math.max(0, (timer.targetEndTime - Date.now()) / 1000)
+      : timer.secondsLeft;
+
+    setState({
+      secondsLeft: Math.ceil(remaining),
+      isRunning: false,
+      targetEndTime: null,
+      elapsedSeconds,
+      runStartedAt: null,
+    });
+  }
+
+  function reset(): void {
+    cancelAutoStart();
+    stopTicking();
+    setState({
+      secondsLeft: getDurations()[getState().mode],
+      isRunning: false,
+      targetEndTime: null,
+      ...IDLE_TIMER_FIELDS,
+    });
+  }
+
+  function setMode(mode: TimerMode, durationSeconds?: number): void {
+    cancelAutoStart();
+    stopTicking();
+    setState({
+      mode,
+      secondsLeft: durationSeconds ?? getDurations()[mode],
+      isRunning: false,
+      targetEndTime: null,
+      ...IDLE_TIMER_FIELDS,
+    });
+  }
+
+  function skip(): void {
+    const timer = getState();
+    if (timer.mode === 'flow' && getRunElapsedSeconds(timer) > 0) {
+      finishFlow();
+      return;
+    }
+    setMode(getNextTimerMode(timer, host.getConfig().longBreakInterval));
+  }
+
+  function discardTime(seconds: number): void {
+    const timer = getState();
+    const runSeconds = getRunElapsedSeconds(timer);
+    const removed = Math.min(Math.max(0, Math.round(seconds)), runSeconds);
+    if (removed <= 0) return;
+
+    const elapsedSeconds = runSeconds - removed;
+    const secondsLeft = timer.mode === 'flow' ? timer.secondsLeft : timer.secondsLeft + removed;
+    if (!timer.isRunning) {
+      setState({ elapsedSeconds, secondsLeft });
+      return;
+    }
+    setState({
+      elapsedSeconds,
+      secondsLeft,
+      runStartedAt: Date.now() - elapsedSeconds * 1000,
+      targetEndTime: timer.targetEndTime ? timer.targetEndTime + removed * 1000 : null,
+    });
+  }
+
+  // An idle timer that still shows the full block picks up the new length
+  function reconfigure(previous: TimerConfig): void {
+    const timer = getState();
+    if (!timer.isRunning && timer.secondsLeft === previous.durations[timer.mode]) {
+      setState({ secondsLeft: getDurations()[timer.mode] });
+    }
+  }
+
+  function dispose(): void {
+    stopTicking();
+    if (autoStartTimeout) {
+      clearTimeout(autoStartTimeout);
+      autoStartTimeout = null;
+    }
+  }
+
+  return {
+    start,
+    pause,
+    reset,
+    setMode,
+    skip,
+    skipPhase: finishPhase,
+    cancelAutoStart,
+    discardTime,
+    reconfigure,
+    dispose,
+  };
+}
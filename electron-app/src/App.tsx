@@ -1,8 +1,16 @@
 import { useEffect, useState } from 'react';
 import { useAppStore } from './stores/useAppStore';
-import { useSettingsStore } from './stores/useSettingsStore';
+import {
+  useSettingsStore,
+  getTimerDurations,
+  getLongBreakInterval,
+  getPhaseDurations,
+  getAwayThresholdSeconds,
+} from './stores/useSettingsStore';
 import { Sidebar } from './components/Sidebar/Sidebar';
 import { TimerView } from './components/Timer/TimerView';
+import { InterruptedTimerPrompt } from './components/Timer/InterruptedTimerPrompt';
+import { AwayReturnPrompt } from './components/Timer/AwayReturnPrompt';
 import { TasksView } from './components/Tasks/TasksView';
 import { NotesView } from './components/Notes/NotesView';
 import { MusicView } from './components/Music/MusicView';
@@ -12,19 +20,153 @@ import { SettingsView } from './components/Settings/SettingsView';
 import { CoachView } from './components/Coach/CoachView';
 import { CollapsedView } from './components/CollapsedView';
 import { MiniWidgetView } from './components/MiniWidget/MiniWidgetView';
+import { QuickCaptureView } from './components/QuickCapture/QuickCaptureView';
 import { audioPlayer } from './services/audioPlayer';
 import { supabase } from './services/supabase';
 import { backgroundSoundPlayer } from './services/backgroundSoundPlayer';
 import { useSessionTracker } from './hooks/useSessionTracker';
+import { timerService } from './services/timerService';
+import { startStoreSync } from './services/storeSync';
+import { startReminderScheduler } from './services/reminderScheduler';
+import { startSessionSounds } from './services/soundEffects';
+import { startTimerRestore } from './services/timerRestore';
+import { startTrayMenuSync } from './services/trayMenuSync';
+import { startShortcutActions } from './services/shortcuts';
+import { startDeepLinks } from './services/deepLinks';
+import { startControlApi } from './services/controlApi';
+import { startAwayDetection } from './services/awayDetection';
+
+// Every window loads this app; the hash route says which view it shows
+type WindowView = 'main' | 'mini' | 'quick-capture';
+
+function getWindowView(hash: string): WindowView {
+  if (hash === '#/mini' || hash === '/mini') return 'mini';
+  if (hash === '#/quick-capture' || hash === '/quick-capture') return 'quick-capture';
+  return 'main';
+}
 
 function App() {
-  const { selectedTab, isCollapsed, setIsCollapsed, isLoggedIn, isPlaying, currentTrackIndex, volume, setAuthView, setSelectedTab, timer } = useAppStore();
-  const { theme, timerSize, alwaysOnTop, backgroundSound, soundVolume, autoStartSound } = useSettingsStore();
+  const { selectedTab, isCollapsed, setIsCollapsed, isLoggedIn, isPlaying, currentTrackIndex, volume, setAuthView, setSelectedTab, timer, interruptedTimer, awayPeriod } = useAppStore();
+  const {
+    theme,
+    timerSize,
+    alwaysOnTop,
+    backgroundSound,
+    soundVolume,
+    autoStartSound,
+    focusDuration,
+    customFocusDuration,
+    shortBreakDuration,
+    longBreakDuration,
+    longBreakInterval,
+    flowSoftCap,
+    autoStartBreaks,
+    autoStartPomodoros,
+    warmupEnabled,
+    warmupDuration,
+    breathingEnabled,
+    cooldownEnabled,
+    awayBehavior,
+    awayThreshold,
+    mindLockEnabled,
+  } = useSettingsStore();
   const [mounted, setMounted] = useState(false);
-  const [isMiniWidget, setIsMiniWidget] = useState(false);
+  const [windowView, setWindowView] = useState(() => getWindowView(window.location.hash));
+  const isMainWindow = windowView === 'main';
+
+  // Track timer sessions and generate AI insights on completion (main window only,
+  // otherwise every open window would log the same session)
+  useSessionTracker(isMainWindow);
+
+  // Mirror the main-process timer into this window's store
+  useEffect(() => {
+    return timerService.connect();
+  }, []);
+
+  // Share task, music and settings changes with the other windows
+  useEffect(() => {
+    return startStoreSync();
+  }, []);
 
-  // Track timer sessions and generate AI insights on completion
-  useSessionTracker();
+  // Gentle focus reminders (main window only, so each fires once)
+  useEffect(() => {
+    if (!isMainWindow) return;
+    return startReminderScheduler();
+  }, [isMainWindow]);
+
+  // Act on time away from the computer during focus, as reported by the main process
+  useEffect(() => {
+    if (!isMainWindow) return;
+    return startAwayDetection();
+  }, [isMainWindow]);
+
+  // Save the running block and offer to restore one interrupted by the last quit
+  useEffect(() => {
+    if (!isMainWindow) return;
+    return startTimerRestore();
+  }, [isMainWindow]);
+
+  // Current and recent tasks in the tray menu
+  useEffect(() => {
+    if (!isMainWindow) return;
+    return startTrayMenuSync();
+  }, [isMainWindow]);
+
+  // capyfocus:// links from scripts, launchers and the password reset email
+  useEffect(() => {
+    if (!isMainWindow) return;
+    return startDeepLinks();
+  }, [isMainWindow]);
+
+  // Local REST control server for scripts and editor integrations (opt-in)
+  useEffect(() => {
+    if (!isMainWindow) return;
+    return startControlApi();
+  }, [isMainWindow]);
+
+  // Global shortcut actions that run in the main window (music playback)
+  useEffect(() => {
+    if (!isMainWindow) return;
+    return startShortcutActions();
+  }, [isMainWindow]);
+
+  // Session start/end chimes (main window only, where the music plays)
+  useEffect(() => {
+    if (!isMainWindow) return;
+    return startSessionSounds();
+  }, [isMainWindow]);
+
+  // Keep the timer service's durations and cycle options in sync with settings
+  useEffect(() => {
+    const settings = useSettingsStore.getState();
+    timerService.configure({
+      durations: getTimerDurations(settings),
+      longBreakInterval: getLongBreakInterval(settings),
+      autoStartBreaks: settings.autoStartBreaks,
+      autoStartPomodoros: settings.autoStartPomodoros,
+      phaseDurations: getPhaseDurations(settings),
+      flowSoftCapSeconds: Math.max(0, settings.flowSoftCap) * 60,
+      awayBehavior: settings.awayBehavior,
+      awayThresholdSeconds: getAwayThresholdSeconds(settings),
+      mindLock: settings.mindLockEnabled,
+    });
+  }, [
+    focusDuration,
+    customFocusDuration,
+    shortBreakDuration,
+    longBreakDuration,
+    longBreakInterval,
+    flowSoftCap,
+    autoStartBreaks,
+    autoStartPomodoros,
+    warmupEnabled,
+    warmupDuration,
+    breathingEnabled,
+    cooldownEnabled,
+    awayBehavior,
+    awayThreshold,
+    mindLockEnabled,
+  ]);
 
   // Apply theme class to body
   useEffect(() => {
@@ -51,7 +193,7 @@ function App() {
 
   // Handle background sound + auto-start when timer starts
   useEffect(() => {
-    if (isMiniWidget) return;
+    if (!isMainWindow) return;
 
     // When timer starts running in pomodoro mode and autoStartSound is enabled
     if (timer.isRunning && timer.mode === 'pomodoro' && autoStartSound && backgroundSound !== 'none') {
@@ -62,24 +204,24 @@ function App() {
     if (!timer.isRunning && backgroundSoundPlayer.isPlaying()) {
       backgroundSoundPlayer.pause();
     }
-  }, [timer.isRunning, timer.mode, autoStartSound, backgroundSound, soundVolume, isMiniWidget]);
+  }, [timer.isRunning, timer.mode, autoStartSound, backgroundSound, soundVolume, isMainWindow]);
 
   // Sync background sound volume when changed
   useEffect(() => {
-    if (isMiniWidget) return;
+    if (!isMainWindow) return;
     backgroundSoundPlayer.setVolume(soundVolume);
-  }, [soundVolume, isMiniWidget]);
+  }, [soundVolume, isMainWindow]);
 
   // Update background sound track when changed (but only play if currently playing)
   useEffect(() => {
-    if (isMiniWidget) return;
+    if (!isMainWindow) return;
     if (backgroundSoundPlayer.isPlaying()) {
       backgroundSoundPlayer.setSound(backgroundSound, soundVolume);
       if (backgroundSound !== 'none') {
         backgroundSoundPlayer.resume();
       }
     }
-  }, [backgroundSound, soundVolume, isMiniWidget]);
+  }, [backgroundSound, soundVolume, isMainWindow]);
 
   useEffect(() => {
     setMounted(true);
@@ -87,7 +229,7 @@ function App() {
     // Check if we're in mini widget mode or reset-password mode (hash route)
     const checkHashRoute = () => {
       const hash = window.location.hash;
-      setIsMiniWidget(hash === '#/mini' || hash === '/mini');
+      setWindowView(getWindowView(hash));
 
       // Handle reset-password route
       if (hash.includes('/reset-password') || hash.includes('type=recovery')) {
@@ -109,7 +251,7 @@ function App() {
 
     // Sync collapsed state with Electron (only for main window)
     const syncCollapsedState = async () => {
-      if (window.electronAPI && !isMiniWidget) {
+      if (window.electronAPI && isMainWindow) {
         const collapsed = await window.electronAPI.getCollapsedState();
         setIsCollapsed(collapsed);
       }
@@ -120,32 +262,37 @@ function App() {
       window.removeEventListener('hashchange', checkHashRoute);
       subscription.unsubscribe();
     };
-  }, [setIsCollapsed, isMiniWidget, setAuthView, setSelectedTab]);
+  }, [setIsCollapsed, isMainWindow, setAuthView, setSelectedTab]);
 
   // Sync audio player with state - runs at App level so it works when collapsed
   useEffect(() => {
-    // Only sync audio in main window, not mini widget (mini widget has its own sync)
-    if (isMiniWidget) return;
+    // Only play audio in the main window; the mini widget just toggles synced state
+    if (!isMainWindow) return;
 
     if (isPlaying) {
       audioPlayer.play(currentTrackIndex, volume);
     } else {
       audioPlayer.pause();
     }
-  }, [isPlaying, currentTrackIndex, isMiniWidget]);
+  }, [isPlaying, currentTrackIndex, isMainWindow]);
 
   useEffect(() => {
-    if (isMiniWidget) return;
+    if (!isMainWindow) return;
     audioPlayer.setVolume(volume);
-  }, [volume, isMiniWidget]);
+  }, [volume, isMainWindow]);
 
   if (!mounted) return null;
 
   // Mini widget view - completely separate UI
-  if (isMiniWidget) {
+  if (windowView === 'mini') {
     return <MiniWidgetView />;
   }
 
+  // Quick capture window - just the task entry
+  if (windowView === 'quick-capture') {
+    return <QuickCaptureView />;
+  }
+
   const renderContent = () => {
     const content = (() => {
       switch (selectedTab) {
@@ -243,8 +390,13 @@ function App() {
         </div>
 
         {/* Tab content */}
-        <div className="flex-1 overflow-hidden">
+        <div className="flex-1 overflow-hidden relative">
           {renderContent()}
+
+          {/* Asked over whichever tab is open: a block left running when the app
+              last closed, or time away during focus */}
+          {interruptedTimer && <InterruptedTimerPrompt saved={interruptedTimer} />}
+          {awayPeriod && !interruptedTimer && <AwayReturnPrompt period={awayPeriod} />}
         </div>
       </div>
     </div>
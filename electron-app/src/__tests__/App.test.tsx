@@ -394,4 +394,39 @@ describe('App', () => {
       });
     });
   });
+
+  describe('Timer prompts', () => {
+    it('asks about time away over whichever tab is open', async () => {
+      useAppStore.setState({ selectedTab: 'tasks' });
+      render(<App />);
+
+      act(() => {
+        useAppStore.setState({ awayPeriod: { mode: 'pomodoro', seconds: 10 * 60, behavior: 'ask' } });
+      });
+
+      await waitFor(() => {
+        expect(screen.getByText('Welcome back')).toBeInTheDocument();
+      });
+      expect(screen.getByText("Today's Tasks")).toBeInTheDocument();
+    });
+
+    it('offers to pick up an interrupted block from any tab', async () => {
+      useAppStore.setState({
+        selectedTab: 'notes',
+        interruptedTimer: {
+          mode: 'flow',
+          targetEndTime: null,
+          runStartedAt: Date.now() - 20 * 60_000,
+          sessionId: null,
+          taskId: null,
+          savedAt: Date.now() - 5 * 60_000,
+        },
+      });
+      render(<App />);
+
+      await waitFor(() => {
+        expect(screen.getByRole('button', { name: 'Resume' })).toBeInTheDocument();
+      });
+    });
+  });
 });
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { act } from 'react';
+import { MiniWidgetView } from '../components/MiniWidget/MiniWidgetView';
+import { render, screen, resetStore, createTestTask, setupStoreWithTasks, fireEvent, waitFor } from './testUtils';
+import { MUSIC_TRACKS } from '../stores/useAppStore';
+import type { MiniWidgetLayout } from '../types/electron';
+
+describe('MiniWidgetView', () => {
+  const originalAPI = window.electronAPI;
+  let layoutListener: ((layout: MiniWidgetLayout) => void) | null = null;
+  const mockAPI = {
+    closeMiniWidget: vi.fn(),
+    miniWidgetGetLayout: vi.fn(),
+    miniWidgetShowMenu: vi.fn(),
+    onMiniWidgetLayout: vi.fn((callback: (layout: MiniWidgetLayout) => void) => {
+      layoutListener = callback;
+      return () => {
+        layoutListener = null;
+      };
+    }),
+  };
+
+  beforeEach(() => {
+    resetStore();
+    vi.clearAllMocks();
+    mockAPI.miniWidgetGetLayout.mockResolvedValue('timerMusic');
+    // @ts-ignore
+    window.electronAPI = mockAPI;
+
+    const task = createTestTask({ title: 'Write report', estimatedPomodoros: 3, spentPomodoros: 1 });
+    setupStoreWithTasks([task], task.id);
+  });
+
+  afterEach(() => {
+    window.electronAPI = originalAPI;
+  });
+
+  it('shows the timer with the task and music by default', async () => {
+    render(<MiniWidgetView />);
+
+    await waitFor(() => expect(mockAPI.miniWidgetGetLayout).toHaveBeenCalled());
+    expect(screen.getByText('Write report')).toBeInTheDocument();
+    expect(screen.getByText(MUSIC_TRACKS[0].name)).toBeInTheDocument();
+  });
+
+  it('shows task progress in the timer and task layout', async () => {
+    mockAPI.miniWidgetGetLayout.mockResolvedValue('timerTask');
+    render(<MiniWidgetView />);
+
+    expect(await screen.findByText('1/3 pomodoros')).toBeInTheDocument();
+    expect(screen.queryByText(MUSIC_TRACKS[0].name)).not.toBeInTheDocument();
+  });
+
+  it('follows layout changes from the main process', async () => {
+    render(<MiniWidgetView />);
+    await waitFor(() => expect(layoutListener).not.toBeNull());
+
+    act(() => layoutListener?.('pill'));
+
+    expect(screen.queryByText(MUSIC_TRACKS[0].name)).not.toBeInTheDocument();
+    expect(screen.getByText('Write report')).toBeInTheDocument();
+  });
+
+  it('opens the layout menu on right-click', async () => {
+    mockAPI.miniWidgetGetLayout.mockResolvedValue('ring');
+    const { container } = render(<MiniWidgetView />);
+    await waitFor(() => expect(mockAPI.miniWidgetGetLayout).toHaveBeenCalled());
+
+    fireEvent.contextMenu(container.firstChild as Element);
+
+    expect(mockAPI.miniWidgetShowMenu).toHaveBeenCalled();
+  });
+});
@@ -10,6 +10,7 @@ import {
   fireEvent,
 } from './testUtils';
 import { useAppStore } from '../stores/useAppStore';
+import { useSettingsStore } from '../stores/useSettingsStore';
 
 describe('TasksView', () => {
   beforeEach(() => {
@@ -264,6 +265,222 @@ describe('TasksView', () => {
     });
   });
 
+  describe('Pomodoro estimates', () => {
+    it('shows spent against estimated pomodoros', () => {
+      const task = createTestTask({ title: 'Estimated task', spentPomodoros: 1, estimatedPomodoros: 3 });
+      setupStoreWithTasks([task]);
+
+      render(<TasksView />);
+
+      expect(screen.getByText('1/3')).toBeInTheDocument();
+    });
+
+    it('edits the estimate inline', async () => {
+      const task = createTestTask({ title: 'Estimated task', spentPomodoros: 1, estimatedPomodoros: 3 });
+      setupStoreWithTasks([task]);
+
+      const { user } = render(<TasksView />);
+      await user.click(screen.getByText('1/3'));
+      const input = screen.getByLabelText('Estimated pomodoros');
+      await user.clear(input);
+      await user.type(input, '5{Enter}');
+
+      expect(useAppStore.getState().tasks[0].estimatedPomodoros).toBe(5);
+      expect(screen.getByText('1/5')).toBeInTheDocument();
+    });
+
+    it('reports how estimates held up across completed tasks', async () => {
+      const tasks = [
+        createTestTask({ isCompleted: true, completedAt: getTodayDate(), spentPomodoros: 4, estimatedPomodoros: 2 }),
+        createTestTask({ isCompleted: true, completedAt: getTodayDate(), spentPomodoros: 4, estimatedPomodoros: 2 }),
+      ];
+      setupStoreWithTasks(tasks);
+
+      const { user } = render(<TasksView />);
+      await user.click(screen.getByText('Estimates'));
+
+      expect(screen.getByText('Tasks take 2.0x your estimate on average')).toBeInTheDocument();
+      expect(screen.getByText('2 took longer')).toBeInTheDocument();
+    });
+  });
+
+  describe('Due and scheduled dates', () => {
+    function daysFromToday(days: number): string {
+      const date = new Date(`${getTodayDate()}T00:00:00Z`);
+      date.setUTCDate(date.getUTCDate() + days);
+      return date.toISOString().split('T')[0];
+    }
+
+    it('groups open tasks into overdue, today, upcoming and someday', () => {
+      setupStoreWithTasks([
+        createTestTask({ title: 'Late task', dueDate: daysFromToday(-1) }),
+        createTestTask({ title: 'Planned task', scheduledFor: getTodayDate() }),
+        createTestTask({ title: 'Next week task', dueDate: daysFromToday(7) }),
+        createTestTask({ title: 'Old task', createdAt: daysFromToday(-5) }),
+      ]);
+
+      render(<TasksView />);
+
+      const titles = screen.getAllByRole('heading', { level: 3 }).map((h) => h.textContent);
+      expect(titles).toEqual(['Overdue', "Today's Tasks", 'Upcoming', 'Someday']);
+      expect(screen.getByText('Due Yesterday')).toBeInTheDocument();
+      expect(screen.getByText('Old task')).toBeInTheDocument();
+    });
+
+    it('hides empty sections other than today', () => {
+      setupStoreWithTasks([createTestTask({ title: 'Today task' })]);
+
+      render(<TasksView />);
+
+      expect(screen.getByText("Today's Tasks")).toBeInTheDocument();
+      expect(screen.queryByText('Overdue')).not.toBeInTheDocument();
+      expect(screen.queryByText('Upcoming')).not.toBeInTheDocument();
+      expect(screen.queryByText('Someday')).not.toBeInTheDocument();
+    });
+
+    it('sets and clears the due date from the expanded card', async () => {
+      setupStoreWithTasks([createTestTask({ title: 'Dated task' })]);
+
+      const { user } = render(<TasksView />);
+      await user.click(screen.getByRole('button', { name: 'Expand task' }));
+      fireEvent.change(screen.getByLabelText('Due date'), { target: { value: daysFromToday(1) } });
+
+      expect(useAppStore.getState().tasks[0].dueDate).toBe(daysFromToday(1));
+      expect(screen.getByText('Due Tomorrow')).toBeInTheDocument();
+      expect(screen.getByText('Upcoming')).toBeInTheDocument();
+
+      fireEvent.change(screen.getByLabelText('Due date'), { target: { value: '' } });
+      expect(useAppStore.getState().tasks[0].dueDate).toBeUndefined();
+    });
+  });
+
+  describe('Projects and tags', () => {
+    it('filters the list by project or tag', async () => {
+      useAppStore.setState({ projects: [{ id: 'work', name: 'Work', color: '#3b82f6' }] });
+      setupStoreWithTasks([
+        createTestTask({ title: 'Write report', projectId: 'work' }),
+        createTestTask({ title: 'Buy milk', tags: ['errands'] }),
+      ]);
+
+      const { user } = render(<TasksView />);
+      await user.click(screen.getByRole('button', { name: 'Work' }));
+
+      expect(screen.getByText('Write report')).toBeInTheDocument();
+      expect(screen.queryByText('Buy milk')).not.toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: '#errands' }));
+
+      expect(screen.queryByText('Write report')).not.toBeInTheDocument();
+      expect(screen.getByText('Buy milk')).toBeInTheDocument();
+    });
+
+    it('creates a project and adds new tasks to the one filtered on', async () => {
+      const { user } = render(<TasksView />);
+
+      await user.click(screen.getByRole('button', { name: '+ Project' }));
+      await user.type(screen.getByLabelText('Project name'), 'Work{Enter}');
+      await user.click(screen.getByRole('button', { name: 'Work' }));
+      await user.type(screen.getByPlaceholderText('Add a task...'), 'Write report{Enter}');
+
+      const { projects, tasks } = useAppStore.getState();
+      expect(projects).toMatchObject([{ name: 'Work' }]);
+      expect(tasks[0].projectId).toBe(projects[0].id);
+    });
+
+    it('sets the project and tags from the expanded card', async () => {
+      useAppStore.setState({ projects: [{ id: 'work', name: 'Work', color: '#3b82f6' }] });
+      setupStoreWithTasks([createTestTask({ title: 'Write report' })]);
+
+      const { user } = render(<TasksView />);
+      await user.click(screen.getByRole('button', { name: 'Expand task' }));
+      await user.selectOptions(screen.getByLabelText('Project'), 'work');
+      await user.type(screen.getByLabelText('Add tag'), '#Writing deep{Enter}');
+
+      expect(useAppStore.getState().tasks[0]).toMatchObject({ projectId: 'work', tags: ['writing', 'deep'] });
+
+      await user.click(screen.getByRole('button', { name: 'Remove tag deep' }));
+      expect(useAppStore.getState().tasks[0].tags).toEqual(['writing']);
+    });
+  });
+
+  describe('Priority and order', () => {
+    beforeEach(() => {
+      useSettingsStore.getState().resetToDefaults();
+    });
+
+    const renderedTitles = () => screen.getAllByText(/^Task [A-C]$/).map((el) => el.textContent);
+
+    it('sets the priority from the expanded card', async () => {
+      setupStoreWithTasks([createTestTask({ title: 'Task A' })]);
+
+      const { user } = render(<TasksView />);
+      await user.click(screen.getByRole('button', { name: 'Expand task' }));
+      await user.selectOptions(screen.getByLabelText('Priority'), '1');
+
+      expect(useAppStore.getState().tasks[0].priority).toBe(1);
+      expect(screen.getByText('P1', { selector: 'span' })).toBeInTheDocument();
+    });
+
+    it('sorts tasks by the selected order', async () => {
+      setupStoreWithTasks([
+        createTestTask({ title: 'Task A' }),
+        createTestTask({ title: 'Task B', priority: 1 }),
+        createTestTask({ title: 'Task C', priority: 3 }),
+      ]);
+
+      const { user } = render(<TasksView />);
+      expect(renderedTitles()).toEqual(['Task A', 'Task B', 'Task C']);
+
+      await user.selectOptions(screen.getByLabelText('Sort tasks'), 'priority');
+
+      expect(renderedTitles()).toEqual(['Task B', 'Task C', 'Task A']);
+      expect(useSettingsStore.getState().taskSort).toBe('priority');
+    });
+
+    it('reorders tasks by dragging them in manual order', () => {
+      setupStoreWithTasks([
+        createTestTask({ title: 'Task A' }),
+        createTestTask({ title: 'Task B' }),
+        createTestTask({ title: 'Task C' }),
+      ]);
+
+      render(<TasksView />);
+      const card = (title: string) => screen.getByText(title).closest('[draggable="true"]')!;
+      fireEvent.dragStart(card('Task C'));
+      fireEvent.dragOver(card('Task A'));
+      fireEvent.drop(card('Task A'));
+
+      expect(renderedTitles()).toEqual(['Task C', 'Task A', 'Task B']);
+      expect(useAppStore.getState().tasks.map((t) => t.title)).toEqual(['Task C', 'Task A', 'Task B']);
+    });
+  });
+
+  describe('Recurring tasks', () => {
+    it('sets a weekly repeat on chosen days', async () => {
+      setupStoreWithTasks([createTestTask({ title: 'Weekly report', dueDate: '2025-11-28' })]);
+
+      const { user } = render(<TasksView />);
+      await user.click(screen.getByRole('button', { name: 'Expand task' }));
+      await user.selectOptions(screen.getByLabelText('Repeat'), 'weekly');
+      await user.click(screen.getByRole('button', { name: 'Monday' }));
+
+      expect(useAppStore.getState().tasks[0].recurrence).toEqual({ type: 'weekly', days: [1, 5] });
+      expect(screen.getByText('Weekly on Mon, Fri')).toBeInTheDocument();
+    });
+
+    it('adds the next occurrence when a repeating task is completed', async () => {
+      setupStoreWithTasks([createTestTask({ title: 'Daily review', recurrence: { type: 'daily' } })]);
+
+      const { user } = render(<TasksView />);
+      const taskCard = screen.getByText('Daily review').closest('div[class*="rounded-xl"]');
+      await user.click(taskCard!.querySelectorAll('button')[1]);
+
+      expect(screen.getByText('Upcoming')).toBeInTheDocument();
+      expect(screen.getByText('Completed Today')).toBeInTheDocument();
+      expect(useAppStore.getState().tasks.map((t) => t.isCompleted)).toEqual([true, false]);
+    });
+  });
+
   describe('Deleting a task', () => {
     it('removes task when delete button is clicked', async () => {
       const task = createTestTask({ title: 'Task to delete' });
@@ -12,10 +12,12 @@ import {
   getTodayDate,
 } from './testUtils';
 import { useAppStore } from '../stores/useAppStore';
+import { useSettingsStore } from '../stores/useSettingsStore';
 
 describe('TimerView', () => {
   beforeEach(() => {
     resetStore();
+    useSettingsStore.getState().resetToDefaults();
     vi.clearAllMocks();
   });
 
@@ -35,6 +37,23 @@ describe('TimerView', () => {
       expect(screen.getByText('Write unit tests')).toBeInTheDocument();
     });
 
+    it('shows pomodoros spent against the estimate when task progress is on', () => {
+      const task = createTestTask({ title: 'Write unit tests', spentPomodoros: 1, estimatedPomodoros: 3 });
+      setupStoreWithTasks([task], task.id);
+
+      render(<TimerView />);
+      expect(screen.getByTitle('Pomodoros spent / estimated')).toHaveTextContent('1/3');
+    });
+
+    it('hides the estimate when task progress is off', () => {
+      useSettingsStore.setState({ showTaskProgressInTimer: false });
+      const task = createTestTask({ title: 'Write unit tests', spentPomodoros: 1, estimatedPomodoros: 3 });
+      setupStoreWithTasks([task], task.id);
+
+      render(<TimerView />);
+      expect(screen.queryByTitle('Pomodoros spent / estimated')).not.toBeInTheDocument();
+    });
+
     it('clicking the focus pill navigates to tasks tab', async () => {
       const task = createTestTask({ title: 'Write unit tests' });
       setupStoreWithTasks([task], task.id);
@@ -121,6 +140,8 @@ describe('TimerView', () => {
       const updatedTask = state.tasks.find((t) => t.id === task.id);
       expect(updatedTask?.spentPomodoros).toBe(1);
       expect(state.showPomodoroPopup).toBe(false);
+      // Stats were recorded when the pomodoro finished, not again here
+      expect(state.statsByDate).toEqual({});
     });
 
     it('clicking Mark Completed marks task as completed and closes popup', async () => {
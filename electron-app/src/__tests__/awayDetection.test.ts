@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  startAwayDetection,
+  keepAwayTime,
+  discardAwayTime,
+  resumeAfterAway,
+  onAwayPause,
+} from '../services/awayDetection';
+import { timerService } from '../services/timerService';
+import { useAppStore } from '../stores/useAppStore';
+import { AwayPeriod } from '../types';
+import { resetStore, setupTimerState } from './testUtils';
+
+describe('awayDetection', () => {
+  const originalAPI = window.electronAPI;
+  const timerStart = vi.fn().mockResolvedValue(undefined);
+  const timerDiscardTime = vi.fn().mockResolvedValue(undefined);
+  const onPause = vi.fn();
+  let reportAway: (period: AwayPeriod) => void;
+  let cleanups: (() => void)[] = [];
+
+  beforeEach(() => {
+    resetStore();
+    vi.clearAllMocks();
+    window.electronAPI = {
+      ...originalAPI,
+      timerStart,
+      timerDiscardTime,
+      timerGetState: vi.fn().mockReturnValue(new Promise(() => {})),
+      onTimerState: vi.fn(() => () => {}),
+      onTimerComplete: vi.fn(() => () => {}),
+      onTimerAway: vi.fn((callback) => {
+        reportAway = callback;
+        return () => {};
+      }),
+    };
+    cleanups = [timerService.connect(), startAwayDetection(), onAwayPause(onPause)];
+  });
+
+  afterEach(() => {
+    cleanups.forEach((cleanup) => cleanup());
+    window.electronAPI = originalAPI;
+  });
+
+  it('asks about away time and discards it as a pause', () => {
+    setupTimerState({ mode: 'pomodoro', isRunning: true });
+    reportAway({ mode: 'pomodoro', seconds: 600, behavior: 'ask' });
+
+    expect(useAppStore.getState().awayPeriod).toMatchObject({ seconds: 600 });
+
+    discardAwayTime();
+
+    expect(timerDiscardTime).toHaveBeenCalledWith(600);
+    expect(onPause).toHaveBeenCalledTimes(1);
+    expect(useAppStore.getState().awayPeriod).toBeNull();
+  });
+
+  it('keeps away time without counting a pause', () => {
+    setupTimerState({ mode: 'pomodoro', isRunning: true });
+    reportAway({ mode: 'pomodoro', seconds: 600, behavior: 'ask' });
+
+    keepAwayTime();
+
+    expect(timerDiscardTime).not.toHaveBeenCalled();
+    expect(onPause).not.toHaveBeenCalled();
+    expect(useAppStore.getState().awayPeriod).toBeNull();
+  });
+
+  it('counts flagged away time as a pause without asking', () => {
+    reportAway({ mode: 'flow', seconds: 300, behavior: 'flag' });
+
+    expect(onPause).toHaveBeenCalledWith(expect.objectContaining({ seconds: 300 }));
+    expect(useAppStore.getState().awayPeriod).toBeNull();
+  });
+
+  it('offers to resume an auto-paused block', () => {
+    setupTimerState({ mode: 'pomodoro', isRunning: false, secondsLeft: 600 });
+    reportAway({ mode: 'pomodoro', seconds: 900, behavior: 'pause' });
+
+    resumeAfterAway();
+
+    expect(timerStart).toHaveBeenCalled();
+    expect(useAppStore.getState().awayPeriod).toBeNull();
+  });
+
+  it('drops the prompt once its block is over', () => {
+    setupTimerState({ mode: 'pomodoro', isRunning: true });
+    reportAway({ mode: 'pomodoro', seconds: 600, behavior: 'ask' });
+
+    setupTimerState({ mode: 'shortBreak', isRunning: false });
+
+    expect(useAppStore.getState().awayPeriod).toBeNull();
+  });
+});
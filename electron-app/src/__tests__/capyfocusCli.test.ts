@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { execFile } from 'child_process';
+import fs from 'fs';
+import http from 'http';
+import net, { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import { handleControlRequest } from '../services/controlApi';
+import { timerService } from '../services/timerService';
+import { useAppStore } from '../stores/useAppStore';
+import { resetStore } from './testUtils';
+
+const CLI = path.resolve(__dirname, '../../bin/capyfocus.cjs');
+const TOKEN = 'test-token';
+
+// Stands in for the main process: forwards /cli requests to the renderer's handler
+function startServer(): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', async () => {
+      const authorized = req.headers.authorization === `Bearer ${TOKEN}`;
+      const { status, body } = authorized
+        ? await handleControlRequest({
+            method: req.method ?? 'GET',
+            path: req.url ?? '/',
+            query: {},
+            body: JSON.parse(Buffer.concat(chunks).toString('utf8')),
+          })
+        : { status: 401, body: { ok: false, error: 'Unauthorized' } };
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    });
+  });
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+// Stands in for the main process's CLI socket: one JSON line in, one out
+function startSocketServer(socketPath: string): Promise<net.Server> {
+  const server = net.createServer((socket) => {
+    let received = '';
+    socket.setEncoding('utf8');
+    socket.on('data', async (chunk: string) => {
+      received += chunk;
+      if (!received.includes('\n')) return;
+      const { token, args } = JSON.parse(received);
+      const response =
+        token === TOKEN
+          ? await handleControlRequest({ method: 'POST', path: '/cli', query: {}, body: { args } })
+          : { status: 401, body: { ok: false, error: 'Unauthorized' } };
+      socket.end(`${JSON.stringify(response)}\n`);
+    });
+  });
+  return new Promise((resolve) => server.listen(socketPath, () => resolve(server)));
+}
+
+describe('capyfocus CLI', () => {
+  const originalAPI = window.electronAPI;
+  let server: http.Server;
+  let dir: string;
+
+  function runCli(...args: string[]) {
+    return promisify(execFile)(process.execPath, [CLI, ...args], {
+      env: {
+        ...process.env,
+        CAPYFOCUS_CLI_FILE: path.join(dir, 'cli.json'),
+        CAPYFOCUS_CONTROL_FILE: path.join(dir, 'control-api.json'),
+      },
+      timeout: 10_000,
+    });
+  }
+
+  beforeEach(async () => {
+    resetStore();
+    server = await startServer();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'capyfocus-'));
+    const { port } = server.address() as AddressInfo;
+    fs.writeFileSync(path.join(dir, 'control-api.json'), JSON.stringify({ port, token: TOKEN, pid: process.pid }));
+  });
+
+  afterEach(async () => {
+    window.electronAPI = originalAPI;
+    timerService.reset();
+    await new Promise((resolve) => server.close(resolve));
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reports the timer running right after start', async () => {
+    const running = { ...useAppStore.getState().timer, isRunning: true, targetEndTime: Date.now() + 25 * 60_000 };
+    // The main-process timer has started; this window's mirror hasn't heard yet
+    window.electronAPI = {
+      ...originalAPI,
+      timerStart: vi.fn().mockResolvedValue(running),
+      timerGetState: vi.fn().mockResolvedValue(running),
+    };
+
+    const { stdout } = await runCli('start');
+
+    expect(stdout).toContain('Focus 25:00 left (running)');
+  });
+
+  it('reports a stopped timer on status', async () => {
+    const { stdout } = await runCli('status');
+
+    expect(stdout).toContain('(stopped)');
+  });
+
+  it('reaches the app over its socket with the control API off', async () => {
+    fs.rmSync(path.join(dir, 'control-api.json'));
+    const socketPath = path.join(dir, 'cli.sock');
+    const socketServer = await startSocketServer(socketPath);
+    fs.writeFileSync(path.join(dir, 'cli.json'), JSON.stringify({ socket: socketPath, token: TOKEN, pid: process.pid }));
+
+    try {
+      const { stdout } = await runCli('status');
+      expect(stdout).toContain('Focus 25:00 left (stopped)');
+    } finally {
+      await new Promise((resolve) => socketServer.close(resolve));
+    }
+  });
+
+  it('says the app is not running when neither file is there', async () => {
+    fs.rmSync(path.join(dir, 'control-api.json'));
+
+    const { stdout } = await runCli('status');
+
+    expect(stdout).toContain("CapyFocus isn't running.");
+  });
+});
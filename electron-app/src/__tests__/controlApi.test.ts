@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { handleControlRequest, parseCliCommand } from '../services/controlApi';
+import { formatDateKey, loadNoteFromStorage } from '../services/dailyNotes';
+import { timerService } from '../services/timerService';
+import { useAppStore } from '../stores/useAppStore';
+import { useSettingsStore } from '../stores/useSettingsStore';
+import { DEFAULT_TIMER_CONFIG } from '../../electron/timerEngine';
+import { resetStore, createTestTask, setupStoreWithTasks } from './testUtils';
+
+function request(method: string, path: string, body: unknown = null, query: Record<string, string> = {}) {
+  return handleControlRequest({ method, path, query, body });
+}
+
+describe('controlApi', () => {
+  beforeEach(() => {
+    resetStore();
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    timerService.reset();
+  });
+
+  it('starts, reads and pauses the timer', async () => {
+    const task = createTestTask({ title: 'Write report' });
+    setupStoreWithTasks([task]);
+
+    const started = await request('POST', '/timer/start', { minutes: 30, task: task.id });
+    expect(started.status).toBe(200);
+
+    const { status, body } = await request('GET', '/timer');
+    expect(status).toBe(200);
+    expect(body).toMatchObject({
+      ok: true,
+      timer: { mode: 'pomodoro', isRunning: true, secondsLeft: 30 * 60, currentTask: { id: task.id } },
+    });
+
+    expect((await request('POST', '/timer/pause')).status).toBe(200);
+    expect(useAppStore.getState().timer.isRunning).toBe(false);
+  });
+
+  it('answers timer commands with the state main leaves, not the stale mirror', async () => {
+    const originalAPI = window.electronAPI;
+    const running = { ...useAppStore.getState().timer, isRunning: true, targetEndTime: Date.now() + 25 * 60_000 };
+    let mainState = useAppStore.getState().timer;
+    // Main applies the command right away, but this window's store hears about it later
+    window.electronAPI = {
+      ...originalAPI,
+      timerStart: vi.fn(async () => (mainState = running)),
+      timerGetState: vi.fn(async () => mainState),
+      timerSkip: vi.fn(async () => (mainState = { ...running, mode: 'shortBreak', isRunning: false })),
+    };
+
+    try {
+      const started = await request('POST', '/timer/start', {});
+      expect(useAppStore.getState().timer.isRunning).toBe(false);
+      expect(started.body).toMatchObject({ ok: true, timer: { isRunning: true } });
+
+      const skipped = await request('POST', '/timer/skip');
+      expect(skipped.body).toMatchObject({ timer: { mode: 'shortBreak', isRunning: false } });
+    } finally {
+      window.electronAPI = originalAPI;
+    }
+  });
+
+  it('rejects bad input and refused actions', async () => {
+    expect((await request('POST', '/timer/start', { minutes: 'soon' })).status).toBe(400);
+    expect((await request('POST', '/timer/start', { mode: 'nap' })).status).toBe(400);
+    expect((await request('POST', '/timer/pause')).status).toBe(409);
+    expect(useAppStore.getState().timer.isRunning).toBe(false);
+  });
+
+  it('refuses to pause a focus block under Mind Lock', async () => {
+    useSettingsStore.setState({ mindLockEnabled: true });
+    await timerService.configure({ ...DEFAULT_TIMER_CONFIG, mindLock: true });
+
+    try {
+      await request('POST', '/timer/start', {});
+      const { status, body } = await request('POST', '/timer/pause');
+
+      expect(status).toBe(409);
+      expect(body).toMatchObject({ ok: false, error: 'Mind Lock is on' });
+      expect(useAppStore.getState().timer.isRunning).toBe(true);
+    } finally {
+      useSettingsStore.setState({ mindLockEnabled: false });
+      await timerService.configure(DEFAULT_TIMER_CONFIG);
+    }
+  });
+
+  it('adds, lists and completes tasks', async () => {
+    const created = await request('POST', '/tasks', { title: 'Write report ~2', subtasks: ['outline'] });
+    expect(created.status).toBe(201);
+    const { task } = created.body as { task: { id: string } };
+    expect(task).toMatchObject({ title: 'Write report', estimatedPomodoros: 2, subtasks: [{ title: 'outline' }] });
+
+    expect((await request('POST', `/tasks/${task.id}/complete`)).status).toBe(200);
+    expect((await request('GET', '/tasks')).body).toMatchObject({ tasks: [] });
+    expect((await request('GET', '/tasks', null, { all: '1' })).body).toMatchObject({
+      tasks: [{ id: task.id, isCompleted: true }],
+    });
+
+    expect((await request('POST', '/tasks', {})).status).toBe(400);
+    expect((await request('POST', '/tasks/missing/complete')).status).toBe(404);
+  });
+
+  it('rejects task ids that are not valid URL encoding', async () => {
+    const { status, body } = await request('POST', '/tasks/%E0%A4%A/complete');
+
+    expect(status).toBe(400);
+    expect(body).toEqual({ ok: false, error: 'Invalid task id' });
+  });
+
+  it("appends to today's note", async () => {
+    await request('POST', '/notes/today', { text: 'First' });
+    const { status } = await request('POST', '/notes/today', { text: 'Second' });
+
+    expect(status).toBe(200);
+    const note = loadNoteFromStorage(formatDateKey(new Date()));
+    expect(note).toMatch(/^\[.+\] First\n\n\[.+\] Second$/);
+    expect((await request('POST', '/notes/today', { text: ' ' })).status).toBe(400);
+  });
+
+  it('answers unknown routes with 404', async () => {
+    expect((await request('GET', '/nowhere')).status).toBe(404);
+    expect((await request('DELETE', '/timer')).status).toBe(404);
+  });
+
+  describe('CLI commands', () => {
+    it('maps arguments onto requests', () => {
+      expect(parseCliCommand([])).toMatchObject({ method: 'GET', path: '/timer' });
+      expect(parseCliCommand(['start', '25', '--task', 'Write report'])).toMatchObject({
+        method: 'POST',
+        path: '/timer/start',
+        body: { minutes: 25, task: 'Write report' },
+      });
+      expect(parseCliCommand(['start', '--mode=flow'])).toMatchObject({ body: { mode: 'flow' } });
+      expect(parseCliCommand(['stop'])).toMatchObject({ path: '/timer/reset' });
+      expect(parseCliCommand(['tasks', '--all'])).toMatchObject({ path: '/tasks', query: { all: '1' } });
+      expect(parseCliCommand(['tasks', 'add', 'Write', 'report', '~2'])).toMatchObject({
+        body: { title: 'Write report ~2' },
+      });
+      expect(parseCliCommand(['note', 'append', 'Shipped', 'it'])).toMatchObject({
+        path: '/notes/today',
+        body: { text: 'Shipped it' },
+      });
+    });
+
+    it('reports unknown commands and missing arguments', () => {
+      expect(parseCliCommand(['dance'])).toEqual({ error: 'Unknown command: dance' });
+      expect(parseCliCommand(['start', 'soon'])).toHaveProperty('error');
+      expect(parseCliCommand(['tasks', 'add'])).toHaveProperty('error');
+      expect(parseCliCommand(['note', 'append'])).toHaveProperty('error');
+    });
+
+    it('runs commands sent to /cli, completing tasks by title', async () => {
+      const task = createTestTask({ title: 'Write report' });
+      setupStoreWithTasks([task]);
+
+      const { status } = await request('POST', '/cli', { args: ['tasks', 'done', 'write', 'report'] });
+
+      expect(status).toBe(200);
+      expect(useAppStore.getState().tasks[0].isCompleted).toBe(true);
+      expect((await request('POST', '/cli', { args: ['dance'] })).status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { handleDeepLink } from '../services/deepLinks';
+import { supabase, passwordResetClient, supabaseService } from '../services/supabase';
+import { timerService } from '../services/timerService';
+import { useAppStore } from '../stores/useAppStore';
+import { resetStore, createTestTask, setupStoreWithTasks } from './testUtils';
+
+describe('deepLinks', () => {
+  beforeEach(() => {
+    resetStore();
+    sessionStorage.clear();
+  });
+
+  afterEach(() => {
+    timerService.reset();
+  });
+
+  it('starts a session with a length and an existing task', () => {
+    const task = createTestTask({ title: 'Write report' });
+    setupStoreWithTasks([task]);
+
+    const result = handleDeepLink('capyfocus://start?minutes=50&task=write%20report');
+
+    expect(result.success).toBe(true);
+    const { timer, currentTaskId } = useAppStore.getState();
+    expect(timer.isRunning).toBe(true);
+    expect(timer.mode).toBe('pomodoro');
+    expect(timer.secondsLeft).toBe(50 * 60);
+    expect(currentTaskId).toBe(task.id);
+  });
+
+  it('creates the task a start link names when none matches', () => {
+    handleDeepLink('capyfocus://start?task=Plan%20week');
+
+    const { tasks, currentTaskId } = useAppStore.getState();
+    expect(tasks).toHaveLength(1);
+    expect(tasks[0].title).toBe('Plan week');
+    expect(currentTaskId).toBe(tasks[0].id);
+  });
+
+  it('rejects bad parameters without touching the timer', () => {
+    expect(handleDeepLink('capyfocus://start?minutes=0').success).toBe(false);
+    expect(handleDeepLink('capyfocus://start?mode=nap').success).toBe(false);
+    expect(useAppStore.getState().timer.isRunning).toBe(false);
+  });
+
+  it('pauses and resumes the timer', () => {
+    handleDeepLink('capyfocus://start');
+    expect(handleDeepLink('capyfocus://pause').success).toBe(true);
+    expect(useAppStore.getState().timer.isRunning).toBe(false);
+
+    expect(handleDeepLink('capyfocus://resume').success).toBe(true);
+    expect(useAppStore.getState().timer.isRunning).toBe(true);
+  });
+
+  it('skips to the next block through the shared timer actions', () => {
+    const result = handleDeepLink('capyfocus://skip');
+
+    expect(result).toMatchObject({ success: true, message: 'Skipped to the next block' });
+    expect(useAppStore.getState().timer.mode).toBe('shortBreak');
+  });
+
+  it('adds a task using the quick capture syntax', () => {
+    const result = handleDeepLink('capyfocus://add-task?title=Write%20report%20~2%20%2B%20outline');
+
+    expect(result.success).toBe(true);
+    const [task] = useAppStore.getState().tasks;
+    expect(task).toMatchObject({ title: 'Write report', estimatedPomodoros: 2 });
+    expect(task.subtasks?.map((s) => s.title)).toEqual(['outline']);
+    expect(useAppStore.getState().timer.isRunning).toBe(false);
+  });
+
+  it('opens notes for a given date', () => {
+    const result = handleDeepLink('capyfocus://open/notes?date=2026-10-01');
+
+    expect(result.success).toBe(true);
+    expect(useAppStore.getState().selectedTab).toBe('notes');
+    expect(sessionStorage.getItem('notes-target-date')).toBe('2026-10-01');
+  });
+
+  it('reports unknown routes and foreign links', () => {
+    expect(handleDeepLink('capyfocus://dance').success).toBe(false);
+    expect(handleDeepLink('capyfocus://open/nowhere').success).toBe(false);
+    expect(handleDeepLink('https://example.com/start').success).toBe(false);
+  });
+
+  describe('password reset links', () => {
+    // Only the reset flow's own client uses PKCE; the main client gets the session
+    const exchangeCodeForSession = vi.spyOn(passwordResetClient.auth, 'exchangeCodeForSession');
+    const setSession = vi.spyOn(supabase.auth, 'setSession');
+    const mainClientReset = vi.spyOn(supabase.auth, 'resetPasswordForEmail');
+
+    beforeEach(() => {
+      localStorage.clear();
+      vi.clearAllMocks();
+      useAppStore.setState({ authView: 'login' });
+      exchangeCodeForSession.mockResolvedValue({
+        data: { user: {}, session: { access_token: 'mine', refresh_token: 'mine-too' } },
+        error: null,
+      } as never);
+      setSession.mockResolvedValue({ data: { user: null, session: null }, error: null });
+      vi.spyOn(passwordResetClient.auth, 'resetPasswordForEmail').mockResolvedValue({ data: {}, error: null });
+    });
+
+    it('redeems the code of a reset requested from the app, once', async () => {
+      await supabaseService.resetPasswordForEmail('me@example.com');
+
+      const result = handleDeepLink('capyfocus://reset-password?code=abc123');
+
+      expect(result.success).toBe(true);
+      await vi.waitFor(() => expect(useAppStore.getState().authView).toBe('reset-password'));
+      expect(exchangeCodeForSession).toHaveBeenCalledWith('abc123');
+      expect(setSession).toHaveBeenCalledWith({ access_token: 'mine', refresh_token: 'mine-too' });
+      expect(mainClientReset).not.toHaveBeenCalled();
+      expect(useAppStore.getState().selectedTab).toBe('account');
+      expect(handleDeepLink('capyfocus://reset-password?code=abc123').success).toBe(false);
+    });
+
+    it('ignores reset links nobody asked for from the app', () => {
+      const result = handleDeepLink('capyfocus://reset-password?code=abc123');
+
+      expect(result.success).toBe(false);
+      expect(exchangeCodeForSession).not.toHaveBeenCalled();
+      expect(useAppStore.getState().authView).toBe('login');
+    });
+
+    it('never signs in from session tokens in the link', async () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      await supabaseService.resetPasswordForEmail('me@example.com');
+
+      handleDeepLink('capyfocus://reset-password#access_token=theirs&refresh_token=theirs&type=recovery');
+
+      // The view explains the link didn't work
+      await vi.waitFor(() => expect(useAppStore.getState().authView).toBe('reset-password'));
+      expect(setSession).not.toHaveBeenCalled();
+      expect(exchangeCodeForSession).not.toHaveBeenCalled();
+      expect(consoleError).toHaveBeenCalledWith('Password recovery link failed:', expect.any(Error));
+      consoleError.mockRestore();
+    });
+  });
+});
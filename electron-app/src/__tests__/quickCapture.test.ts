@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { parseQuickCapture, parseDueDate } from '../services/quickCapture';
+import { useAppStore } from '../stores/useAppStore';
+import { resetStore } from './testUtils';
+
+// A Wednesday
+const NOW = new Date('2026-10-21T12:00:00');
+
+describe('quickCapture', () => {
+  describe('parseQuickCapture', () => {
+    it('takes a plain line as the title', () => {
+      expect(parseQuickCapture('  Write report  ', NOW)).toEqual({ title: 'Write report', details: {} });
+    });
+
+    it('picks up an estimate, a due date and subtasks', () => {
+      expect(parseQuickCapture('Write report ~3 @fri + outline + draft', NOW)).toEqual({
+        title: 'Write report',
+        details: { estimatedPomodoros: 3, dueDate: '2026-10-23', subtasks: ['outline', 'draft'] },
+      });
+    });
+
+    it('picks up tags and a priority', () => {
+      expect(parseQuickCapture('Write report #Writing !2 #q4 #writing', NOW)).toEqual({
+        title: 'Write report',
+        details: { tags: ['writing', 'q4'], priority: 2 },
+      });
+    });
+
+    it('keeps tokens that do not parse as text', () => {
+      expect(parseQuickCapture('Ask @sam about C++ ~0 #1 !5', NOW)).toEqual({
+        title: 'Ask @sam about C++ ~0 #1 !5',
+        details: {},
+      });
+    });
+
+    it('returns null when no title is left', () => {
+      expect(parseQuickCapture('~2 @today', NOW)).toBeNull();
+    });
+  });
+
+  describe('parseDueDate', () => {
+    it('understands relative days and weekdays', () => {
+      expect(parseDueDate('today', NOW)).toBe('2026-10-21');
+      expect(parseDueDate('tomorrow', NOW)).toBe('2026-10-22');
+      expect(parseDueDate('wed', NOW)).toBe('2026-10-21');
+      expect(parseDueDate('Monday', NOW)).toBe('2026-10-26');
+      expect(parseDueDate('2026-12-01', NOW)).toBe('2026-12-01');
+    });
+
+    it('rejects anything else', () => {
+      expect(parseDueDate('mo', NOW)).toBeNull();
+      expect(parseDueDate('monkey', NOW)).toBeNull();
+      expect(parseDueDate('2026-13-45', NOW)).toBeNull();
+    });
+  });
+
+  describe('addTask with details', () => {
+    beforeEach(() => {
+      resetStore();
+    });
+
+    it('creates the task with its subtasks, estimate and due date', () => {
+      const id = useAppStore.getState().addTask('Write report', {
+        estimatedPomodoros: 3,
+        dueDate: '2026-10-23',
+        subtasks: ['outline', 'draft'],
+      });
+
+      const task = useAppStore.getState().tasks.find((t) => t.id === id);
+      expect(task).toMatchObject({ title: 'Write report', estimatedPomodoros: 3, dueDate: '2026-10-23' });
+      expect(task?.subtasks?.map((s) => s.title)).toEqual(['outline', 'draft']);
+      expect(task?.subtasks?.every((s) => !s.isCompleted)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { startReminderScheduler } from '../services/reminderScheduler';
+import { timerService } from '../services/timerService';
+import { useAppStore } from '../stores/useAppStore';
+import { useSettingsStore } from '../stores/useSettingsStore';
+import { resetStore, createTestTask, setupStoreWithTasks } from './testUtils';
+
+describe('reminderScheduler', () => {
+  let stopReminders: () => void;
+
+  beforeEach(() => {
+    resetStore();
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    useSettingsStore.setState({ gentleReminders: true, reminderInterval: 5 });
+    stopReminders = startReminderScheduler();
+  });
+
+  afterEach(() => {
+    stopReminders();
+    timerService.reset();
+    useSettingsStore.getState().resetToDefaults();
+    vi.useRealTimers();
+  });
+
+  it('reminds every interval with the task title and time left', () => {
+    const task = createTestTask({ title: 'Write report' });
+    setupStoreWithTasks([task], task.id);
+
+    timerService.start();
+    vi.advanceTimersByTime(5 * 60 * 1000);
+
+    expect(window.Notification).toHaveBeenCalledTimes(1);
+    expect(window.Notification).toHaveBeenCalledWith('Still on: Write report', {
+      body: '20 minutes left',
+      silent: true,
+    });
+
+    vi.advanceTimersByTime(5 * 60 * 1000);
+    expect(window.Notification).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not count paused time', () => {
+    timerService.start();
+    vi.advanceTimersByTime(3 * 60 * 1000);
+    timerService.pause();
+
+    vi.advanceTimersByTime(10 * 60 * 1000);
+    expect(window.Notification).not.toHaveBeenCalled();
+
+    timerService.start();
+    vi.advanceTimersByTime(2 * 60 * 1000);
+    expect(window.Notification).toHaveBeenCalledTimes(1);
+  });
+
+  it('stays quiet when reminders are off', () => {
+    useSettingsStore.setState({ gentleReminders: false });
+
+    timerService.start();
+    vi.advanceTimersByTime(15 * 60 * 1000);
+
+    expect(window.Notification).not.toHaveBeenCalled();
+  });
+
+  it('does not remind during breaks', () => {
+    timerService.start({ mode: 'longBreak' });
+    vi.advanceTimersByTime(10 * 60 * 1000);
+
+    expect(useAppStore.getState().timer.isRunning).toBe(true);
+    expect(window.Notification).not.toHaveBeenCalled();
+  });
+
+  it('starts counting again for each new pomodoro', () => {
+    timerService.start();
+    vi.advanceTimersByTime(4 * 60 * 1000);
+    timerService.reset();
+
+    timerService.start();
+    vi.advanceTimersByTime(4 * 60 * 1000);
+    expect(window.Notification).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(60 * 1000);
+    expect(window.Notification).toHaveBeenCalledTimes(1);
+  });
+});
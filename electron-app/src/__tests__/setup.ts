@@ -46,9 +46,10 @@ beforeEach(() => {
 });
 
 // Mock Notification API
-const NotificationMock = vi.fn().mockImplementation(() => ({
-  close: vi.fn(),
-}));
+// Regular function so it can be called with `new`
+const NotificationMock = vi.fn().mockImplementation(function () {
+  return { close: vi.fn() };
+});
 Object.defineProperty(NotificationMock, 'permission', {
   value: 'granted',
   writable: true,
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { acceleratorFromKeyboardEvent, formatAccelerator } from '../services/shortcuts';
+
+function keyCombo(code: string, modifiers: Partial<Record<'metaKey' | 'ctrlKey' | 'altKey' | 'shiftKey', boolean>> = {}) {
+  return { code, metaKey: false, ctrlKey: false, altKey: false, shiftKey: false, ...modifiers };
+}
+
+describe('shortcuts', () => {
+  describe('acceleratorFromKeyboardEvent', () => {
+    it('builds an accelerator from the physical key and modifiers', () => {
+      expect(acceleratorFromKeyboardEvent(keyCombo('KeyF', { metaKey: true, shiftKey: true }), true))
+        .toBe('Command+Shift+F');
+      expect(acceleratorFromKeyboardEvent(keyCombo('Digit2', { ctrlKey: true, altKey: true }), false))
+        .toBe('Control+Alt+2');
+      expect(acceleratorFromKeyboardEvent(keyCombo('ArrowUp', { altKey: true }), true)).toBe('Alt+Up');
+    });
+
+    it('maps the meta key to Super outside macOS', () => {
+      expect(acceleratorFromKeyboardEvent(keyCombo('KeyT', { metaKey: true }), false)).toBe('Super+T');
+    });
+
+    it('waits for a key while only modifiers are held', () => {
+      expect(acceleratorFromKeyboardEvent(keyCombo('ShiftLeft', { shiftKey: true }), true)).toBeNull();
+    });
+
+    it('requires a modifier other than Shift, except for function keys', () => {
+      expect(acceleratorFromKeyboardEvent(keyCombo('KeyA'), true)).toBeNull();
+      expect(acceleratorFromKeyboardEvent(keyCombo('KeyA', { shiftKey: true }), true)).toBeNull();
+      expect(acceleratorFromKeyboardEvent(keyCombo('F9'), true)).toBe('F9');
+    });
+  });
+
+  describe('formatAccelerator', () => {
+    it('uses modifier symbols on macOS', () => {
+      expect(formatAccelerator('CommandOrControl+Shift+F', true)).toBe('⌘⇧F');
+      expect(formatAccelerator('Control+Alt+Space', true)).toBe('⌃⌥Space');
+    });
+
+    it('spells modifiers out elsewhere', () => {
+      expect(formatAccelerator('CommandOrControl+Shift+F', false)).toBe('Ctrl+Shift+F');
+      expect(formatAccelerator('Super+T', false)).toBe('Super+T');
+    });
+  });
+});
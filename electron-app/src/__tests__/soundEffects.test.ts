@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { soundEffects, startSessionSounds } from '../services/soundEffects';
+import { timerService } from '../services/timerService';
+import { useSettingsStore } from '../stores/useSettingsStore';
+import { resetStore, setupTimerState } from './testUtils';
+
+describe('session sounds', () => {
+  let stopSounds: () => void;
+  let play: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    resetStore();
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    play = vi.spyOn(soundEffects, 'play').mockImplementation(() => {});
+    stopSounds = startSessionSounds();
+  });
+
+  afterEach(() => {
+    stopSounds();
+    timerService.reset();
+    play.mockRestore();
+    useSettingsStore.getState().resetToDefaults();
+    vi.useRealTimers();
+  });
+
+  it('plays the start chime when a pomodoro starts', () => {
+    useSettingsStore.setState({ startChime: 'ping', chimeVolume: 0.4 });
+
+    timerService.start();
+
+    expect(play).toHaveBeenCalledWith('ping', 0.4);
+  });
+
+  it('does not replay the start chime when resuming', () => {
+    timerService.start();
+    vi.advanceTimersByTime(60_000);
+    timerService.pause();
+    play.mockClear();
+
+    timerService.start();
+
+    expect(play).not.toHaveBeenCalled();
+  });
+
+  it('plays the end chime after focus and the break-over chime after a break', () => {
+    useSettingsStore.setState({ endChime: 'bell', breakOverChime: 'marimba', chimeVolume: 0.5 });
+
+    setupTimerState({ secondsLeft: 1 });
+    timerService.start();
+    vi.advanceTimersByTime(1_000);
+    expect(play).toHaveBeenLastCalledWith('bell', 0.5);
+
+    timerService.start({ mode: 'shortBreak', durationSeconds: 1 });
+    vi.advanceTimersByTime(1_000);
+    expect(play).toHaveBeenLastCalledWith('marimba', 0.5);
+  });
+
+  it('respects the start and end sound toggles', () => {
+    useSettingsStore.setState({ sessionStartSound: false, sessionEndSound: false });
+
+    setupTimerState({ secondsLeft: 1 });
+    timerService.start();
+    vi.advanceTimersByTime(1_000);
+
+    expect(play).not.toHaveBeenCalled();
+  });
+});
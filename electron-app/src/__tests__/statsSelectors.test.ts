@@ -4,6 +4,15 @@ import {
   getTodaySummary,
   getWeekSummary,
   getMonthSummaries,
+  getTaskEstimate,
+  getEstimateAccuracy,
+  getTaskSection,
+  getFocusBreakdown,
+  sortTasks,
+  getNextTask,
+  getNextOccurrence,
+  migrateStatsByDate,
+  useAppStore,
 } from '../stores/useAppStore';
 import { DayActivity, Task } from '../types';
 
@@ -28,6 +37,8 @@ function createDayActivity(
   return {
     date,
     pomodoros: 0,
+    focusSeconds: 0,
+    sessions: [],
     completedTasks: 0,
     hasNote: false,
     ...overrides,
@@ -137,23 +148,24 @@ describe('Stats Selectors', () => {
       const byDate: Record<string, DayActivity> = {
         [getDateDaysAgo(0)]: createDayActivity(0, {
           pomodoros: 4,
+          focusSeconds: 100 * 60,
           completedTasks: 3,
         }),
       };
       const summary = getTodaySummary(byDate);
 
       expect(summary.pomodoros).toBe(4);
-      expect(summary.minutes).toBe(100); // 4 * 25
+      expect(summary.minutes).toBe(100);
       expect(summary.completedTasks).toBe(3);
     });
 
-    it('calculates minutes as pomodoros * 25', () => {
+    it('uses the real focus time rather than 25 minutes per pomodoro', () => {
       const byDate: Record<string, DayActivity> = {
-        [getDateDaysAgo(0)]: createDayActivity(0, { pomodoros: 2 }),
+        [getDateDaysAgo(0)]: createDayActivity(0, { pomodoros: 2, focusSeconds: 2 * 45 * 60 + 20 }),
       };
       const summary = getTodaySummary(byDate);
 
-      expect(summary.minutes).toBe(50);
+      expect(summary.minutes).toBe(90);
     });
 
     it('ignores data from other days', () => {
@@ -179,14 +191,14 @@ describe('Stats Selectors', () => {
 
     it('aggregates pomodoros from last 7 days', () => {
       const byDate: Record<string, DayActivity> = {
-        [getDateDaysAgo(0)]: createDayActivity(0, { pomodoros: 2 }),
-        [getDateDaysAgo(1)]: createDayActivity(1, { pomodoros: 3 }),
-        [getDateDaysAgo(6)]: createDayActivity(6, { pomodoros: 4 }),
+        [getDateDaysAgo(0)]: createDayActivity(0, { pomodoros: 2, focusSeconds: 2 * 25 * 60 }),
+        [getDateDaysAgo(1)]: createDayActivity(1, { pomodoros: 3, focusSeconds: 3 * 50 * 60 }),
+        [getDateDaysAgo(6)]: createDayActivity(6, { pomodoros: 4, focusSeconds: 4 * 25 * 60 }),
       };
       const summary = getWeekSummary(byDate);
 
       expect(summary.pomodoros).toBe(9);
-      expect(summary.minutes).toBe(225); // 9 * 25
+      expect(summary.minutes).toBe(300);
     });
 
     it('counts active days correctly', () => {
@@ -249,6 +261,8 @@ describe('Stats Selectors', () => {
         '2025-11-15': {
           date: '2025-11-15',
           pomodoros: 5,
+          focusSeconds: 5 * 30 * 60,
+          sessions: [],
           completedTasks: 2,
           hasNote: true,
         },
@@ -258,7 +272,7 @@ describe('Stats Selectors', () => {
 
       const day15 = summaries.find((s) => s.date === '2025-11-15');
       expect(day15?.pomodoros).toBe(5);
-      expect(day15?.focusMinutes).toBe(125); // 5 * 25
+      expect(day15?.focusMinutes).toBe(150);
     });
 
     it('includes completed tasks for each day', () => {
@@ -294,6 +308,18 @@ describe('Stats Selectors', () => {
       expect(day21?.completedTasks.length).toBe(1);
     });
 
+    it('includes open tasks due each day', () => {
+      const tasks: Task[] = [
+        createTask({ id: 'task-1', title: 'Report', dueDate: '2025-11-20' }),
+        createTask({ id: 'task-2', title: 'Slides', dueDate: '2025-11-20', isCompleted: true, completedAt: '2025-11-19' }),
+        createTask({ id: 'task-3', title: 'Review', scheduledFor: '2025-11-20' }),
+      ];
+      const summaries = getMonthSummaries(2025, 10, {}, tasks, hasNoteForDate);
+
+      const day20 = summaries.find((s) => s.date === '2025-11-20');
+      expect(day20?.dueTasks.map((t) => t.title)).toEqual(['Report']);
+    });
+
     it('detects notes using hasNoteForDate callback', () => {
       const byDate: Record<string, DayActivity> = {};
       const tasks: Task[] = [];
@@ -329,5 +355,359 @@ describe('Stats Selectors', () => {
       const janSummaries = getMonthSummaries(2025, 0, byDate, tasks, hasNoteForDate);
       expect(janSummaries.length).toBe(31);
     });
+
+    it("narrows focus and tasks to a project's own", () => {
+      const tasks: Task[] = [
+        createTask({ id: 'task-1', projectId: 'work', isCompleted: true, completedAt: '2025-11-20' }),
+        createTask({ id: 'task-2', isCompleted: true, completedAt: '2025-11-20' }),
+      ];
+      const byDate: Record<string, DayActivity> = {
+        '2025-11-20': createDayActivity(8, {
+          date: '2025-11-20',
+          pomodoros: 2,
+          focusSeconds: 75 * 60,
+          sessions: [
+            { mode: 'pomodoro', endedAt: '2025-11-20T10:00:00.000Z', focusSeconds: 25 * 60, taskId: 'task-1' },
+            { mode: 'pomodoro', endedAt: '2025-11-20T11:00:00.000Z', focusSeconds: 25 * 60, taskId: 'task-2' },
+            { mode: 'flow', endedAt: '2025-11-20T12:00:00.000Z', focusSeconds: 25 * 60, taskId: 'task-1' },
+          ],
+        }),
+      };
+
+      const day20 = getMonthSummaries(2025, 10, byDate, tasks, hasNoteForDate, 'work').find(
+        (s) => s.date === '2025-11-20'
+      );
+      expect(day20).toMatchObject({ pomodoros: 1, focusMinutes: 50 });
+      expect(day20?.completedTasks.map((t) => t.id)).toEqual(['task-1']);
+    });
+  });
+
+  describe('getFocusBreakdown', () => {
+    it("attributes focus to the project and tags of each block's task", () => {
+      const tasks: Task[] = [
+        createTask({ id: 'task-1', projectId: 'work', tags: ['writing', 'q4'] }),
+        createTask({ id: 'task-2', tags: ['writing'] }),
+      ];
+      const session = (taskId: string | null, minutes: number) => ({
+        mode: 'pomodoro' as const,
+        endedAt: '2025-11-27T10:00:00.000Z',
+        focusSeconds: minutes * 60,
+        taskId,
+      });
+      const byDate: Record<string, DayActivity> = {
+        '2025-11-27': createDayActivity(1, { sessions: [session('task-1', 25), session('task-2', 30), session(null, 10)] }),
+        '2025-11-28': createDayActivity(0, { sessions: [session('task-1', 20), session('deleted-task', 5)] }),
+        '2025-11-20': createDayActivity(8, { sessions: [session('task-1', 60)] }),
+      };
+
+      expect(getFocusBreakdown(byDate, tasks, ['2025-11-27', '2025-11-28'])).toEqual({
+        byProject: { work: 45 },
+        byTag: { writing: 75, q4: 45 },
+        withoutProject: 45,
+      });
+    });
+  });
+
+  describe('projects and tags', () => {
+    beforeEach(() => {
+      useAppStore.setState({ tasks: [], projects: [] });
+    });
+
+    it('keeps tasks of a deleted project', () => {
+      const { addProject, addTask } = useAppStore.getState();
+      const projectId = addProject('Work');
+      const taskId = addTask('Write report', { projectId });
+
+      useAppStore.getState().deleteProject(projectId);
+
+      const { projects, tasks } = useAppStore.getState();
+      expect(projects).toEqual([]);
+      expect(tasks.find((t) => t.id === taskId)?.projectId).toBeUndefined();
+    });
+
+    it('stores tags lowercase, without # and duplicates', () => {
+      const taskId = useAppStore.getState().addTask('Write report');
+
+      useAppStore.getState().setTaskTags(taskId, ['#Writing', 'writing', ' deep work ', '#']);
+      expect(useAppStore.getState().tasks[0].tags).toEqual(['writing', 'deep-work']);
+
+      useAppStore.getState().setTaskTags(taskId, []);
+      expect(useAppStore.getState().tasks[0].tags).toBeUndefined();
+    });
+  });
+
+  describe('focus time recording', () => {
+    beforeEach(() => {
+      useAppStore.setState({ statsByDate: {} });
+    });
+
+    it('adds each block to the day with its real length', () => {
+      useAppStore.getState().recordPomodoro(45 * 60, 'task-1');
+      useAppStore.getState().recordFlowSession(70 * 60);
+
+      const endedAt = new Date().toISOString();
+      const today = useAppStore.getState().statsByDate[endedAt.split('T')[0]];
+      expect(today.pomodoros).toBe(1);
+      expect(today.focusSeconds).toBe(115 * 60);
+      expect(today.sessions).toEqual([
+        { mode: 'pomodoro', endedAt, focusSeconds: 45 * 60, taskId: 'task-1' },
+        { mode: 'flow', endedAt, focusSeconds: 70 * 60, taskId: null },
+      ]);
+      expect(getTodaySummary(useAppStore.getState().statsByDate).minutes).toBe(115);
+    });
+
+    it('migrates stats saved with 25 minutes per pomodoro', () => {
+      const migrated = migrateStatsByDate({
+        '2025-11-20': { date: '2025-11-20', pomodoros: 3, completedTasks: 1, hasNote: false, flowMinutes: 40 },
+      });
+
+      expect(migrated['2025-11-20']).toEqual({
+        date: '2025-11-20',
+        pomodoros: 3,
+        focusSeconds: (3 * 25 + 40) * 60,
+        sessions: [],
+        completedTasks: 1,
+        hasNote: false,
+      });
+    });
+  });
+
+  describe('estimate accuracy', () => {
+    function completedTask(spentPomodoros: number, estimatedPomodoros?: number): Task {
+      return {
+        id: crypto.randomUUID(),
+        title: 'Task',
+        isCompleted: true,
+        createdAt: '2025-11-20',
+        completedAt: '2025-11-21',
+        spentPomodoros,
+        estimatedPomodoros,
+      };
+    }
+
+    it("falls back to the sum of the subtasks' estimates", () => {
+      const task = completedTask(2);
+      task.subtasks = [
+        { id: 's1', title: 'Outline', isCompleted: true, createdAt: '2025-11-20', estimatedPomodoros: 1 },
+        { id: 's2', title: 'Draft', isCompleted: true, createdAt: '2025-11-20', estimatedPomodoros: 2 },
+      ];
+
+      expect(getTaskEstimate(task)).toBe(3);
+      expect(getTaskEstimate({ ...task, estimatedPomodoros: 5 })).toBe(5);
+      expect(getTaskEstimate(completedTask(2))).toBeUndefined();
+    });
+
+    it('compares completed estimated tasks with the pomodoros they took', () => {
+      const accuracy = getEstimateAccuracy([
+        completedTask(4, 4),
+        completedTask(3, 2),
+        completedTask(6, 3),
+        completedTask(1, 4),
+        completedTask(5), // no estimate
+        completedTask(0, 2), // done without the timer
+        { ...completedTask(9, 1), isCompleted: false },
+      ]);
+
+      expect(accuracy).toEqual({
+        estimatedTasks: 4,
+        accurateTasks: 2,
+        underestimatedTasks: 1,
+        overestimatedTasks: 1,
+        averageRatio: 1.19,
+      });
+    });
+  });
+
+  describe('getTaskSection', () => {
+    const today = '2025-11-28';
+
+    it('sorts dated tasks by their due and scheduled dates', () => {
+      expect(getTaskSection(createTask({ dueDate: '2025-11-27' }), today)).toBe('overdue');
+      expect(getTaskSection(createTask({ dueDate: today }), today)).toBe('today');
+      expect(getTaskSection(createTask({ scheduledFor: '2025-11-25' }), today)).toBe('today');
+      expect(getTaskSection(createTask({ dueDate: '2025-12-01' }), today)).toBe('upcoming');
+      expect(getTaskSection(createTask({ scheduledFor: today, dueDate: '2025-12-01' }), today)).toBe('today');
+    });
+
+    it('keeps undated tasks for the day they were added, then someday', () => {
+      expect(getTaskSection(createTask({ createdAt: today }), today)).toBe('today');
+      expect(getTaskSection(createTask({ createdAt: '2025-11-20' }), today)).toBe('someday');
+    });
+  });
+
+  describe('task order', () => {
+    const tasks: Task[] = [
+      createTask({ id: 'a', createdAt: '2025-11-20', dueDate: '2025-12-05' }),
+      createTask({ id: 'b', createdAt: '2025-11-22', priority: 2 }),
+      createTask({ id: 'c', createdAt: '2025-11-21', priority: 1, dueDate: '2025-12-01', isCompleted: true }),
+      createTask({ id: 'd', createdAt: '2025-11-21', priority: 2, dueDate: '2025-12-01' }),
+    ];
+    const ids = (list: Task[]) => list.map((t) => t.id);
+
+    it('sorts by priority, due date or newest, keeping manual order on ties', () => {
+      expect(ids(sortTasks(tasks, 'manual'))).toEqual(['a', 'b', 'c', 'd']);
+      expect(ids(sortTasks(tasks, 'priority'))).toEqual(['c', 'b', 'd', 'a']);
+      expect(ids(sortTasks(tasks, 'dueDate'))).toEqual(['c', 'd', 'a', 'b']);
+      expect(ids(sortTasks(tasks, 'created'))).toEqual(['b', 'c', 'd', 'a']);
+    });
+
+    it('picks the most urgent open task, earliest in manual order', () => {
+      expect(getNextTask(tasks)?.id).toBe('b');
+      expect(getNextTask([createTask({ id: 'x' }), createTask({ id: 'y' })])?.id).toBe('x');
+      expect(getNextTask([])).toBeUndefined();
+    });
+
+    it('moves tasks and subtasks in the manual order', () => {
+      useAppStore.setState({ tasks });
+      useAppStore.getState().moveTask('a', 'c');
+      expect(ids(useAppStore.getState().tasks)).toEqual(['b', 'c', 'a', 'd']);
+      useAppStore.getState().moveTask('d', 'b');
+      expect(ids(useAppStore.getState().tasks)).toEqual(['d', 'b', 'c', 'a']);
+
+      const subtask = (id: string) => ({ id, title: id, isCompleted: false, createdAt: '2025-11-20' });
+      useAppStore.setState({ tasks: [createTask({ id: 'p', subtasks: [subtask('s1'), subtask('s2'), subtask('s3')] })] });
+      useAppStore.getState().moveSubtask('p', 's3', 's1');
+      expect(useAppStore.getState().tasks[0].subtasks?.map((s) => s.id)).toEqual(['s3', 's1', 's2']);
+    });
+  });
+
+  describe('recurring tasks', () => {
+    beforeEach(() => {
+      useAppStore.setState({ tasks: [], statsByDate: {}, currentTaskId: null });
+    });
+
+    it('finds the next day a rule falls on', () => {
+      // 2025-11-28 is a Friday
+      expect(getNextOccurrence({ type: 'daily' }, '2025-11-28')).toBe('2025-11-29');
+      expect(getNextOccurrence({ type: 'weekdays' }, '2025-11-28')).toBe('2025-12-01');
+      expect(getNextOccurrence({ type: 'weekly', days: [2, 5] }, '2025-11-28')).toBe('2025-12-02');
+      expect(getNextOccurrence({ type: 'weekly', days: [] }, '2025-11-28')).toBe('2025-12-05');
+      expect(getNextOccurrence({ type: 'interval', days: 3 }, '2025-11-28')).toBe('2025-12-01');
+      expect(getNextOccurrence({ type: 'monthly' }, '2025-11-28')).toBe('2025-12-28');
+      expect(getNextOccurrence({ type: 'monthly' }, '2026-01-31')).toBe('2026-02-28');
+      expect(getNextOccurrence({ type: 'monthly' }, '2026-02-28', '2026-01-31')).toBe('2026-03-31');
+    });
+
+    it('adds the next occurrence with subtasks reset when one is completed', () => {
+      const { addTask, addSubtask, setTaskRecurrence, setTaskDueDate } = useAppStore.getState();
+      const id = addTask('Weekly report', { estimatedPomodoros: 2, subtasks: ['Gather numbers'] });
+      addSubtask(id, 'Write summary');
+      setTaskDueDate(id, '2025-11-28');
+      setTaskRecurrence(id, { type: 'weekly', days: [5] });
+      useAppStore.getState().toggleSubtask(id, useAppStore.getState().tasks[0].subtasks![0].id);
+      useAppStore.getState().incrementTaskPomodoros(id);
+
+      useAppStore.getState().toggleTask(id);
+
+      const [done, next] = useAppStore.getState().tasks;
+      expect(done).toMatchObject({ id, isCompleted: true, completedAt: '2025-11-28', spentPomodoros: 1 });
+      expect(done.recurrence).toBeUndefined();
+      expect(next).toMatchObject({
+        title: 'Weekly report',
+        isCompleted: false,
+        spentPomodoros: 0,
+        estimatedPomodoros: 2,
+        dueDate: '2025-12-05',
+        recurrence: { type: 'weekly', days: [5] },
+      });
+      expect(next.id).not.toBe(id);
+      expect(next.subtasks?.map((s) => [s.title, s.isCompleted])).toEqual([
+        ['Gather numbers', false],
+        ['Write summary', false],
+      ]);
+      expect(useAppStore.getState().statsByDate['2025-11-28'].completedTasks).toBe(1);
+
+      // Reopening and completing the old instance again does not add another
+      useAppStore.getState().toggleTask(id);
+      useAppStore.getState().toggleTask(id);
+      expect(useAppStore.getState().tasks).toHaveLength(2);
+    });
+
+    it('takes the series back when a just-completed instance is reopened', () => {
+      const { addTask, setTaskRecurrence, setTaskDueDate } = useAppStore.getState();
+      const id = addTask('Weekly report');
+      setTaskDueDate(id, '2025-11-28');
+      setTaskRecurrence(id, { type: 'weekly', days: [5] });
+
+      useAppStore.getState().toggleTask(id);
+      const next = useAppStore.getState().tasks[1];
+      useAppStore.getState().setCurrentTaskId(next.id);
+      useAppStore.getState().toggleTask(id);
+
+      const { tasks, currentTaskId } = useAppStore.getState();
+      expect(tasks).toHaveLength(1);
+      expect(tasks[0]).toMatchObject({ id, isCompleted: false, recurrence: { type: 'weekly', days: [5] } });
+      expect(tasks[0].nextOccurrenceId).toBeUndefined();
+      expect(currentTaskId).toBe(id);
+    });
+
+    it('leaves an occurrence that was completed too when reopening history', () => {
+      const { addTask, setTaskRecurrence } = useAppStore.getState();
+      const id = addTask('Daily review');
+      setTaskRecurrence(id, { type: 'daily' });
+
+      useAppStore.getState().toggleTask(id);
+      useAppStore.getState().toggleTask(useAppStore.getState().tasks[1].id);
+      useAppStore.getState().toggleTask(id);
+
+      const tasks = useAppStore.getState().tasks;
+      expect(tasks).toHaveLength(3);
+      expect(tasks[0]).toMatchObject({ id, isCompleted: false });
+      expect(tasks[0].recurrence).toBeUndefined();
+      expect(tasks.filter((t) => t.recurrence)).toHaveLength(1);
+    });
+
+    it('never adds an occurrence before tomorrow, and schedules undated tasks', () => {
+      const { addTask, setTaskRecurrence } = useAppStore.getState();
+      const late = addTask('Language practice', { scheduledFor: '2025-11-20' });
+      const undated = addTask('Daily review');
+      setTaskRecurrence(late, { type: 'interval', days: 2 });
+      setTaskRecurrence(undated, { type: 'daily' });
+
+      useAppStore.getState().completeTask(late);
+      useAppStore.getState().completeTask(undated);
+
+      const open = useAppStore.getState().tasks.filter((t) => !t.isCompleted);
+      expect(open.map((t) => [t.title, t.scheduledFor, t.dueDate])).toEqual([
+        ['Language practice', '2025-11-30', undefined],
+        ['Daily review', '2025-11-29', undefined],
+      ]);
+    });
+
+    it('cleans up rules with invalid days before storing them', () => {
+      const { addTask, setTaskRecurrence } = useAppStore.getState();
+      const weekly = addTask('Stand-up');
+      const interval = addTask('Backup', { recurrence: { type: 'interval', days: Number.NaN } });
+      setTaskRecurrence(weekly, { type: 'weekly', days: [9, 3, -1, 2.5, 3, 1] });
+
+      const [stored, unset] = useAppStore.getState().tasks;
+      expect(stored.recurrence).toEqual({ type: 'weekly', days: [1, 3] });
+      expect(unset.recurrence).toBeUndefined();
+
+      setTaskRecurrence(weekly, { type: 'interval', days: 0.2 });
+      expect(useAppStore.getState().tasks[0].recurrence).toEqual({ type: 'interval', days: 1 });
+      expect(useAppStore.getState().tasks[1].id).toBe(interval);
+    });
+
+    it('still finds a next occurrence for invalid rules from saved or synced state', () => {
+      // A weekly rule naming no real weekday falls a week later instead of looping
+      expect(getNextOccurrence({ type: 'weekly', days: [7, 8] }, '2025-11-28')).toBe('2025-12-05');
+      expect(getNextOccurrence({ type: 'interval', days: Number.NaN }, '2025-11-28')).toBe('2025-11-29');
+
+      useAppStore.setState({
+        tasks: [
+          {
+            id: 'broken',
+            title: 'Synced from elsewhere',
+            isCompleted: false,
+            createdAt: '2025-11-01',
+            spentPomodoros: 0,
+            recurrence: { type: 'weekly', days: [42] },
+          },
+        ],
+      });
+      useAppStore.getState().completeTask('broken');
+      expect(useAppStore.getState().tasks[1].scheduledFor).toBe('2025-12-05');
+    });
   });
 });
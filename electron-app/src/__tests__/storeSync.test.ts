@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { startStoreSync } from '../services/storeSync';
+import { useAppStore } from '../stores/useAppStore';
+import { useSettingsStore } from '../stores/useSettingsStore';
+import { resetStore } from './testUtils';
+import type { StoreSyncMessage } from '../types/electron';
+
+describe('storeSync', () => {
+  const originalAPI = window.electronAPI;
+  let onStoreSync: (message: StoreSyncMessage) => void;
+  let stopSync: () => void;
+  const syncStore = vi.fn().mockResolvedValue(undefined);
+
+  beforeEach(async () => {
+    resetStore();
+    vi.clearAllMocks();
+    window.electronAPI = {
+      ...originalAPI,
+      syncStore,
+      getStoreSnapshot: vi.fn().mockResolvedValue({ windowId: 2, messages: [] }),
+      onStoreSync: vi.fn((callback) => {
+        onStoreSync = callback;
+        return () => {};
+      }),
+    };
+    stopSync = startStoreSync();
+    // Let the snapshot request resolve
+    await Promise.resolve();
+  });
+
+  afterEach(() => {
+    stopSync();
+    window.electronAPI = originalAPI;
+  });
+
+  it('sends changed app keys to the other windows', () => {
+    useAppStore.getState().setIsPlaying(true);
+
+    expect(syncStore).toHaveBeenCalledWith(
+      expect.objectContaining({ store: 'app', patch: { isPlaying: true } })
+    );
+  });
+
+  it('sends settings changes but not the timer', () => {
+    useSettingsStore.getState().setReminderInterval(10);
+    useAppStore.getState().setTimerRunning(true);
+
+    expect(syncStore).toHaveBeenCalledTimes(1);
+    expect(syncStore).toHaveBeenCalledWith(
+      expect.objectContaining({ store: 'settings', patch: { reminderInterval: 10 } })
+    );
+  });
+
+  it('applies remote changes without echoing them back', () => {
+    onStoreSync({ store: 'app', patch: { currentTrackIndex: 3 }, updatedAt: Date.now(), origin: 1 });
+
+    expect(useAppStore.getState().currentTrackIndex).toBe(3);
+    expect(syncStore).not.toHaveBeenCalled();
+  });
+
+  it('ignores a remote change older than the local one', () => {
+    const before = Date.now() - 1000;
+    useAppStore.getState().setVolume(0.2);
+
+    onStoreSync({ store: 'app', patch: { volume: 0.9 }, updatedAt: before, origin: 1 });
+
+    expect(useAppStore.getState().volume).toBe(0.2);
+  });
+
+  it('breaks timestamp ties in favour of the higher window id', () => {
+    const updatedAt = Date.now() + 1000;
+    onStoreSync({ store: 'app', patch: { volume: 0.4 }, updatedAt, origin: 3 });
+    onStoreSync({ store: 'app', patch: { volume: 0.6 }, updatedAt, origin: 1 });
+
+    expect(useAppStore.getState().volume).toBe(0.4);
+  });
+});
@@ -1,7 +1,7 @@
 import React, { ReactElement } from 'react';
 import { render, RenderOptions } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
-import { useAppStore } from '../stores/useAppStore';
+import { useAppStore, migrateStatsByDate } from '../stores/useAppStore';
 import { Task, TimerMode } from '../types';
 
 // Helper to get today's date as YYYY-MM-DD
@@ -28,6 +28,7 @@ export function resetStore() {
     },
     tasks: [],
     currentTaskId: null,
+    projects: [],
     showPomodoroPopup: false,
     notes: '',
     currentTrackIndex: 0,
@@ -36,6 +37,10 @@ export function resetStore() {
     isLoggedIn: false,
     currentUser: null,
     statsByDate: {},
+    savedTimer: null,
+    activeSessionId: null,
+    interruptedTimer: null,
+    awayPeriod: null,
   });
 }
 
@@ -76,13 +81,15 @@ export function setupTimerState(overrides: {
 }
 
 // Helper to set up stats
+// Accepts stats in the pre-focus-time shape too (25 min per pomodoro)
 export function setupStats(statsByDate: Record<string, {
   date: string;
   pomodoros: number;
   completedTasks: number;
   hasNote: boolean;
+  focusSeconds?: number;
 }>) {
-  useAppStore.setState({ statsByDate });
+  useAppStore.setState({ statsByDate: migrateStatsByDate(statsByDate) });
 }
 
 // Helper to show pomodoro popup
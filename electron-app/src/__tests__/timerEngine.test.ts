@@ -0,0 +1,351 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import {
+  createTimerEngine,
+  createTimerState,
+  getFlowBreakSeconds,
+  getNextTimerMode,
+  AUTO_START_GRACE_SECONDS,
+  DEFAULT_TIMER_CONFIG,
+  TimerConfig,
+  TimerEngine,
+  TimerState,
+} from '../../electron/timerEngine';
+import { BREATHING_DURATION_SECONDS, COOLDOWN_DURATION_SECONDS } from '../types';
+
+describe('timerEngine', () => {
+  let state: TimerState;
+  let config: TimerConfig;
+  let engine: TimerEngine;
+  const onComplete = vi.fn();
+  const notify = vi.fn();
+
+  // Options changed the way a host passes them on: in place, then reconfigure
+  function configure(changes: Partial<TimerConfig>) {
+    const previous = config;
+    config = { ...config, ...changes };
+    engine.reconfigure(previous);
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-11-28T12:00:00'));
+    config = DEFAULT_TIMER_CONFIG;
+    state = createTimerState(config);
+    engine = createTimerEngine({
+      getState: () => state,
+      setState: (next) => {
+        state = next;
+      },
+      getConfig: () => config,
+      onComplete,
+      notify,
+    });
+  });
+
+  afterEach(() => {
+    engine.dispose();
+    vi.useRealTimers();
+  });
+
+  it('starts the countdown and ticks down', () => {
+    engine.start();
+
+    expect(state.isRunning).toBe(true);
+
+    vi.advanceTimersByTime(10_000);
+    expect(state.secondsLeft).toBe(25 * 60 - 10);
+  });
+
+  it('pauses with the remaining seconds preserved', () => {
+    engine.start();
+    vi.advanceTimersByTime(65_000);
+    engine.pause();
+
+    expect(state.isRunning).toBe(false);
+    expect(state.targetEndTime).toBeNull();
+    expect(state.secondsLeft).toBe(25 * 60 - 65);
+    expect(state.elapsedSeconds).toBe(65);
+  });
+
+  it('completes exactly once and counts the pomodoro', () => {
+    state = { ...state, secondsLeft: 3 };
+
+    engine.start();
+    vi.advanceTimersByTime(10_000);
+
+    expect(state.isRunning).toBe(false);
+    expect(state.completedPomodoros).toBe(1);
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(onComplete).toHaveBeenCalledWith('pomodoro', 3);
+    expect(notify).toHaveBeenCalledTimes(1);
+    expect(notify).toHaveBeenCalledWith(expect.objectContaining({ title: 'Focus session complete!', silent: true }));
+  });
+
+  it('moves on to the next block without starting it by default', () => {
+    state = { ...state, secondsLeft: 2 };
+
+    engine.start();
+    vi.advanceTimersByTime(10_000);
+
+    expect(state.mode).toBe('shortBreak');
+    expect(state.secondsLeft).toBe(5 * 60);
+    expect(state.isRunning).toBe(false);
+    expect(state.autoStartAt).toBeNull();
+  });
+
+  it('auto-starts the break after the grace countdown', () => {
+    configure({ autoStartBreaks: true });
+    state = { ...state, secondsLeft: 1 };
+
+    engine.start();
+    vi.advanceTimersByTime(1_000);
+    expect(state.autoStartAt).toBe(Date.now() + AUTO_START_GRACE_SECONDS * 1000);
+    expect(state.isRunning).toBe(false);
+
+    vi.advanceTimersByTime(AUTO_START_GRACE_SECONDS * 1000);
+    expect(state.mode).toBe('shortBreak');
+    expect(state.isRunning).toBe(true);
+    expect(state.autoStartAt).toBeNull();
+  });
+
+  it('keeps the next block idle when the auto-start is cancelled', () => {
+    configure({ autoStartBreaks: true });
+    state = { ...state, secondsLeft: 1 };
+
+    engine.start();
+    vi.advanceTimersByTime(1_000);
+    engine.cancelAutoStart();
+    vi.advanceTimersByTime(AUTO_START_GRACE_SECONDS * 1000);
+
+    expect(state.mode).toBe('shortBreak');
+    expect(state.isRunning).toBe(false);
+    expect(state.autoStartAt).toBeNull();
+  });
+
+  it('starts a custom-length block in the requested mode', () => {
+    engine.start({ mode: 'shortBreak', durationSeconds: 120 });
+
+    expect(state.mode).toBe('shortBreak');
+    expect(state.secondsLeft).toBe(120);
+    expect(state.isRunning).toBe(true);
+  });
+
+  it('picks up a restored block where it left off, without the warm-up', () => {
+    configure({ phaseDurations: { ...config.phaseDurations, warmup: 30 } });
+    state = { ...state, secondsLeft: 15 * 60 };
+
+    engine.start({ elapsedSeconds: 10 * 60 });
+
+    expect(state.phase).toBeNull();
+    expect(state.isRunning).toBe(true);
+    expect(state.elapsedSeconds).toBe(10 * 60);
+    expect(state.runStartedAt).toBe(Date.now() - 10 * 60 * 1000);
+  });
+
+  it('skips to a long break every fourth pomodoro', () => {
+    state = { ...state, completedPomodoros: 3 };
+    engine.skip();
+    expect(state.mode).toBe('longBreak');
+
+    engine.skip();
+    expect(state.mode).toBe('pomodoro');
+
+    state = { ...state, completedPomodoros: 1 };
+    engine.skip();
+    expect(state.mode).toBe('shortBreak');
+  });
+
+  it('uses the configured break lengths and long-break cadence', () => {
+    configure({
+      durations: { ...config.durations, shortBreak: 7 * 60, longBreak: 20 * 60 },
+      longBreakInterval: 2,
+    });
+
+    engine.skip();
+    expect(state.mode).toBe('shortBreak');
+    expect(state.secondsLeft).toBe(7 * 60);
+
+    state = { ...state, mode: 'pomodoro', secondsLeft: 60, completedPomodoros: 1 };
+    engine.skip();
+    expect(state.mode).toBe('longBreak');
+    expect(state.secondsLeft).toBe(20 * 60);
+  });
+
+  it('gives an idle, untouched block the new length when reconfigured', () => {
+    configure({ durations: { ...config.durations, pomodoro: 50 * 60 } });
+    expect(state.secondsLeft).toBe(50 * 60);
+
+    engine.start();
+    vi.advanceTimersByTime(60_000);
+    engine.pause();
+    configure({ durations: { ...config.durations, pomodoro: 30 * 60 } });
+    expect(state.secondsLeft).toBe(49 * 60);
+  });
+
+  it('runs the warm-up and breathing phases before the focus countdown', () => {
+    configure({ phaseDurations: { warmup: 30, breathing: BREATHING_DURATION_SECONDS, cooldown: 0 } });
+
+    engine.start();
+    expect(state.phase).toBe('warmup');
+    expect(state.isRunning).toBe(false);
+
+    vi.advanceTimersByTime(30_000);
+    expect(state.phase).toBe('breathing');
+    expect(state.phaseSecondsLeft).toBe(BREATHING_DURATION_SECONDS);
+
+    vi.advanceTimersByTime(BREATHING_DURATION_SECONDS * 1000);
+    expect(state.phase).toBeNull();
+    expect(state.isRunning).toBe(true);
+    expect(state.secondsLeft).toBe(25 * 60);
+  });
+
+  it('skips the warm-up when resuming or starting during it', () => {
+    configure({ phaseDurations: { ...config.phaseDurations, warmup: 30 } });
+
+    engine.start();
+    engine.start();
+    expect(state.phase).toBeNull();
+    expect(state.isRunning).toBe(true);
+
+    vi.advanceTimersByTime(60_000);
+    engine.pause();
+    engine.start();
+    expect(state.phase).toBeNull();
+    expect(state.isRunning).toBe(true);
+  });
+
+  it('refuses to pause a running pomodoro under Mind Lock, from anywhere', () => {
+    configure({ mindLock: true });
+
+    engine.start();
+    vi.advanceTimersByTime(60_000);
+    engine.pause();
+    expect(state.isRunning).toBe(true);
+
+    // Breaks and flow can still be paused
+    engine.skip();
+    engine.start();
+    engine.pause();
+    expect(state.mode).toBe('shortBreak');
+    expect(state.isRunning).toBe(false);
+  });
+
+  it('cancels the warm-up when paused before focus begins', () => {
+    configure({ phaseDurations: { ...config.phaseDurations, warmup: 30 } });
+
+    engine.start();
+    engine.pause();
+    vi.advanceTimersByTime(60_000);
+
+    expect(state.phase).toBeNull();
+    expect(state.isRunning).toBe(false);
+    expect(state.secondsLeft).toBe(25 * 60);
+  });
+
+  it('holds the break for the cool-down after a pomodoro', () => {
+    configure({ phaseDurations: { ...config.phaseDurations, cooldown: COOLDOWN_DURATION_SECONDS } });
+    state = { ...state, secondsLeft: 1 };
+
+    engine.start();
+    vi.advanceTimersByTime(1_000);
+    expect(state.phase).toBe('cooldown');
+    expect(state.mode).toBe('pomodoro');
+
+    vi.advanceTimersByTime(COOLDOWN_DURATION_SECONDS * 1000);
+    expect(state.phase).toBeNull();
+    expect(state.mode).toBe('shortBreak');
+  });
+
+  it('ends a phase early on skipPhase', () => {
+    configure({ phaseDurations: { ...config.phaseDurations, cooldown: COOLDOWN_DURATION_SECONDS } });
+    state = { ...state, secondsLeft: 1 };
+
+    engine.start();
+    vi.advanceTimersByTime(1_000);
+    engine.skipPhase();
+
+    expect(state.phase).toBeNull();
+    expect(state.mode).toBe('shortBreak');
+  });
+
+  it('counts up in flow mode and keeps the time across a pause', () => {
+    engine.start({ mode: 'flow' });
+    vi.advanceTimersByTime(90_000);
+    engine.pause();
+
+    expect(state.elapsedSeconds).toBe(90);
+
+    vi.advanceTimersByTime(60_000);
+    engine.start();
+    vi.advanceTimersByTime(30_000);
+
+    expect(state.mode).toBe('flow');
+    expect(state.isRunning).toBe(true);
+    expect(state.elapsedSeconds).toBe(120);
+  });
+
+  it('gives discarded time back to the countdown, up to what has run', () => {
+    engine.start();
+    vi.advanceTimersByTime(10 * 60_000);
+    engine.discardTime(4 * 60);
+    vi.advanceTimersByTime(1_000);
+
+    expect(state.isRunning).toBe(true);
+    expect(state.secondsLeft).toBe(19 * 60 - 1);
+
+    engine.pause();
+    engine.discardTime(60 * 60);
+
+    expect(state.elapsedSeconds).toBe(0);
+    expect(state.secondsLeft).toBe(25 * 60);
+  });
+
+  it('finishes a flow block on skip with a break sized to it', () => {
+    engine.start({ mode: 'flow' });
+    vi.advanceTimersByTime(50 * 60_000);
+    engine.skip();
+
+    expect(onComplete).toHaveBeenCalledWith('flow', 50 * 60);
+    expect(state.mode).toBe('shortBreak');
+    expect(state.secondsLeft).toBe(10 * 60);
+    expect(state.suggestedBreakSeconds).toBe(10 * 60);
+  });
+
+  it('nudges once at the flow soft cap without stopping', () => {
+    configure({ flowSoftCapSeconds: 60 });
+
+    engine.start({ mode: 'flow' });
+    vi.advanceTimersByTime(3 * 60_000);
+
+    expect(state.isRunning).toBe(true);
+    expect(state.elapsedSeconds).toBe(180);
+    expect(notify).toHaveBeenCalledTimes(1);
+    expect(notify).toHaveBeenCalledWith(expect.objectContaining({ title: 'Still in flow' }));
+  });
+
+  it('stops the clock and a pending auto-start on dispose', () => {
+    configure({ autoStartBreaks: true });
+    state = { ...state, secondsLeft: 1 };
+
+    engine.start();
+    vi.advanceTimersByTime(1_000);
+    engine.dispose();
+    vi.advanceTimersByTime(AUTO_START_GRACE_SECONDS * 1000);
+
+    expect(state.mode).toBe('shortBreak');
+    expect(state.isRunning).toBe(false);
+  });
+
+  it('keeps flow breaks between five and thirty minutes', () => {
+    expect(getFlowBreakSeconds(60)).toBe(5 * 60);
+    expect(getFlowBreakSeconds(100 * 60)).toBe(20 * 60);
+    expect(getFlowBreakSeconds(4 * 60 * 60)).toBe(30 * 60);
+  });
+
+  it('counts a just-finished pomodoro once when picking the next break', () => {
+    const finishedFourth = { mode: 'pomodoro' as const, secondsLeft: 0, completedPomodoros: 4 };
+    expect(getNextTimerMode(finishedFourth, 4)).toBe('longBreak');
+    expect(getNextTimerMode({ ...finishedFourth, completedPomodoros: 5 }, 4)).toBe('shortBreak');
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  startTimerRestore,
+  resumeInterruptedTimer,
+  recordInterruptedTimer,
+  discardInterruptedTimer,
+  onInterruptedTimerResolved,
+} from '../services/timerRestore';
+import { timerService } from '../services/timerService';
+import { useAppStore, getTodaySummary } from '../stores/useAppStore';
+import { useSettingsStore } from '../stores/useSettingsStore';
+import { SavedTimer } from '../types';
+import { resetStore, createTestTask, setupStoreWithTasks } from './testUtils';
+
+const NOW = new Date('2025-11-28T12:00:00').getTime();
+
+function savedPomodoro(overrides: Partial<SavedTimer> = {}): SavedTimer {
+  return {
+    mode: 'pomodoro',
+    targetEndTime: NOW + 10 * 60_000,
+    runStartedAt: NOW - 15 * 60_000,
+    sessionId: 'session-1',
+    taskId: null,
+    savedAt: NOW - 60_000,
+    ...overrides,
+  };
+}
+
+describe('timerRestore', () => {
+  let stopRestore: (() => void) | null = null;
+
+  beforeEach(() => {
+    resetStore();
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    stopRestore?.();
+    stopRestore = null;
+    timerService.reset();
+    useSettingsStore.getState().resetToDefaults();
+    vi.useRealTimers();
+  });
+
+  it('saves the running block and clears it when the timer stops', () => {
+    stopRestore = startTimerRestore();
+    useAppStore.setState({ activeSessionId: 'session-1' });
+
+    timerService.start();
+    const { savedTimer } = useAppStore.getState();
+    expect(savedTimer).toMatchObject({
+      mode: 'pomodoro',
+      targetEndTime: NOW + 25 * 60_000,
+      runStartedAt: NOW,
+      sessionId: 'session-1',
+    });
+
+    timerService.pause();
+    expect(useAppStore.getState().savedTimer).toBeNull();
+  });
+
+  it('offers a saved block from the last run on launch', () => {
+    useAppStore.setState({ savedTimer: savedPomodoro() });
+    stopRestore = startTimerRestore();
+
+    expect(useAppStore.getState().interruptedTimer).toEqual(savedPomodoro());
+  });
+
+  it('resumes a countdown with its original end time', () => {
+    const resolved = vi.fn();
+    const unsubscribe = onInterruptedTimerResolved(resolved);
+    useAppStore.setState({ savedTimer: savedPomodoro() });
+    stopRestore = startTimerRestore();
+
+    resumeInterruptedTimer();
+
+    const { timer, interruptedTimer, savedTimer } = useAppStore.getState();
+    expect(resolved).toHaveBeenCalledWith(savedPomodoro(), 'resumed');
+    expect(interruptedTimer).toBeNull();
+    expect(timer.isRunning).toBe(true);
+    expect(timer.phase ?? null).toBeNull();
+    expect(timer.secondsLeft).toBe(10 * 60);
+    expect(timer.targetEndTime).toBe(NOW + 10 * 60_000);
+    expect(savedTimer?.runStartedAt).toBe(NOW - 15 * 60_000);
+
+    unsubscribe();
+  });
+
+  it('resumes flow from the time focused before the app closed', () => {
+    useAppStore.setState({
+      savedTimer: savedPomodoro({ mode: 'flow', targetEndTime: null, savedAt: NOW - 60 * 60_000, runStartedAt: NOW - 100 * 60_000 }),
+    });
+    stopRestore = startTimerRestore();
+
+    resumeInterruptedTimer();
+
+    const { timer } = useAppStore.getState();
+    expect(timer.mode).toBe('flow');
+    expect(timer.isRunning).toBe(true);
+    expect(timer.elapsedSeconds).toBe(40 * 60);
+  });
+
+  it('records a pomodoro that ran out while the app was closed', () => {
+    const task = createTestTask({ spentPomodoros: 1 });
+    setupStoreWithTasks([task]);
+    useAppStore.setState({
+      savedTimer: savedPomodoro({ targetEndTime: NOW - 5 * 60_000, taskId: task.id }),
+    });
+    stopRestore = startTimerRestore();
+
+    resumeInterruptedTimer(); // falls back to recording once the end time has passed
+
+    const state = useAppStore.getState();
+    expect(state.interruptedTimer).toBeNull();
+    expect(state.savedTimer).toBeNull();
+    expect(state.timer.isRunning).toBe(false);
+    expect(getTodaySummary(state.statsByDate).pomodoros).toBe(1);
+    expect(state.tasks[0].spentPomodoros).toBe(2);
+  });
+
+  it('records flow minutes and discards without touching stats', () => {
+    useAppStore.setState({
+      savedTimer: savedPomodoro({ mode: 'flow', targetEndTime: null, savedAt: NOW - 60_000, runStartedAt: NOW - 31 * 60_000 }),
+    });
+    stopRestore = startTimerRestore();
+    recordInterruptedTimer();
+    expect(getTodaySummary(useAppStore.getState().statsByDate).minutes).toBe(30);
+
+    useAppStore.setState({ savedTimer: savedPomodoro(), statsByDate: {} });
+    stopRestore();
+    stopRestore = startTimerRestore();
+    discardInterruptedTimer();
+
+    const state = useAppStore.getState();
+    expect(state.interruptedTimer).toBeNull();
+    expect(state.savedTimer).toBeNull();
+    expect(state.statsByDate).toEqual({});
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { timerService, getBreathingStep } from '../services/timerService';
+import { useAppStore } from '../stores/useAppStore';
+import { TimerMode, TimerState } from '../types';
+import { DEFAULT_TIMER_CONFIG } from '../../electron/timerEngine';
+import { resetStore, setupTimerState } from './testUtils';
+
+const RUNNING: TimerState = {
+  mode: 'pomodoro',
+  secondsLeft: 25 * 60,
+  isRunning: true,
+  completedPomodoros: 0,
+  targetEndTime: 1_000_000,
+};
+
+describe('timerService', () => {
+  beforeEach(() => {
+    resetStore();
+    vi.clearAllMocks();
+  });
+
+  it('paces breathing as inhale, hold, exhale', () => {
+    expect(getBreathingStep(0)).toEqual({ step: 'inhale', secondsLeft: 4 });
+    expect(getBreathingStep(5)).toEqual({ step: 'hold', secondsLeft: 3 });
+    expect(getBreathingStep(9)).toEqual({ step: 'exhale', secondsLeft: 5 });
+    expect(getBreathingStep(14)).toEqual({ step: 'inhale', secondsLeft: 4 });
+  });
+
+  describe('with the main-process timer', () => {
+    const originalAPI = window.electronAPI;
+    const timerStart = vi.fn();
+    const timerSkip = vi.fn();
+    let broadcastState: (state: TimerState) => void;
+    let broadcastComplete: (mode: TimerMode, elapsedSeconds: number) => void;
+    let disconnect: () => void;
+
+    beforeEach(() => {
+      timerStart.mockResolvedValue(RUNNING);
+      timerSkip.mockRejectedValue(new Error('IPC closed'));
+      window.electronAPI = {
+        ...originalAPI,
+        timerStart,
+        timerSkip,
+        timerGetState: vi.fn().mockResolvedValue({ ...RUNNING, isRunning: false }),
+        onTimerState: vi.fn((callback) => {
+          broadcastState = callback;
+          return () => {};
+        }),
+        onTimerComplete: vi.fn((callback) => {
+          broadcastComplete = callback;
+          return () => {};
+        }),
+        onTimerAway: vi.fn(() => () => {}),
+      };
+      disconnect = timerService.connect();
+    });
+
+    afterEach(() => {
+      disconnect();
+      window.electronAPI = originalAPI;
+    });
+
+    it('sends commands to main and resolves with the state they leave', async () => {
+      const state = await timerService.start({ mode: 'pomodoro', durationSeconds: 25 * 60 });
+
+      expect(timerStart).toHaveBeenCalledWith({ mode: 'pomodoro', durationSeconds: 25 * 60 });
+      expect(state).toEqual(RUNNING);
+    });
+
+    it('mirrors the state and completions main broadcasts', async () => {
+      const onComplete = vi.fn();
+      const unsubscribe = timerService.onComplete(onComplete);
+
+      await vi.waitFor(() => expect(useAppStore.getState().timer.targetEndTime).toBe(RUNNING.targetEndTime));
+      broadcastState({ ...RUNNING, secondsLeft: 90 });
+      broadcastComplete('pomodoro', 25 * 60);
+
+      expect(useAppStore.getState().timer).toMatchObject({ isRunning: true, secondsLeft: 90 });
+      expect(onComplete).toHaveBeenCalledWith('pomodoro', 25 * 60);
+      unsubscribe();
+    });
+
+    it('answers a failed command with the mirrored state', async () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      setupTimerState({ secondsLeft: 600 });
+
+      const state = await timerService.skip();
+
+      expect(state.secondsLeft).toBe(600);
+      expect(consoleError).toHaveBeenCalled();
+      consoleError.mockRestore();
+    });
+  });
+
+  // Outside Electron the timer engine from the main process runs over the store
+  describe('browser fallback', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2025-11-28T12:00:00'));
+    });
+
+    afterEach(() => {
+      timerService.configure(DEFAULT_TIMER_CONFIG);
+      timerService.reset();
+      vi.useRealTimers();
+    });
+
+    it('runs the shared engine over the store', async () => {
+      const onComplete = vi.fn();
+      const unsubscribe = timerService.onComplete(onComplete);
+      setupTimerState({ secondsLeft: 3 });
+
+      const started = await timerService.start();
+      expect(started.isRunning).toBe(true);
+
+      vi.advanceTimersByTime(10_000);
+
+      const { timer } = useAppStore.getState();
+      expect(timer.mode).toBe('shortBreak');
+      expect(timer.completedPomodoros).toBe(1);
+      expect(onComplete).toHaveBeenCalledTimes(1);
+      expect(onComplete).toHaveBeenCalledWith('pomodoro', 3);
+      expect(window.Notification).toHaveBeenCalledWith('Focus session complete!', expect.anything());
+      unsubscribe();
+    });
+
+    it('uses the config it is given, like the main process does', async () => {
+      await timerService.configure({
+        ...DEFAULT_TIMER_CONFIG,
+        durations: { pomodoro: 50 * 60, shortBreak: 10 * 60, longBreak: 30 * 60, flow: 0 },
+      });
+      expect(useAppStore.getState().timer.secondsLeft).toBe(50 * 60);
+
+      await timerService.skip();
+      expect(useAppStore.getState().timer.secondsLeft).toBe(10 * 60);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { getRecentTasks, startTrayMenuSync } from '../services/trayMenuSync';
+import { useAppStore } from '../stores/useAppStore';
+import { resetStore, createTestTask, setupStoreWithTasks, getTodayDate } from './testUtils';
+import { DayActivity } from '../types';
+
+function dayWithSessions(date: string, sessions: { taskId: string; endedAt: string }[]): DayActivity {
+  return {
+    date,
+    pomodoros: sessions.length,
+    focusSeconds: sessions.length * 25 * 60,
+    sessions: sessions.map((s) => ({ mode: 'pomodoro', focusSeconds: 25 * 60, ...s })),
+    completedTasks: 0,
+    hasNote: false,
+  };
+}
+
+describe('trayMenuSync', () => {
+  const originalAPI = window.electronAPI;
+  const updateTrayTasks = vi.fn().mockResolvedValue(undefined);
+  let onTraySelectTask: (taskId: string) => void;
+  let stopSync: () => void;
+
+  beforeEach(() => {
+    resetStore();
+    vi.clearAllMocks();
+    window.electronAPI = {
+      ...originalAPI,
+      updateTrayTasks,
+      onTraySelectTask: vi.fn((callback) => {
+        onTraySelectTask = callback;
+        return () => {};
+      }),
+    };
+  });
+
+  afterEach(() => {
+    stopSync?.();
+    window.electronAPI = originalAPI;
+  });
+
+  it('orders open tasks by last focus session, then newest first', () => {
+    const older = createTestTask({ id: 'older' });
+    const focused = createTestTask({ id: 'focused' });
+    const done = createTestTask({ id: 'done', isCompleted: true });
+    const newest = createTestTask({ id: 'newest' });
+    const today = getTodayDate();
+
+    const recent = getRecentTasks([older, focused, done, newest], {
+      [today]: dayWithSessions(today, [
+        { taskId: 'done', endedAt: `${today}T10:00:00.000Z` },
+        { taskId: 'focused', endedAt: `${today}T09:00:00.000Z` },
+      ]),
+    });
+
+    expect(recent.map((t) => t.id)).toEqual(['focused', 'newest', 'older']);
+  });
+
+  it('sends the current and recent tasks, and only when they change', () => {
+    const task = createTestTask({ id: 'task-1', title: 'Write report' });
+    setupStoreWithTasks([task], task.id);
+
+    stopSync = startTrayMenuSync();
+    expect(updateTrayTasks).toHaveBeenCalledWith({
+      currentTask: { id: 'task-1', title: 'Write report' },
+      recentTasks: [{ id: 'task-1', title: 'Write report' }],
+    });
+
+    useAppStore.getState().setIsPlaying(true);
+    useAppStore.getState().setCurrentTaskId('task-1');
+    expect(updateTrayTasks).toHaveBeenCalledTimes(1);
+
+    useAppStore.getState().addTask('Plan week');
+    expect(updateTrayTasks).toHaveBeenCalledTimes(2);
+  });
+
+  it('selects a task picked in the tray', () => {
+    const task = createTestTask({ id: 'task-1' });
+    setupStoreWithTasks([task]);
+
+    stopSync = startTrayMenuSync();
+    onTraySelectTask('task-1');
+    expect(useAppStore.getState().currentTaskId).toBe('task-1');
+
+    onTraySelectTask('missing');
+    expect(useAppStore.getState().currentTaskId).toBe('task-1');
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { useSessionTracker } from '../hooks/useSessionTracker';
+import { timerService } from '../services/timerService';
+import { useAppStore } from '../stores/useAppStore';
+import { TimerMode } from '../types';
+import type { TimerCompletion } from '../../electron/timerEngine';
+import { resetStore, createTestTask, setupStoreWithTasks, getTodayDate } from './testUtils';
+
+describe('useSessionTracker', () => {
+  const originalAPI = window.electronAPI;
+  let reportComplete: (mode: TimerMode, elapsedSeconds: number) => void;
+  let disconnect: () => void;
+  // Completions main holds until the main window takes them
+  let pending: TimerCompletion[];
+  const timerTakeCompletions = vi.fn(async () => pending.splice(0));
+
+  beforeEach(() => {
+    resetStore();
+    vi.clearAllMocks();
+    pending = [];
+    // Completions come from the main-process timer, wherever it was started
+    window.electronAPI = {
+      ...originalAPI,
+      timerStart: vi.fn().mockResolvedValue(undefined),
+      timerGetState: vi.fn().mockReturnValue(new Promise(() => {})),
+      timerTakeCompletions,
+      onTimerState: vi.fn(() => () => {}),
+      onTimerComplete: vi.fn((callback) => {
+        reportComplete = callback;
+        return () => {};
+      }),
+      onTimerAway: vi.fn(() => () => {}),
+    };
+    disconnect = timerService.connect();
+  });
+
+  const completeBlock = async (mode: TimerMode, elapsedSeconds: number) => {
+    await act(async () => {
+      pending.push({ mode, elapsedSeconds });
+      reportComplete(mode, elapsedSeconds);
+    });
+  };
+
+  afterEach(() => {
+    disconnect();
+    window.electronAPI = originalAPI;
+  });
+
+  it('records a finished pomodoro without a task', async () => {
+    renderHook(() => useSessionTracker());
+
+    await completeBlock('pomodoro', 25 * 60);
+
+    expect(useAppStore.getState().statsByDate[getTodayDate()]).toMatchObject({
+      pomodoros: 1,
+      focusSeconds: 25 * 60,
+    });
+  });
+
+  it('records a pomodoro against the current task with the Timer tab closed', async () => {
+    const task = createTestTask({ title: 'Write report' });
+    setupStoreWithTasks([task], task.id);
+    useAppStore.setState({ selectedTab: 'tasks' });
+    renderHook(() => useSessionTracker());
+
+    await completeBlock('pomodoro', 20 * 60);
+
+    const today = useAppStore.getState().statsByDate[getTodayDate()];
+    expect(today.pomodoros).toBe(1);
+    expect(today.sessions).toEqual([expect.objectContaining({ taskId: task.id, focusSeconds: 20 * 60 })]);
+    // Crediting the pomodoro to the task is left to the Timer's popup
+    expect(useAppStore.getState().tasks[0].spentPomodoros).toBe(0);
+  });
+
+  it('records a block that ended while no window was listening', async () => {
+    // e.g. the main window was reloading, or not loaded yet after starting hidden
+    pending.push({ mode: 'pomodoro', elapsedSeconds: 25 * 60 }, { mode: 'flow', elapsedSeconds: 40 * 60 });
+
+    await act(async () => {
+      renderHook(() => useSessionTracker());
+    });
+
+    expect(useAppStore.getState().statsByDate[getTodayDate()]).toMatchObject({
+      pomodoros: 1,
+      focusSeconds: 65 * 60,
+    });
+    expect(pending).toEqual([]);
+  });
+
+  it('records nothing for breaks', async () => {
+    renderHook(() => useSessionTracker());
+    await completeBlock('shortBreak', 5 * 60);
+
+    expect(useAppStore.getState().statsByDate).toEqual({});
+  });
+
+  it('leaves completions to the main window in secondary windows', async () => {
+    renderHook(() => useSessionTracker(false));
+    await completeBlock('pomodoro', 25 * 60);
+
+    expect(timerTakeCompletions).not.toHaveBeenCalled();
+    expect(useAppStore.getState().statsByDate).toEqual({});
+  });
+});
@@ -1,6 +1,6 @@
 import { useState, useMemo } from 'react';
 import { useAppStore, getMonthSummaries } from '../../stores/useAppStore';
-import { DaySummary } from '../../types';
+import { DaySummary, Project } from '../../types';
 
 // ─────────────────────────────────────────────────────────────
 // Types
@@ -109,6 +109,7 @@ function calculateRangeInsights(
   const filtered = summaries.filter((s) => s.date >= startDate && s.date <= endDate);
 
   let totalPomodoros = 0;
+  let totalFocusMinutes = 0;
   let totalTasksCompleted = 0;
   let daysWithNotes = 0;
   let activeDays = 0;
@@ -116,10 +117,11 @@ function calculateRangeInsights(
 
   filtered.forEach((s) => {
     totalPomodoros += s.pomodoros;
+    totalFocusMinutes += s.focusMinutes;
     totalTasksCompleted += s.completedTasks.length;
     if (s.hasNote) daysWithNotes++;
 
-    const isActive = s.pomodoros > 0 || s.completedTasks.length > 0 || s.hasNote;
+    const isActive = s.pomodoros > 0 || s.focusMinutes > 0 || s.completedTasks.length > 0 || s.hasNote;
     if (isActive) activeDays++;
 
     const score = s.pomodoros + s.completedTasks.length * 2 + (s.hasNote ? 1 : 0);
@@ -130,7 +132,7 @@ function calculateRangeInsights(
 
   return {
     totalPomodoros,
-    totalFocusMinutes: totalPomodoros * 25,
+    totalFocusMinutes,
     totalTasksCompleted,
     daysWithNotes,
     activeDays,
@@ -284,6 +286,7 @@ function DayCell({ cell, isSelected, isToday, isInWeekRange, filter, onClick }:
   const intensity = getIntensityTier(score, filter);
 
   const hasCompletedTasks = summary && summary.completedTasks.length > 0;
+  const hasDueTasks = summary && summary.dueTasks.length > 0;
   const hasNote = summary?.hasNote;
   const hasPomodoros = summary && summary.pomodoros > 0;
 
@@ -301,8 +304,9 @@ function DayCell({ cell, isSelected, isToday, isInWeekRange, filter, onClick }:
     <>
       {summary.pomodoros > 0 && <div>{summary.pomodoros} pomodoro{summary.pomodoros !== 1 ? 's' : ''}</div>}
       {summary.completedTasks.length > 0 && <div>{summary.completedTasks.length} task{summary.completedTasks.length !== 1 ? 's' : ''}</div>}
+      {summary.dueTasks.length > 0 && <div>{summary.dueTasks.length} due</div>}
       {summary.hasNote && <div>Has note</div>}
-      {!summary.pomodoros && !summary.completedTasks.length && !summary.hasNote && <div>No activity</div>}
+      {!summary.pomodoros && !summary.completedTasks.length && !summary.dueTasks.length && !summary.hasNote && <div>No activity</div>}
     </>
   ) : (
     <div>No activity</div>
@@ -333,7 +337,7 @@ function DayCell({ cell, isSelected, isToday, isInWeekRange, filter, onClick }:
         </span>
 
         {/* Activity indicators */}
-        {inCurrentMonth && (hasPomodoros || hasCompletedTasks || hasNote) && (
+        {inCurrentMonth && (hasPomodoros || hasCompletedTasks || hasDueTasks || hasNote) && (
           <div className="absolute bottom-1.5 left-1.5 right-1.5 flex items-center justify-center gap-0.5">
             {hasPomodoros && (
               <div className="w-1.5 h-1.5 rounded-full bg-rose-400/80" title="Focus session" />
@@ -341,6 +345,9 @@ function DayCell({ cell, isSelected, isToday, isInWeekRange, filter, onClick }:
             {hasCompletedTasks && (
               <div className="w-1.5 h-1.5 rounded-full bg-emerald-400/80" title="Tasks completed" />
             )}
+            {hasDueTasks && (
+              <div className="w-1.5 h-1.5 rounded-full bg-orange-400/80" title="Tasks due" />
+            )}
             {hasNote && (
               <div className="w-1.5 h-1.5 rounded-full bg-blue-400/80" title="Has note" />
             )}
@@ -396,6 +403,39 @@ function FilterControl({ filter, onChange }: FilterControlProps) {
   );
 }
 
+// ─────────────────────────────────────────────────────────────
+// Project Filter Component
+// ─────────────────────────────────────────────────────────────
+
+interface ProjectFilterProps {
+  projects: Project[];
+  projectId: string | null;
+  onChange: (projectId: string | null) => void;
+}
+
+function ProjectFilter({ projects, projectId, onChange }: ProjectFilterProps) {
+  const selected = projects.find((p) => p.id === projectId);
+
+  return (
+    <div className="flex items-center gap-2">
+      {selected && <span className="w-2 h-2 rounded-full" style={{ backgroundColor: selected.color }} />}
+      <select
+        value={projectId ?? ''}
+        onChange={(e) => onChange(e.target.value || null)}
+        aria-label="Project"
+        className="bg-white/[0.04] text-[11px] text-white/70 rounded-lg px-2 py-1 focus:outline-none focus:ring-1 focus:ring-accent/50"
+      >
+        <option value="">All projects</option>
+        {projects.map((project) => (
+          <option key={project.id} value={project.id}>
+            {project.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
 // ─────────────────────────────────────────────────────────────
 // Insights Panel Component
 // ─────────────────────────────────────────────────────────────
@@ -512,7 +552,7 @@ function DetailsPanel({ date, summary, onOpenNotes }: DetailsPanelProps) {
       <div className="mb-4">
         <h3 className="text-sm font-semibold text-white/90">{formatDateLong(date)}</h3>
         <p className="text-xs text-white/40 mt-1">
-          {summary?.pomodoros ?? 0} pomodoros · ~{summary?.focusMinutes ?? 0} min · {summary?.completedTasks.length ?? 0} tasks · {summary?.hasNote ? 'Note' : 'No note'}
+          {summary?.pomodoros ?? 0} pomodoros · {summary?.focusMinutes ?? 0} min · {summary?.completedTasks.length ?? 0} tasks · {summary?.hasNote ? 'Note' : 'No note'}
         </p>
       </div>
 
@@ -540,6 +580,25 @@ function DetailsPanel({ date, summary, onOpenNotes }: DetailsPanelProps) {
         )}
       </div>
 
+      {/* Due Tasks */}
+      {summary && summary.dueTasks.length > 0 && (
+        <div className="mb-4">
+          <h4 className="text-xs font-medium text-white/50 uppercase tracking-wider mb-2">
+            Due Tasks
+          </h4>
+          <ul className="space-y-1.5">
+            {summary.dueTasks.map((task) => (
+              <li key={task.id} className="flex items-start gap-2 text-xs text-white/70">
+                <svg className="w-3 h-3 text-orange-400/70 mt-0.5 flex-shrink-0" fill="currentColor" viewBox="0 0 24 24">
+                  <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm0 18c-4.42 0-8-3.58-8-8s3.58-8 8-8 8 3.58 8 8-3.58 8-8 8z" />
+                </svg>
+                <span className="leading-relaxed">{task.title}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Daily Note */}
       <div>
         <h4 className="text-xs font-medium text-white/50 uppercase tracking-wider mb-2">
@@ -584,7 +643,7 @@ function DetailsPanel({ date, summary, onOpenNotes }: DetailsPanelProps) {
 // ─────────────────────────────────────────────────────────────
 
 export function CalendarView() {
-  const { statsByDate, tasks, setSelectedTab } = useAppStore();
+  const { statsByDate, tasks, projects, setSelectedTab } = useAppStore();
 
   const today = getTodayDate();
   const [viewYear, setViewYear] = useState(() => new Date().getFullYear());
@@ -593,11 +652,15 @@ export function CalendarView() {
   const [filter, setFilter] = useState<CalendarFilter>('all');
   const [rangeMode, setRangeMode] = useState<RangeMode>('month');
   const [showInsights, setShowInsights] = useState(true);
+  const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null);
+
+  // Focus and tasks can be narrowed to one project (dropped if it's deleted)
+  const projectId = projects.some((p) => p.id === selectedProjectId) ? selectedProjectId : null;
 
   // Generate month summaries
   const summaries = useMemo(
-    () => getMonthSummaries(viewYear, viewMonth, statsByDate, tasks, hasNoteForDate),
-    [viewYear, viewMonth, statsByDate, tasks]
+    () => getMonthSummaries(viewYear, viewMonth, statsByDate, tasks, hasNoteForDate, projectId),
+    [viewYear, viewMonth, statsByDate, tasks, projectId]
   );
 
   // Calculate week range for current selected date
@@ -616,14 +679,14 @@ export function CalendarView() {
       // Check if week spans into previous month
       const [startYear, startMonth] = weekRange.start.split('-').map(Number);
       if (startMonth - 1 !== viewMonth || startYear !== viewYear) {
-        const prevSummaries = getMonthSummaries(startYear, startMonth - 1, statsByDate, tasks, hasNoteForDate);
+        const prevSummaries = getMonthSummaries(startYear, startMonth - 1, statsByDate, tasks, hasNoteForDate, projectId);
         allSummaries.push(...prevSummaries);
       }
 
       // Check if week spans into next month
       const [endYear, endMonth] = weekRange.end.split('-').map(Number);
       if (endMonth - 1 !== viewMonth || endYear !== viewYear) {
-        const nextSummaries = getMonthSummaries(endYear, endMonth - 1, statsByDate, tasks, hasNoteForDate);
+        const nextSummaries = getMonthSummaries(endYear, endMonth - 1, statsByDate, tasks, hasNoteForDate, projectId);
         allSummaries.push(...nextSummaries);
       }
 
@@ -633,7 +696,7 @@ export function CalendarView() {
     const firstDayOfMonth = `${viewYear}-${String(viewMonth + 1).padStart(2, '0')}-01`;
     const lastDayOfMonth = `${viewYear}-${String(viewMonth + 1).padStart(2, '0')}-${new Date(viewYear, viewMonth + 1, 0).getDate()}`;
     return calculateRangeInsights(summaries, firstDayOfMonth, lastDayOfMonth);
-  }, [rangeMode, summaries, weekRange, viewYear, viewMonth, statsByDate, tasks]);
+  }, [rangeMode, summaries, weekRange, viewYear, viewMonth, statsByDate, tasks, projectId]);
 
   // Create a map for quick lookup
   const summariesByDate = useMemo(() => {
@@ -755,6 +818,13 @@ export function CalendarView() {
             <FilterControl filter={filter} onChange={setFilter} />
           </div>
 
+          {/* Project filter, once there are projects */}
+          {projects.length > 0 && (
+            <div className="flex justify-end">
+              <ProjectFilter projects={projects} projectId={projectId} onChange={setSelectedProjectId} />
+            </div>
+          )}
+
           {/* Month Navigation Header */}
           <div className="flex items-center justify-between">
             <button
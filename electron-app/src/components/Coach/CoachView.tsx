@@ -1,6 +1,6 @@
 import { useState, useEffect, useRef } from 'react';
 import { useCoachStore } from '../../stores/useCoachStore';
-import { useAppStore, getTodaySummary } from '../../stores/useAppStore';
+import { useAppStore, getTodaySummary, getTaskEstimate } from '../../stores/useAppStore';
 import { aiCoachService } from '../../services/aiCoach';
 import { executeAction, getActionDescription } from '../../services/coachActionDispatcher';
 import { AIMessage, AIInsight, CoachResponse, CoachAction } from '../../types';
@@ -298,6 +298,7 @@ export function CoachView() {
         title: t.title,
         isCompleted: t.isCompleted,
         spentPomodoros: t.spentPomodoros,
+        estimatedPomodoros: getTaskEstimate(t),
       })),
       {
         pomodoros: todaySummary.pomodoros,
@@ -9,8 +9,11 @@ export function CollapsedView() {
   const { setIsCollapsed, isPlaying, setIsPlaying } = useAppStore();
   const timer = useTimer();
 
-  // Check if actively focusing (timer running in pomodoro/focus mode with time remaining)
-  const isBreathing = timer.isRunning && timer.mode === 'pomodoro' && timer.secondsLeft > 0;
+  // Check if actively focusing (timer running in pomodoro/focus mode with time remaining,
+  // a running flow block, or the guided breathing phase before a pomodoro)
+  const isBreathing = (timer.isRunning && timer.mode === 'pomodoro' && timer.secondsLeft > 0)
+    || (timer.isRunning && timer.mode === 'flow')
+    || timer.phase === 'breathing';
 
   const handleExpand = async () => {
     if (window.electronAPI) {
@@ -37,7 +40,9 @@ export function CollapsedView() {
             className={`w-2 h-2 rounded-full ${
               timer.isRunning
                 ? 'bg-green-400 shadow-lg shadow-green-400/50'
-                : 'bg-white/30'
+                : timer.phase
+                  ? 'bg-amber-400 shadow-lg shadow-amber-400/50'
+                  : 'bg-white/30'
             }`}
           />
 
@@ -48,7 +53,7 @@ export function CollapsedView() {
 
           {/* Mode pill */}
           <span className="text-xs font-medium text-white/50 bg-white/10 px-2 py-1 rounded-full">
-            {TIMER_MODE_LABELS[timer.mode]}
+            {timer.phaseLabel ?? TIMER_MODE_LABELS[timer.mode]}
           </span>
         </div>
 
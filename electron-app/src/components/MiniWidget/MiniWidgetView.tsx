@@ -1,206 +1,322 @@
-import { useEffect } from 'react';
-import { useAppStore, MUSIC_TRACKS } from '../../stores/useAppStore';
-import { audioPlayer } from '../../services/audioPlayer';
-
-// Format seconds as MM:SS
-function formatTime(seconds: number): string {
-  const mins = Math.floor(seconds / 60);
-  const secs = seconds % 60;
-  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
-}
+import { useEffect, useState } from 'react';
+import { useAppStore, MUSIC_TRACKS, getTaskEstimate } from '../../stores/useAppStore';
+import { useTimer } from '../../hooks/useTimer';
+import { AutoStartCountdown } from '../Timer/AutoStartCountdown';
+import type { MiniWidgetLayout } from '../../types/electron';
 
 // Timer mode display names
 const MODE_LABELS: Record<string, string> = {
   pomodoro: 'Focus',
   shortBreak: 'Short Break',
   longBreak: 'Long Break',
+  flow: 'Flow',
 };
 
-export function MiniWidgetView() {
-  const {
-    timer,
-    setTimerRunning,
-    setTimerSeconds,
-    setTargetEndTime,
-    tasks,
-    currentTaskId,
-    isPlaying,
-    setIsPlaying,
-    currentTrackIndex,
-    volume,
-  } = useAppStore();
+// Same colors as the main timer ring
+const MODE_COLORS: Record<string, string> = {
+  pomodoro: '#6366f1',
+  shortBreak: '#22c55e',
+  longBreak: '#3b82f6',
+  flow: '#f97316',
+};
 
-  const currentTask = tasks.find((t) => t.id === currentTaskId);
+const PHASE_COLORS: Record<string, string> = {
+  warmup: '#f59e0b',
+  breathing: '#14b8a6',
+  cooldown: '#a855f7',
+};
+
+type Timer = ReturnType<typeof useTimer>;
+
+function PlayPauseIcon({ isPlaying, className }: { isPlaying: boolean; className: string }) {
+  return isPlaying ? (
+    <svg className={className} fill="currentColor" viewBox="0 0 24 24">
+      <path d="M6 4h4v16H6V4zm8 0h4v16h-4V4z" />
+    </svg>
+  ) : (
+    <svg className={`${className} ml-0.5`} fill="currentColor" viewBox="0 0 24 24">
+      <path d="M8 5v14l11-7z" />
+    </svg>
+  );
+}
+
+// Layout menu (also on right-click anywhere) and close buttons
+function WidgetHeader() {
+  return (
+    <div className="flex items-center justify-between px-3 py-2 border-b border-zinc-800/50">
+      <span className="text-xs font-medium text-zinc-400">FocusFlow</span>
+      <div className="flex items-center gap-1.5">
+        <button
+          onClick={() => window.electronAPI?.miniWidgetShowMenu()}
+          title="Layout"
+          className="no-drag w-5 h-5 rounded-full bg-zinc-800 hover:bg-zinc-700 flex items-center justify-center transition-colors"
+        >
+          <svg className="w-3 h-3 text-zinc-400" fill="currentColor" viewBox="0 0 24 24">
+            <circle cx="5" cy="12" r="2" />
+            <circle cx="12" cy="12" r="2" />
+            <circle cx="19" cy="12" r="2" />
+          </svg>
+        </button>
+        <button
+          onClick={() => window.electronAPI?.closeMiniWidget()}
+          className="no-drag w-5 h-5 rounded-full bg-zinc-800 hover:bg-zinc-700 flex items-center justify-center transition-colors"
+        >
+          <svg className="w-3 h-3 text-zinc-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function WidgetFooter() {
+  return (
+    <div className="px-3 py-1.5 border-t border-zinc-800/50 bg-zinc-900/50">
+      <span className="text-[10px] text-zinc-600">
+        ⌘+Shift+F to toggle · right-click for layouts
+      </span>
+    </div>
+  );
+}
+
+// Play/pause, the time and what's below it (auto-start countdown, phase or task)
+function TimerSection({ timer, taskTitle }: { timer: Timer; taskTitle?: string }) {
+  return (
+    <div className="flex items-center gap-3">
+      <button
+        onClick={timer.toggle}
+        className="no-drag w-12 h-12 rounded-full bg-accent hover:bg-accent/90 flex items-center justify-center transition-colors shrink-0"
+      >
+        <PlayPauseIcon isPlaying={timer.isRunning} className="w-5 h-5 text-white" />
+      </button>
+
+      <div className="flex-1 min-w-0">
+        <div className="flex items-baseline gap-2">
+          <span className="text-2xl font-bold text-white tabular-nums">
+            {timer.formattedTime}
+          </span>
+          <span className="text-xs font-medium text-zinc-400">
+            {timer.phaseLabel ?? MODE_LABELS[timer.mode]}
+          </span>
+        </div>
+        {timer.autoStartAt ? (
+          <div className="mt-0.5">
+            <AutoStartCountdown mode={timer.mode} autoStartAt={timer.autoStartAt} compact />
+          </div>
+        ) : timer.phase ? (
+          <button
+            onClick={timer.skipPhase}
+            className="no-drag text-xs text-zinc-400 hover:text-zinc-200 transition-colors"
+          >
+            {timer.phase === 'cooldown' ? 'Done reflecting' : 'Skip to focus'}
+          </button>
+        ) : taskTitle !== undefined ? (
+          <div className="text-xs text-zinc-500 truncate">
+            {taskTitle ? (
+              <span className="text-zinc-400">{taskTitle}</span>
+            ) : (
+              <span className="text-zinc-500">No task selected</span>
+            )}
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
+function MusicSection() {
+  const { isPlaying, setIsPlaying, currentTrackIndex } = useAppStore();
   const currentTrack = MUSIC_TRACKS[currentTrackIndex];
 
-  // Sync audio player with state
-  useEffect(() => {
-    if (isPlaying) {
-      audioPlayer.play(currentTrackIndex, volume);
-    } else {
-      audioPlayer.pause();
-    }
-  }, [isPlaying, currentTrackIndex, volume]);
+  return (
+    <div className="flex items-center gap-3">
+      {/* Playback itself happens in the main window; toggling here syncs over IPC */}
+      <button
+        onClick={() => setIsPlaying(!isPlaying)}
+        className={`no-drag w-10 h-10 rounded-full flex items-center justify-center transition-colors shrink-0 ${
+          isPlaying
+            ? 'bg-accent/20 text-accent hover:bg-accent/30'
+            : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'
+        }`}
+      >
+        <PlayPauseIcon isPlaying={isPlaying} className="w-4 h-4" />
+      </button>
 
-  useEffect(() => {
-    audioPlayer.setVolume(volume);
-  }, [volume]);
+      {/* Track Info */}
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <svg className="w-3.5 h-3.5 text-zinc-500 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3" />
+          </svg>
+          <span className="text-sm font-medium text-white truncate">
+            {currentTrack?.name ?? 'Unknown Track'}
+          </span>
+        </div>
+        <span className="text-xs text-zinc-500">
+          {currentTrack?.category ?? 'Music'}
+        </span>
+      </div>
 
-  // Timer tick effect
+      {/* Visual indicator when playing */}
+      {isPlaying && (
+        <div className="flex items-center gap-0.5">
+          <div className="w-0.5 h-3 bg-accent rounded-full animate-pulse" style={{ animationDelay: '0ms' }} />
+          <div className="w-0.5 h-4 bg-accent rounded-full animate-pulse" style={{ animationDelay: '150ms' }} />
+          <div className="w-0.5 h-2 bg-accent rounded-full animate-pulse" style={{ animationDelay: '300ms' }} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+// The current task with its pomodoro and subtask progress
+function TaskSection() {
+  const { tasks, currentTaskId } = useAppStore();
+  const task = tasks.find((t) => t.id === currentTaskId);
+
+  if (!task) {
+    return <div className="text-sm text-zinc-500">No task selected</div>;
+  }
+
+  const subtasks = task.subtasks ?? [];
+  const doneSubtasks = subtasks.filter((s) => s.isCompleted).length;
+  const nextSubtask = subtasks.find((s) => !s.isCompleted);
+  const estimate = getTaskEstimate(task);
+
+  return (
+    <div className="min-w-0">
+      <div className="text-sm font-medium text-white truncate">{task.title}</div>
+      <div className="flex items-center gap-2 text-xs text-zinc-500 mt-0.5">
+        <span>
+          {estimate
+            ? `${task.spentPomodoros}/${estimate} pomodoros`
+            : `${task.spentPomodoros} ${task.spentPomodoros === 1 ? 'pomodoro' : 'pomodoros'}`}
+        </span>
+        {subtasks.length > 0 && (
+          <span>
+            • {doneSubtasks}/{subtasks.length} subtasks
+          </span>
+        )}
+      </div>
+      {nextSubtask && (
+        <div className="text-xs text-zinc-400 truncate mt-1">Next: {nextSubtask.title}</div>
+      )}
+    </div>
+  );
+}
+
+// Just the progress ring; click it to start or pause
+function RingLayout({ timer }: { timer: Timer }) {
+  const radius = 44;
+  const circumference = 2 * Math.PI * radius;
+  const color = timer.phase ? PHASE_COLORS[timer.phase] : MODE_COLORS[timer.mode];
+
+  return (
+    <div className="drag-region w-full h-full bg-zinc-900/90 backdrop-blur-xl rounded-full border border-zinc-700/50 shadow-2xl relative">
+      <svg viewBox="0 0 100 100" className="w-full h-full transform -rotate-90">
+        <circle cx="50" cy="50" r={radius} stroke="rgba(255,255,255,0.1)" strokeWidth="5" fill="none" />
+        <circle
+          cx="50"
+          cy="50"
+          r={radius}
+          stroke={color}
+          strokeWidth="5"
+          fill="none"
+          strokeLinecap="round"
+          strokeDasharray={circumference}
+          strokeDashoffset={circumference * (1 - timer.progress)}
+          className="transition-all duration-500"
+        />
+      </svg>
+      <button
+        onClick={timer.toggle}
+        className="no-drag absolute inset-[22%] rounded-full flex flex-col items-center justify-center hover:bg-white/5 transition-colors"
+      >
+        <span className="text-[15vw] leading-none font-light font-mono text-white tabular-nums">
+          {timer.formattedTime}
+        </span>
+        <span className="text-[6vw] text-zinc-400 mt-1">
+          {timer.phaseLabel ?? MODE_LABELS[timer.mode]}
+        </span>
+      </button>
+    </div>
+  );
+}
+
+// One line: play/pause, the time and the task
+function PillLayout({ timer, taskTitle }: { timer: Timer; taskTitle?: string }) {
+  const color = timer.phase ? PHASE_COLORS[timer.phase] : MODE_COLORS[timer.mode];
+
+  return (
+    <div className="drag-region w-full h-full bg-zinc-900/90 backdrop-blur-xl rounded-full border border-zinc-700/50 shadow-2xl flex items-center gap-2.5 pl-1.5 pr-3">
+      <button
+        onClick={timer.toggle}
+        className="no-drag w-9 h-9 rounded-full bg-accent hover:bg-accent/90 flex items-center justify-center transition-colors shrink-0"
+      >
+        <PlayPauseIcon isPlaying={timer.isRunning} className="w-4 h-4 text-white" />
+      </button>
+      <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: color }} />
+      <span className="text-lg font-semibold text-white tabular-nums shrink-0">{timer.formattedTime}</span>
+      <span className="flex-1 min-w-0 text-xs text-zinc-400 truncate">
+        {timer.phaseLabel ?? taskTitle ?? MODE_LABELS[timer.mode]}
+      </span>
+    </div>
+  );
+}
+
+export function MiniWidgetView() {
+  const timer = useTimer();
+  const { tasks, currentTaskId } = useAppStore();
+  const [layout, setLayout] = useState<MiniWidgetLayout>('timerMusic');
+
+  const currentTask = tasks.find((t) => t.id === currentTaskId);
+
+  // The layout is chosen per display in the main process
   useEffect(() => {
-    if (!timer.isRunning) return;
-
-    const interval = setInterval(() => {
-      if (timer.targetEndTime) {
-        const remaining = Math.max(0, Math.round((timer.targetEndTime - Date.now()) / 1000));
-        setTimerSeconds(remaining);
-
-        if (remaining === 0) {
-          setTimerRunning(false);
-          setTargetEndTime(null);
-        }
-      }
-    }, 100);
-
-    return () => clearInterval(interval);
-  }, [timer.isRunning, timer.targetEndTime, setTimerSeconds, setTimerRunning, setTargetEndTime]);
-
-  const handleTimerToggle = () => {
-    if (timer.isRunning) {
-      // Pause
-      setTimerRunning(false);
-      setTargetEndTime(null);
-    } else {
-      // Start
-      const targetTime = Date.now() + timer.secondsLeft * 1000;
-      setTargetEndTime(targetTime);
-      setTimerRunning(true);
-    }
-  };
+    const api = window.electronAPI;
+    if (!api?.miniWidgetGetLayout) return;
+    api.miniWidgetGetLayout().then(setLayout).catch(console.error);
+    return api.onMiniWidgetLayout(setLayout);
+  }, []);
 
-  const handleMusicToggle = () => {
-    setIsPlaying(!isPlaying);
+  const handleContextMenu = (e: React.MouseEvent) => {
+    e.preventDefault();
+    window.electronAPI?.miniWidgetShowMenu();
   };
 
-  const handleClose = () => {
-    if (window.electronAPI) {
-      window.electronAPI.closeMiniWidget();
-    }
-  };
+  if (layout === 'ring' || layout === 'pill') {
+    return (
+      <div className="w-full h-full p-2" onContextMenu={handleContextMenu}>
+        {layout === 'ring' ? (
+          <RingLayout timer={timer} />
+        ) : (
+          <PillLayout timer={timer} taskTitle={currentTask?.title} />
+        )}
+      </div>
+    );
+  }
 
   return (
-    <div className="w-full h-full p-2">
+    <div className="w-full h-full p-2" onContextMenu={handleContextMenu}>
       <div className="drag-region w-full h-full bg-zinc-900/90 backdrop-blur-xl rounded-2xl border border-zinc-700/50 shadow-2xl flex flex-col overflow-hidden">
-        {/* Header - drag area with close button */}
-        <div className="flex items-center justify-between px-3 py-2 border-b border-zinc-800/50">
-          <span className="text-xs font-medium text-zinc-400">FocusFlow</span>
-          <button
-            onClick={handleClose}
-            className="no-drag w-5 h-5 rounded-full bg-zinc-800 hover:bg-zinc-700 flex items-center justify-center transition-colors"
-          >
-            <svg className="w-3 h-3 text-zinc-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
-            </svg>
-          </button>
-        </div>
+        <WidgetHeader />
 
-        {/* Content */}
-        <div className="flex-1 flex flex-col p-3 gap-3">
-          {/* Timer Section */}
-          <div className="flex items-center gap-3">
-            {/* Play/Pause Button */}
-            <button
-              onClick={handleTimerToggle}
-              className="no-drag w-12 h-12 rounded-full bg-accent hover:bg-accent/90 flex items-center justify-center transition-colors shrink-0"
-            >
-              {timer.isRunning ? (
-                <svg className="w-5 h-5 text-white" fill="currentColor" viewBox="0 0 24 24">
-                  <path d="M6 4h4v16H6V4zm8 0h4v16h-4V4z" />
-                </svg>
-              ) : (
-                <svg className="w-5 h-5 text-white ml-0.5" fill="currentColor" viewBox="0 0 24 24">
-                  <path d="M8 5v14l11-7z" />
-                </svg>
-              )}
-            </button>
-
-            {/* Timer Info */}
-            <div className="flex-1 min-w-0">
-              <div className="flex items-baseline gap-2">
-                <span className="text-2xl font-bold text-white tabular-nums">
-                  {formatTime(timer.secondsLeft)}
-                </span>
-                <span className="text-xs font-medium text-zinc-400">
-                  {MODE_LABELS[timer.mode]}
-                </span>
-              </div>
-              <div className="text-xs text-zinc-500 truncate">
-                {currentTask ? (
-                  <span className="text-zinc-400">{currentTask.title}</span>
-                ) : (
-                  <span className="text-zinc-500">No task selected</span>
-                )}
-              </div>
-            </div>
+        {layout === 'timerTask' ? (
+          <div className="flex-1 flex flex-col p-3 gap-3">
+            <TimerSection timer={timer} />
+            <div className="h-px bg-zinc-800/50" />
+            <TaskSection />
           </div>
-
-          {/* Divider */}
-          <div className="h-px bg-zinc-800/50" />
-
-          {/* Music Section */}
-          <div className="flex items-center gap-3">
-            {/* Play/Pause Button */}
-            <button
-              onClick={handleMusicToggle}
-              className={`no-drag w-10 h-10 rounded-full flex items-center justify-center transition-colors shrink-0 ${
-                isPlaying
-                  ? 'bg-accent/20 text-accent hover:bg-accent/30'
-                  : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'
-              }`}
-            >
-              {isPlaying ? (
-                <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
-                  <path d="M6 4h4v16H6V4zm8 0h4v16h-4V4z" />
-                </svg>
-              ) : (
-                <svg className="w-4 h-4 ml-0.5" fill="currentColor" viewBox="0 0 24 24">
-                  <path d="M8 5v14l11-7z" />
-                </svg>
-              )}
-            </button>
-
-            {/* Track Info */}
-            <div className="flex-1 min-w-0">
-              <div className="flex items-center gap-2">
-                <svg className="w-3.5 h-3.5 text-zinc-500 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                  <path strokeLinecap="round" strokeLinejoin="round" d="M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3" />
-                </svg>
-                <span className="text-sm font-medium text-white truncate">
-                  {currentTrack?.name ?? 'Unknown Track'}
-                </span>
-              </div>
-              <span className="text-xs text-zinc-500">
-                {currentTrack?.category ?? 'Music'}
-              </span>
-            </div>
-
-            {/* Visual indicator when playing */}
-            {isPlaying && (
-              <div className="flex items-center gap-0.5">
-                <div className="w-0.5 h-3 bg-accent rounded-full animate-pulse" style={{ animationDelay: '0ms' }} />
-                <div className="w-0.5 h-4 bg-accent rounded-full animate-pulse" style={{ animationDelay: '150ms' }} />
-                <div className="w-0.5 h-2 bg-accent rounded-full animate-pulse" style={{ animationDelay: '300ms' }} />
-              </div>
-            )}
+        ) : (
+          <div className="flex-1 flex flex-col p-3 gap-3">
+            <TimerSection timer={timer} taskTitle={currentTask?.title ?? ''} />
+            <div className="h-px bg-zinc-800/50" />
+            <MusicSection />
           </div>
-        </div>
+        )}
 
-        {/* Footer hint */}
-        <div className="px-3 py-1.5 border-t border-zinc-800/50 bg-zinc-900/50">
-          <span className="text-[10px] text-zinc-600">
-            ⌘+Shift+F to toggle
-          </span>
-        </div>
+        <WidgetFooter />
       </div>
     </div>
   );
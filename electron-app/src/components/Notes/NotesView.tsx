@@ -1,4 +1,11 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  DAILY_NOTE_CHANGED_EVENT,
+  formatDateKey,
+  getDatesWithNotes,
+  loadNoteFromStorage,
+  saveNoteToStorage,
+} from '../../services/dailyNotes';
 
 // ─────────────────────────────────────────────────────────────
 // Helper functions for date handling
@@ -9,14 +16,6 @@ function getTodayDateString(): string {
   return formatDateKey(new Date());
 }
 
-/** Formats a Date object to "YYYY-MM-DD" */
-function formatDateKey(date: Date): string {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  return `${year}-${month}-${day}`;
-}
-
 /** Parses "YYYY-MM-DD" to Date object */
 function parseDateKey(dateString: string): Date {
   const [year, month, day] = dateString.split('-').map(Number);
@@ -95,47 +94,6 @@ function getCalendarDays(year: number, month: number): { date: string; isCurrent
   return days;
 }
 
-// ─────────────────────────────────────────────────────────────
-// localStorage helpers
-// ─────────────────────────────────────────────────────────────
-
-const STORAGE_PREFIX = 'notes:';
-
-function loadNoteFromStorage(dateKey: string): string {
-  try {
-    return localStorage.getItem(STORAGE_PREFIX + dateKey) || '';
-  } catch {
-    return '';
-  }
-}
-
-function saveNoteToStorage(dateKey: string, content: string): void {
-  try {
-    localStorage.setItem(STORAGE_PREFIX + dateKey, content);
-  } catch {
-    // localStorage not available - fail gracefully
-  }
-}
-
-/** Gets all dates that have saved notes */
-function getDatesWithNotes(): Set<string> {
-  const dates = new Set<string>();
-  try {
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key?.startsWith(STORAGE_PREFIX)) {
-        const value = localStorage.getItem(key);
-        if (value && value.trim().length > 0) {
-          dates.add(key.replace(STORAGE_PREFIX, ''));
-        }
-      }
-    }
-  } catch {
-    // localStorage not available
-  }
-  return dates;
-}
-
 // ─────────────────────────────────────────────────────────────
 // Types
 // ─────────────────────────────────────────────────────────────
@@ -305,6 +263,19 @@ export function NotesView() {
 
   const saveTimerRef = useRef<NodeJS.Timeout | null>(null);
 
+  // Asked for another date while showing (e.g. by a capyfocus://open/notes link)
+  useEffect(() => {
+    const handleTargetDate = () => {
+      const targetDate = sessionStorage.getItem('notes-target-date');
+      if (targetDate) {
+        sessionStorage.removeItem('notes-target-date');
+        setSelectedDate(targetDate);
+      }
+    };
+    window.addEventListener('notes-target-date', handleTargetDate);
+    return () => window.removeEventListener('notes-target-date', handleTargetDate);
+  }, []);
+
   // Load note when date changes
   useEffect(() => {
     const loaded = loadNoteFromStorage(selectedDate);
@@ -312,6 +283,21 @@ export function NotesView() {
     setSaveStatus(loaded ? 'saved' : 'idle');
   }, [selectedDate]);
 
+  // Reload when the note is written from outside (e.g. the control API);
+  // the outside write wins over a pending save
+  useEffect(() => {
+    const handleNoteChanged = (e: Event) => {
+      if ((e as CustomEvent<string>).detail !== selectedDate) return;
+      if (saveTimerRef.current) {
+        clearTimeout(saveTimerRef.current);
+      }
+      setNoteText(loadNoteFromStorage(selectedDate));
+      setSaveStatus('saved');
+    };
+    window.addEventListener(DAILY_NOTE_CHANGED_EVENT, handleNoteChanged);
+    return () => window.removeEventListener(DAILY_NOTE_CHANGED_EVENT, handleNoteChanged);
+  }, [selectedDate]);
+
   // Debounced save function
   const debouncedSave = useCallback((text: string, dateKey: string) => {
     if (saveTimerRef.current) {
@@ -0,0 +1,119 @@
+import { useEffect, useRef, useState } from 'react';
+import { useAppStore } from '../../stores/useAppStore';
+import { parseQuickCapture, startFocusOnTask, QUICK_CAPTURE_HINT } from '../../services/quickCapture';
+
+function formatDueDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+}
+
+// Frameless quick-entry window summoned by the quick add shortcut. Enter adds
+// the task, Cmd/Ctrl+Enter (or "Start now") also starts focusing on it.
+export function QuickCaptureView() {
+  const addTask = useAppStore((state) => state.addTask);
+  const [text, setText] = useState('');
+  const [startNow, setStartNow] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const parsed = parseQuickCapture(text);
+
+  // The window is hidden rather than closed, so start fresh each time it's shown
+  useEffect(() => {
+    const handleFocus = () => {
+      setText('');
+      setStartNow(false);
+      inputRef.current?.focus();
+    };
+    window.addEventListener('focus', handleFocus);
+    return () => window.removeEventListener('focus', handleFocus);
+  }, []);
+
+  const close = () => {
+    window.electronAPI?.closeQuickCapture();
+  };
+
+  const handleSubmit = (e: React.FormEvent, start = startNow) => {
+    e.preventDefault();
+    if (!parsed) return;
+
+    const taskId = addTask(parsed.title, parsed.details);
+    if (start) {
+      startFocusOnTask(taskId);
+    }
+    setText('');
+    setStartNow(false);
+    close();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      close();
+    } else if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      handleSubmit(e, true);
+    }
+  };
+
+  const { estimatedPomodoros, dueDate, subtasks } = parsed?.details ?? {};
+
+  return (
+    <div className="w-full h-full p-2">
+      <form
+        onSubmit={handleSubmit}
+        className="drag-region w-full h-full bg-zinc-900/90 backdrop-blur-xl rounded-2xl border border-zinc-700/50 shadow-2xl flex flex-col justify-between px-4 py-3"
+      >
+        <div className="flex items-center gap-3">
+          <svg className="w-5 h-5 text-accent/70 flex-shrink-0" fill="currentColor" viewBox="0 0 24 24">
+            <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm5 11h-4v4h-2v-4H7v-2h4V7h2v4h4v2z" />
+          </svg>
+          <input
+            ref={inputRef}
+            autoFocus
+            type="text"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Add a task..."
+            className="no-drag flex-1 bg-transparent text-base text-white placeholder-white/35 focus:outline-none min-w-0"
+          />
+        </div>
+
+        <div className="flex items-center justify-between gap-3">
+          {/* What the inline syntax picked up, or a reminder of it */}
+          <div className="flex items-center gap-1.5 min-w-0 overflow-hidden text-[11px]">
+            {estimatedPomodoros || dueDate || subtasks ? (
+              <>
+                {estimatedPomodoros && (
+                  <span className="px-1.5 py-0.5 rounded bg-white/10 text-white/70">
+                    {estimatedPomodoros} {estimatedPomodoros === 1 ? 'pomodoro' : 'pomodoros'}
+                  </span>
+                )}
+                {dueDate && (
+                  <span className="px-1.5 py-0.5 rounded bg-white/10 text-white/70">
+                    Due {formatDueDate(dueDate)}
+                  </span>
+                )}
+                {subtasks && (
+                  <span className="px-1.5 py-0.5 rounded bg-white/10 text-white/70">
+                    {subtasks.length} {subtasks.length === 1 ? 'subtask' : 'subtasks'}
+                  </span>
+                )}
+              </>
+            ) : (
+              <span className="text-white/30 truncate">{QUICK_CAPTURE_HINT}</span>
+            )}
+          </div>
+
+          <label className="no-drag flex items-center gap-1.5 text-xs text-white/60 cursor-pointer flex-shrink-0">
+            <input
+              type="checkbox"
+              checked={startNow}
+              onChange={(e) => setStartNow(e.target.checked)}
+              className="accent-accent"
+            />
+            Start now
+          </label>
+        </div>
+      </form>
+    </div>
+  );
+}
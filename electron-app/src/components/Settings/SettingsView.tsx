@@ -1,7 +1,23 @@
-import { useState } from 'react';
-import { useSettingsStore, FocusDuration, BackgroundSound, Theme, TimerSize } from '../../stores/useSettingsStore';
+import { useEffect, useState } from 'react';
+import { useSettingsStore, FocusDuration, BackgroundSound, Theme, TimerSize, ChimeSound } from '../../stores/useSettingsStore';
 import { useAppStore } from '../../stores/useAppStore';
 import { supabaseService } from '../../services/supabase';
+import { soundEffects, CHIMES } from '../../services/soundEffects';
+import {
+  SHORTCUT_ACTION_LABELS,
+  SHORTCUT_ERROR_MESSAGES,
+  acceleratorFromKeyboardEvent,
+  formatAccelerator,
+} from '../../services/shortcuts';
+import type {
+  ControlApiStatus,
+  MiniWidgetLayout,
+  ShortcutAction,
+  ShortcutStatus,
+  StartupOptions,
+  StartupOptionsStatus,
+} from '../../types/electron';
+import type { AwayBehavior } from '../../types';
 
 // Reusable UI Components
 function Toggle({ enabled, onChange }: { enabled: boolean; onChange: (value: boolean) => void }) {
@@ -72,6 +88,41 @@ function Slider({
   );
 }
 
+function ChimeSelect({
+  value,
+  onChange,
+  volume,
+}: {
+  value: ChimeSound;
+  onChange: (value: ChimeSound) => void;
+  volume: number;
+}) {
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value as ChimeSound)}
+        className="px-2 py-1 bg-white/10 rounded text-white text-sm"
+      >
+        {(Object.keys(CHIMES) as ChimeSound[]).map((chime) => (
+          <option key={chime} value={chime} className="bg-neutral-800">
+            {CHIMES[chime].label}
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={() => soundEffects.play(value, volume)}
+        title="Preview"
+        className="w-7 h-7 rounded-full bg-white/10 hover:bg-white/20 flex items-center justify-center transition-colors"
+      >
+        <svg className="w-3 h-3 text-white/60" fill="currentColor" viewBox="0 0 24 24">
+          <path d="M8 5v14l11-7z" />
+        </svg>
+      </button>
+    </div>
+  );
+}
+
 function SettingRow({
   label,
   description,
@@ -102,11 +153,285 @@ function SectionHeader({ title }: { title: string }) {
   );
 }
 
+const miniWidgetLayoutOptions: { label: string; value: MiniWidgetLayout }[] = [
+  { label: 'Ring', value: 'ring' },
+  { label: 'Task', value: 'timerTask' },
+  { label: 'Music', value: 'timerMusic' },
+  { label: 'Pill', value: 'pill' },
+];
+
+// The main process keeps a layout per display; this edits the one for the
+// display the widget is on (or the cursor's, while it's closed)
+function MiniWidgetLayoutRow() {
+  const [layout, setLayout] = useState<MiniWidgetLayout>('timerMusic');
+
+  useEffect(() => {
+    window.electronAPI.miniWidgetGetLayout().then(setLayout).catch(console.error);
+    return window.electronAPI.onMiniWidgetLayout(setLayout);
+  }, []);
+
+  const handleChange = async (value: MiniWidgetLayout) => {
+    setLayout(await window.electronAPI.miniWidgetSetLayout(value));
+  };
+
+  return (
+    <SettingRow label="Mini Widget" description="Layout for this display">
+      <SegmentedControl options={miniWidgetLayoutOptions} value={layout} onChange={handleChange} />
+    </SettingRow>
+  );
+}
+
+// Click a binding, then press the new combination: Escape cancels,
+// Backspace clears it. Global shortcuts are suspended while recording.
+function KeyboardShortcutsSection() {
+  const [statuses, setStatuses] = useState<ShortcutStatus[]>([]);
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+  const [errors, setErrors] = useState<Partial<Record<ShortcutAction, string>>>({});
+
+  useEffect(() => {
+    window.electronAPI.shortcutsGet().then(setStatuses).catch(console.error);
+  }, []);
+
+  useEffect(() => {
+    if (!recording) return;
+
+    const save = async (accelerator: string) => {
+      try {
+        const result = await window.electronAPI.shortcutsSet(recording, accelerator);
+        setStatuses(result.statuses);
+        setErrors((current) => ({
+          ...current,
+          [recording]: result.ok || !result.error
+            ? undefined
+            : result.conflictsWith
+              ? `Already used by ${SHORTCUT_ACTION_LABELS[result.conflictsWith]}`
+              : SHORTCUT_ERROR_MESSAGES[result.error],
+        }));
+      } catch (error) {
+        console.error('Failed to save shortcut:', error);
+      }
+      setRecording(null);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+
+      const hasModifier = e.metaKey || e.ctrlKey || e.altKey || e.shiftKey;
+      if (e.key === 'Escape' && !hasModifier) {
+        setRecording(null);
+      } else if ((e.key === 'Backspace' || e.key === 'Delete') && !hasModifier) {
+        save('');
+      } else {
+        const accelerator = acceleratorFromKeyboardEvent(e);
+        if (accelerator) save(accelerator);
+      }
+    };
+
+    window.electronAPI.shortcutsSuspend(true).catch(console.error);
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown, true);
+      window.electronAPI.shortcutsSuspend(false).then(setStatuses).catch(console.error);
+    };
+  }, [recording]);
+
+  const handleReset = async () => {
+    setRecording(null);
+    setErrors({});
+    setStatuses(await window.electronAPI.shortcutsReset());
+  };
+
+  return (
+    <>
+      <SectionHeader title="Keyboard Shortcuts" />
+      <div className="bg-white/5 rounded-xl px-4 divide-y divide-white/5">
+        {statuses.map(({ action, accelerator, error }) => {
+          const message = errors[action] ?? (error ? SHORTCUT_ERROR_MESSAGES[error] : undefined);
+          return (
+            <div key={action} className="flex items-center justify-between py-3">
+              <div className="flex-1 mr-4">
+                <span className="text-sm text-white/90">{SHORTCUT_ACTION_LABELS[action]}</span>
+                {message && <p className="text-xs text-red-400 mt-0.5">{message}</p>}
+              </div>
+              <button
+                onClick={() => setRecording(recording === action ? null : action)}
+                className={`min-w-[88px] px-2 py-1 rounded text-sm transition-colors ${
+                  recording === action
+                    ? 'bg-accent text-white'
+                    : 'bg-white/10 hover:bg-white/15 text-white/80'
+                }`}
+              >
+                {recording === action
+                  ? 'Press keys...'
+                  : accelerator
+                    ? formatAccelerator(accelerator)
+                    : <span className="text-white/35">Not set</span>}
+              </button>
+            </div>
+          );
+        })}
+
+        <div className="py-3">
+          <button
+            onClick={handleReset}
+            className="w-full py-2 rounded-lg bg-white/10 hover:bg-white/15 text-white/80 text-sm transition-colors"
+          >
+            Reset Shortcuts
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
+
+// Kept by the main process, which registers the login item with the OS
+function StartupSection() {
+  const [options, setOptions] = useState<StartupOptionsStatus | null>(null);
+
+  useEffect(() => {
+    window.electronAPI.startupOptionsGet().then(setOptions).catch(console.error);
+  }, []);
+
+  const update = async (changes: Partial<StartupOptions>) => {
+    try {
+      setOptions(await window.electronAPI.startupOptionsSet(changes));
+    } catch (error) {
+      console.error('Failed to save startup options:', error);
+    }
+  };
+
+  if (!options) return null;
+
+  return (
+    <>
+      <SectionHeader title="Startup" />
+      <div className="bg-white/5 rounded-xl px-4 divide-y divide-white/5">
+        {options.launchAtLoginSupported && (
+          <SettingRow label="Launch at Login" description="Start CapyFocus when you log in">
+            <Toggle enabled={options.launchAtLogin} onChange={(launchAtLogin) => update({ launchAtLogin })} />
+          </SettingRow>
+        )}
+
+        <SettingRow label="Start Minimized" description="Stay in the tray until you open it">
+          <Toggle enabled={options.startMinimized} onChange={(startMinimized) => update({ startMinimized })} />
+        </SettingRow>
+
+        <SettingRow label="Open Mini Widget" description="Show the mini widget on launch">
+          <Toggle
+            enabled={options.openMiniWidgetOnLaunch}
+            onChange={(openMiniWidgetOnLaunch) => update({ openMiniWidgetOnLaunch })}
+          />
+        </SettingRow>
+      </div>
+    </>
+  );
+}
+
+// Opt-in local REST server (see services/controlApi). The token is kept by
+// the main process; regenerating it locks out every existing script.
+function IntegrationsSection() {
+  const { controlApiEnabled, controlApiPort, setControlApiEnabled, setControlApiPort } = useSettingsStore();
+  const [status, setStatus] = useState<ControlApiStatus | null>(null);
+  const [showToken, setShowToken] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    window.electronAPI.controlApiGetStatus().then(setStatus).catch(console.error);
+    return window.electronAPI.onControlApiStatus(setStatus);
+  }, []);
+
+  const handleCopy = async () => {
+    if (!status) return;
+    try {
+      await navigator.clipboard.writeText(status.token);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error('Failed to copy token:', error);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    setStatus(await window.electronAPI.controlApiRegenerateToken());
+    setCopied(false);
+  };
+
+  const statusText = status?.error
+    ? status.error
+    : status?.running
+      ? `Listening on 127.0.0.1:${status.port}`
+      : 'Stopped';
+
+  return (
+    <>
+      <SectionHeader title="Integrations" />
+      <div className="bg-white/5 rounded-xl px-4 divide-y divide-white/5">
+        <SettingRow label="Local Control API" description="Let scripts and editors control the timer, tasks and notes">
+          <Toggle enabled={controlApiEnabled} onChange={setControlApiEnabled} />
+        </SettingRow>
+
+        {controlApiEnabled && (
+          <>
+            <SettingRow label="Port" description={statusText}>
+              <input
+                type="number"
+                min={1024}
+                max={65535}
+                value={controlApiPort}
+                onChange={(e) => setControlApiPort(Number(e.target.value))}
+                className="w-20 px-2 py-1 bg-white/10 rounded text-white text-sm text-center"
+              />
+            </SettingRow>
+
+            <div className="py-3">
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-sm text-white/90">Token</span>
+                <button
+                  onClick={() => setShowToken(!showToken)}
+                  className="text-xs text-white/50 hover:text-white/80 transition-colors"
+                >
+                  {showToken ? 'Hide' : 'Show'}
+                </button>
+              </div>
+              <code className="block px-2 py-1.5 bg-black/30 rounded text-xs text-white/70 font-mono break-all select-all">
+                {status ? (showToken ? status.token : '•'.repeat(24)) : '...'}
+              </code>
+              <p className="text-xs text-white/40 mt-1">
+                Send it as "Authorization: Bearer &lt;token&gt;".
+              </p>
+              <div className="flex gap-2 mt-2">
+                <button
+                  onClick={handleCopy}
+                  className="flex-1 py-2 rounded-lg bg-white/10 hover:bg-white/15 text-white/80 text-sm transition-colors"
+                >
+                  {copied ? 'Copied' : 'Copy Token'}
+                </button>
+                <button
+                  onClick={handleRegenerate}
+                  className="flex-1 py-2 rounded-lg bg-white/10 hover:bg-white/15 text-white/80 text-sm transition-colors"
+                >
+                  Regenerate
+                </button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </>
+  );
+}
+
 export function SettingsView() {
   const settings = useSettingsStore();
   const { currentUser, setIsLoggedIn, setCurrentUser } = useAppStore();
   const [showPasswordModal, setShowPasswordModal] = useState(false);
   const [showResetConfirm, setShowResetConfirm] = useState(false);
+  const canEditShortcuts = Boolean(window.electronAPI?.shortcutsGet);
+  const canUseControlApi = Boolean(window.electronAPI?.controlApiConfigure);
+  const canChooseMiniWidgetLayout = Boolean(window.electronAPI?.miniWidgetSetLayout);
+  const canSetStartupOptions = Boolean(window.electronAPI?.startupOptionsGet);
+  const canDetectAway = Boolean(window.electronAPI?.onTimerAway);
 
   const handleLogout = async () => {
     try {
@@ -147,6 +472,13 @@ export function SettingsView() {
     { label: 'Soft Dark', value: 'soft-dark' },
   ];
 
+  const awayBehaviorOptions: { label: string; value: AwayBehavior }[] = [
+    { label: 'Ask on Return', value: 'ask' },
+    { label: 'Pause Timer', value: 'pause' },
+    { label: 'Count as Pause', value: 'flag' },
+    { label: 'Keep Counting', value: 'off' },
+  ];
+
   const timerSizeOptions: { label: string; value: TimerSize }[] = [
     { label: 'Normal', value: 'normal' },
     { label: 'Large', value: 'large' },
@@ -181,6 +513,56 @@ export function SettingsView() {
             </SettingRow>
           )}
 
+          <SettingRow label="Short Break" description="Minutes">
+            <input
+              type="number"
+              min={1}
+              max={30}
+              value={settings.shortBreakDuration}
+              onChange={(e) => settings.setShortBreakDuration(Number(e.target.value))}
+              className="w-16 px-2 py-1 bg-white/10 rounded text-white text-sm text-center"
+            />
+          </SettingRow>
+
+          <SettingRow label="Long Break" description="Minutes">
+            <input
+              type="number"
+              min={1}
+              max={60}
+              value={settings.longBreakDuration}
+              onChange={(e) => settings.setLongBreakDuration(Number(e.target.value))}
+              className="w-16 px-2 py-1 bg-white/10 rounded text-white text-sm text-center"
+            />
+          </SettingRow>
+
+          <SettingRow label="Long Break Every" description="Pomodoros">
+            <input
+              type="number"
+              min={1}
+              max={12}
+              value={settings.longBreakInterval}
+              onChange={(e) => settings.setLongBreakInterval(Number(e.target.value))}
+              className="w-16 px-2 py-1 bg-white/10 rounded text-white text-sm text-center"
+            />
+          </SettingRow>
+
+          <SettingRow label="Flow Soft Cap" description="Minutes before a nudge (0 = none)">
+            <input
+              type="number"
+              min={0}
+              max={240}
+              value={settings.flowSoftCap}
+              onChange={(e) => settings.setFlowSoftCap(Number(e.target.value))}
+              className="w-16 px-2 py-1 bg-white/10 rounded text-white text-sm text-center"
+            />
+          </SettingRow>
+
+          <SettingRow label="Auto-start Breaks" description="Begin the break after a short countdown">
+            <Toggle enabled={settings.autoStartBreaks} onChange={settings.setAutoStartBreaks} />
+          </SettingRow>
+          <SettingRow label="Auto-start Focus" description="Begin the next pomodoro after a break">
+            <Toggle enabled={settings.autoStartPomodoros} onChange={settings.setAutoStartPomodoros} />
+          </SettingRow>
           <SettingRow label="Warmup Phase" description="Gentle start before focus">
             <Toggle enabled={settings.warmupEnabled} onChange={settings.setWarmupEnabled} />
           </SettingRow>
@@ -209,6 +591,35 @@ export function SettingsView() {
           <SettingRow label="Mind Lock" description="Prevent pausing during focus">
             <Toggle enabled={settings.mindLockEnabled} onChange={settings.setMindLockEnabled} />
           </SettingRow>
+
+          {canDetectAway && (
+            <SettingRow label="When Away" description="Idle, locked or asleep during focus">
+              <select
+                value={settings.awayBehavior}
+                onChange={(e) => settings.setAwayBehavior(e.target.value as AwayBehavior)}
+                className="px-2 py-1 bg-white/10 rounded text-white text-sm"
+              >
+                {awayBehaviorOptions.map((option) => (
+                  <option key={option.value} value={option.value} className="bg-neutral-800">
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </SettingRow>
+          )}
+
+          {canDetectAway && settings.awayBehavior !== 'off' && (
+            <SettingRow label="Away After" description="Minutes without input">
+              <input
+                type="number"
+                min={1}
+                max={60}
+                value={settings.awayThreshold}
+                onChange={(e) => settings.setAwayThreshold(Number(e.target.value))}
+                className="w-16 px-2 py-1 bg-white/10 rounded text-white text-sm text-center"
+              />
+            </SettingRow>
+          )}
         </div>
 
         {/* Sound & Environment */}
@@ -243,10 +654,49 @@ export function SettingsView() {
             <Toggle enabled={settings.sessionStartSound} onChange={settings.setSessionStartSound} />
           </SettingRow>
 
+          {settings.sessionStartSound && (
+            <SettingRow label="Start Chime">
+              <ChimeSelect
+                value={settings.startChime}
+                onChange={settings.setStartChime}
+                volume={settings.chimeVolume}
+              />
+            </SettingRow>
+          )}
+
           <SettingRow label="Session End Sound">
             <Toggle enabled={settings.sessionEndSound} onChange={settings.setSessionEndSound} />
           </SettingRow>
 
+          {settings.sessionEndSound && (
+            <>
+              <SettingRow label="End Chime" description="When focus ends">
+                <ChimeSelect
+                  value={settings.endChime}
+                  onChange={settings.setEndChime}
+                  volume={settings.chimeVolume}
+                />
+              </SettingRow>
+
+              <SettingRow label="Break Over Chime" description="When a break ends">
+                <ChimeSelect
+                  value={settings.breakOverChime}
+                  onChange={settings.setBreakOverChime}
+                  volume={settings.chimeVolume}
+                />
+              </SettingRow>
+            </>
+          )}
+
+          <SettingRow label="Chime Volume" description="Music dips while a chime plays">
+            <div className="w-32">
+              <Slider
+                value={Math.round(settings.chimeVolume * 100)}
+                onChange={(v) => settings.setChimeVolume(v / 100)}
+              />
+            </div>
+          </SettingRow>
+
           <SettingRow label="Gentle Reminders" description="Periodic focus reminders">
             <Toggle enabled={settings.gentleReminders} onChange={settings.setGentleReminders} />
           </SettingRow>
@@ -268,7 +718,7 @@ export function SettingsView() {
         {/* Tasks */}
         <SectionHeader title="Tasks" />
         <div className="bg-white/5 rounded-xl px-4 divide-y divide-white/5">
-          <SettingRow label="Auto-assign Task" description="Pick first uncompleted task">
+          <SettingRow label="Auto-assign Task" description="Pick the highest-priority open task">
             <Toggle enabled={settings.autoAssignTask} onChange={settings.setAutoAssignTask} />
           </SettingRow>
 
@@ -303,8 +753,19 @@ export function SettingsView() {
           <SettingRow label="Always on Top" description="Keep window visible">
             <Toggle enabled={settings.alwaysOnTop} onChange={settings.setAlwaysOnTop} />
           </SettingRow>
+
+          {canChooseMiniWidgetLayout && <MiniWidgetLayoutRow />}
         </div>
 
+        {/* Startup (login item and launch windows, kept by the main process) */}
+        {canSetStartupOptions && <StartupSection />}
+
+        {/* Keyboard Shortcuts (registered by the main process) */}
+        {canEditShortcuts && <KeyboardShortcutsSection />}
+
+        {/* Integrations (local control server in the main process) */}
+        {canUseControlApi && <IntegrationsSection />}
+
         {/* Account */}
         <SectionHeader title="Account" />
         <div className="bg-white/5 rounded-xl px-4 divide-y divide-white/5">
@@ -1,12 +1,115 @@
 import { useState, useEffect, useRef, forwardRef } from 'react';
-import { useAppStore } from '../../stores/useAppStore';
-import { Task, Subtask } from '../../types';
+import { useAppStore, getTaskEstimate, getEstimateAccuracy, getTaskSection, sortTasks } from '../../stores/useAppStore';
+import { useSettingsStore } from '../../stores/useSettingsStore';
+import {
+  Task,
+  Subtask,
+  Project,
+  PROJECT_COLORS,
+  EstimateAccuracy,
+  TaskSection,
+  TaskPriority,
+  TaskSort,
+  TASK_PRIORITIES,
+  RecurrenceRule,
+} from '../../types';
+
+// The list can be narrowed to one project or one tag
+type TaskFilter = { type: 'project'; projectId: string } | { type: 'tag'; tag: string } | null;
+
+function matchesFilter(task: Task, filter: TaskFilter): boolean {
+  if (!filter) return true;
+  if (filter.type === 'project') return task.projectId === filter.projectId;
+  return (task.tags ?? []).includes(filter.tag);
+}
+
+const SORT_OPTIONS: { id: TaskSort; label: string }[] = [
+  { id: 'manual', label: 'Manual' },
+  { id: 'priority', label: 'Priority' },
+  { id: 'dueDate', label: 'Due date' },
+  { id: 'created', label: 'Newest' },
+];
+
+const PRIORITY_STYLES: Record<TaskPriority, string> = {
+  1: 'bg-red-500/15 text-red-400',
+  2: 'bg-orange-500/15 text-orange-400',
+  3: 'bg-blue-500/15 text-blue-400',
+  4: 'bg-white/[0.06] text-white/40',
+};
+
+// ============================================================================
+// DRAG AND DROP REORDERING
+// ============================================================================
+interface Reorder {
+  handlers: React.HTMLAttributes<HTMLDivElement>;
+  isDragging: boolean;
+  isDropTarget: boolean;
+}
+
+// Drag an item onto another in the same list to move it there. Events stop at
+// the item, so subtasks can be dragged inside a task card that is draggable too.
+function useDragReorder(onMove: (id: string, targetId: string) => void): (id: string) => Reorder {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [overId, setOverId] = useState<string | null>(null);
+
+  const endDrag = () => {
+    setDraggedId(null);
+    setOverId(null);
+  };
+
+  return (id) => ({
+    handlers: {
+      draggable: true,
+      onDragStart: (e) => {
+        e.stopPropagation();
+        e.dataTransfer?.setData('text/plain', id);
+        setDraggedId(id);
+      },
+      onDragOver: (e) => {
+        if (!draggedId) return;
+        e.preventDefault();
+        e.stopPropagation();
+        setOverId(id);
+      },
+      onDrop: (e) => {
+        if (!draggedId) return;
+        e.preventDefault();
+        e.stopPropagation();
+        if (draggedId !== id) onMove(draggedId, id);
+        endDrag();
+      },
+      onDragEnd: endDrag,
+    },
+    isDragging: draggedId === id,
+    isDropTarget: overId === id && draggedId !== id,
+  });
+}
 
 // Helper to get today's date as YYYY-MM-DD
 function getTodayDate(): string {
   return new Date().toISOString().split('T')[0];
 }
 
+// Helper to shift a YYYY-MM-DD date by whole days
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+// "Today", "Tomorrow", "Yesterday", else e.g. "Fri, Nov 28"
+function formatTaskDate(date: string, today: string): string {
+  if (date === today) return 'Today';
+  if (date === addDays(today, 1)) return 'Tomorrow';
+  if (date === addDays(today, -1)) return 'Yesterday';
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
 // ============================================================================
 // SECTION HEADER COMPONENT
 // ============================================================================
@@ -55,6 +158,494 @@ function SectionHeader({
   );
 }
 
+// ============================================================================
+// POMODORO ESTIMATE COMPONENT
+// ============================================================================
+interface PomodoroEstimateProps {
+  estimate?: number;
+  spent?: number; // tasks show spent/estimated, subtasks just the estimate
+  isEditable: boolean;
+  showPlaceholder: boolean; // offer to add an estimate when there is none
+  onChange: (pomodoros: number | null) => void;
+}
+
+function PomodoroEstimate({ estimate, spent, isEditable, showPlaceholder, onChange }: PomodoroEstimateProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [editText, setEditText] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isEditing && inputRef.current) {
+      inputRef.current.focus();
+      inputRef.current.select();
+    }
+  }, [isEditing]);
+
+  const startEditing = () => {
+    if (!isEditable) return;
+    setEditText(estimate ? String(estimate) : '');
+    setIsEditing(true);
+  };
+
+  // Empty or zero clears the estimate
+  const handleSave = () => {
+    const value = Math.round(Number(editText));
+    if (Number.isFinite(value) && value >= 0 && value !== (estimate ?? 0)) {
+      onChange(value > 0 ? value : null);
+    }
+    setIsEditing(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleSave();
+    } else if (e.key === 'Escape') {
+      setIsEditing(false);
+    }
+  };
+
+  if (isEditing) {
+    return (
+      <input
+        ref={inputRef}
+        type="number"
+        min={0}
+        max={99}
+        value={editText}
+        onChange={(e) => setEditText(e.target.value)}
+        onBlur={handleSave}
+        onKeyDown={handleKeyDown}
+        aria-label="Estimated pomodoros"
+        className="w-12 flex-shrink-0 text-[10px] bg-white/5 text-white/80 rounded px-1.5 py-0.5 text-center focus:outline-none focus:ring-1 focus:ring-accent/50"
+      />
+    );
+  }
+
+  const hasSpent = spent !== undefined && spent > 0;
+  if (!estimate && !hasSpent && !(showPlaceholder && isEditable)) return null;
+
+  const isOver = estimate !== undefined && spent !== undefined && spent > estimate;
+  let label: string;
+  if (estimate) {
+    label = spent !== undefined ? `${spent}/${estimate}` : String(estimate);
+  } else {
+    label = hasSpent ? String(spent) : 'Est.';
+  }
+
+  return (
+    <button
+      onClick={startEditing}
+      disabled={!isEditable}
+      title={estimate ? 'Pomodoros spent / estimated' : 'Estimate pomodoros'}
+      className={`flex-shrink-0 flex items-center gap-1 text-[10px] font-medium px-2 py-0.5 rounded-full transition-colors ${
+        isOver
+          ? 'bg-red-500/10 text-red-400/80'
+          : estimate || hasSpent
+          ? 'bg-orange-500/10 text-orange-400/80'
+          : 'bg-white/[0.04] text-white/30 hover:text-white/50'
+      } ${isEditable ? 'cursor-pointer hover:bg-orange-500/20' : 'cursor-default'}`}
+    >
+      <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 24 24">
+        <path d="M12 2C6.5 2 2 6.5 2 12s4.5 10 10 10 10-4.5 10-10S17.5 2 12 2zm0 18c-4.41 0-8-3.59-8-8s3.59-8 8-8 8 3.59 8 8-3.59 8-8 8zm.5-13H11v6l5.25 3.15.75-1.23-4.5-2.67V7z" />
+      </svg>
+      {label}
+    </button>
+  );
+}
+
+// ============================================================================
+// TASK DATES COMPONENT
+// ============================================================================
+interface TaskDateFieldProps {
+  label: string;
+  value?: string;
+  isEditable: boolean;
+  onChange: (date: string | null) => void;
+}
+
+// A date picker for the expanded card; clearing it removes the date
+function TaskDateField({ label, value, isEditable, onChange }: TaskDateFieldProps) {
+  return (
+    <label className="flex items-center gap-1.5 text-[10px] text-white/40">
+      {label}
+      <input
+        type="date"
+        value={value ?? ''}
+        disabled={!isEditable}
+        onChange={(e) => onChange(e.target.value || null)}
+        aria-label={`${label} date`}
+        className="bg-white/5 text-white/70 rounded px-1.5 py-0.5 focus:outline-none focus:ring-1 focus:ring-accent/50 disabled:opacity-50 [color-scheme:dark]"
+      />
+    </label>
+  );
+}
+
+interface TaskDateChipsProps {
+  dueDate?: string;
+  scheduledFor?: string;
+  isCompleted: boolean;
+}
+
+// Due and scheduled dates shown on the card's top row
+function TaskDateChips({ dueDate, scheduledFor, isCompleted }: TaskDateChipsProps) {
+  const today = getTodayDate();
+  const isOverdue = !isCompleted && !!dueDate && dueDate < today;
+  const isDueToday = !isCompleted && dueDate === today;
+
+  return (
+    <>
+      {scheduledFor && (
+        <span
+          title="Scheduled to work on"
+          className="flex-shrink-0 text-[10px] font-medium px-2 py-0.5 rounded-full bg-white/[0.06] text-white/40"
+        >
+          {formatTaskDate(scheduledFor, today)}
+        </span>
+      )}
+      {dueDate && (
+        <span
+          title="Due date"
+          className={`flex-shrink-0 text-[10px] font-medium px-2 py-0.5 rounded-full ${
+            isOverdue
+              ? 'bg-red-500/10 text-red-400/80'
+              : isDueToday
+              ? 'bg-orange-500/10 text-orange-400/80'
+              : 'bg-white/[0.06] text-white/40'
+          }`}
+        >
+          Due {formatTaskDate(dueDate, today)}
+        </span>
+      )}
+    </>
+  );
+}
+
+// ============================================================================
+// RECURRENCE COMPONENTS
+// ============================================================================
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// e.g. "Daily", "Weekly on Mon, Thu", "Every 3 days"
+function describeRecurrence(rule: RecurrenceRule): string {
+  switch (rule.type) {
+    case 'daily':
+      return 'Daily';
+    case 'weekdays':
+      return 'Weekdays';
+    case 'weekly':
+      return `Weekly on ${[...rule.days].sort((a, b) => a - b).map((day) => WEEKDAY_NAMES[day].slice(0, 3)).join(', ')}`;
+    case 'interval':
+      return rule.days === 1 ? 'Daily' : `Every ${rule.days} days`;
+    case 'monthly':
+      return 'Monthly';
+  }
+}
+
+interface RecurrenceFieldProps {
+  recurrence?: RecurrenceRule;
+  weekday: number; // what a new weekly rule starts on
+  isEditable: boolean;
+  onChange: (recurrence: RecurrenceRule | null) => void;
+}
+
+// Repeat picker for the expanded card, with the days or interval it needs
+function RecurrenceField({ recurrence, weekday, isEditable, onChange }: RecurrenceFieldProps) {
+  const handleTypeChange = (type: string) => {
+    if (type === 'weekly') {
+      onChange({ type, days: [weekday] });
+    } else if (type === 'interval') {
+      onChange({ type, days: 2 });
+    } else if (type === 'daily' || type === 'weekdays' || type === 'monthly') {
+      onChange({ type });
+    } else {
+      onChange(null);
+    }
+  };
+
+  const toggleDay = (days: number[], day: number) => {
+    const next = days.includes(day) ? days.filter((d) => d !== day) : [...days, day];
+    if (next.length > 0) onChange({ type: 'weekly', days: next });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-2 ml-3 pl-4 text-[10px] text-white/40">
+      <label className="flex items-center gap-1.5">
+        Repeat
+        <select
+          value={recurrence?.type ?? ''}
+          disabled={!isEditable}
+          onChange={(e) => handleTypeChange(e.target.value)}
+          aria-label="Repeat"
+          className="bg-white/5 text-white/70 rounded px-1.5 py-0.5 focus:outline-none focus:ring-1 focus:ring-accent/50 disabled:opacity-50"
+        >
+          <option value="">Never</option>
+          <option value="daily">Daily</option>
+          <option value="weekdays">Weekdays</option>
+          <option value="weekly">Weekly</option>
+          <option value="interval">Every few days</option>
+          <option value="monthly">Monthly</option>
+        </select>
+      </label>
+
+      {recurrence?.type === 'weekly' && (
+        <div className="flex items-center gap-0.5">
+          {WEEKDAY_NAMES.map((name, day) => {
+            const isOn = recurrence.days.includes(day);
+            return (
+              <button
+                key={name}
+                onClick={() => toggleDay(recurrence.days, day)}
+                disabled={!isEditable}
+                aria-label={name}
+                aria-pressed={isOn}
+                className={`w-5 h-5 rounded-full text-[9px] font-medium transition-colors ${
+                  isOn ? 'bg-accent text-white' : 'bg-white/[0.04] text-white/40 hover:text-white/60'
+                }`}
+              >
+                {name[0]}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {recurrence?.type === 'interval' && (
+        <label className="flex items-center gap-1.5">
+          every
+          <input
+            type="number"
+            min={1}
+            max={365}
+            value={recurrence.days}
+            disabled={!isEditable}
+            onChange={(e) => {
+              const days = Math.round(Number(e.target.value));
+              if (days >= 1) onChange({ type: 'interval', days });
+            }}
+            aria-label="Repeat every N days"
+            className="w-10 bg-white/5 text-white/70 rounded px-1.5 py-0.5 text-center focus:outline-none focus:ring-1 focus:ring-accent/50"
+          />
+          days
+        </label>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// PROJECT AND TAG COMPONENTS
+// ============================================================================
+// Project colours are 6-digit hex; '26' appends ~15% alpha for the chip background
+function projectChipStyle(project: Project) {
+  return { backgroundColor: `${project.color}26`, color: project.color };
+}
+
+interface TaskOrganizeFieldsProps {
+  projectId?: string;
+  tags: string[];
+  projects: Project[];
+  isEditable: boolean;
+  onSetProject: (projectId: string | null) => void;
+  onSetTags: (tags: string[]) => void;
+}
+
+// Project picker and tag editor for the expanded card
+function TaskOrganizeFields({
+  projectId,
+  tags,
+  projects,
+  isEditable,
+  onSetProject,
+  onSetTags,
+}: TaskOrganizeFieldsProps) {
+  const [newTag, setNewTag] = useState('');
+
+  // Several tags can go in at once, separated by spaces or commas
+  const handleAddTags = () => {
+    const added = newTag.split(/[\s,]+/).filter(Boolean);
+    if (added.length > 0) {
+      onSetTags([...tags, ...added]);
+    }
+    setNewTag('');
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-2 ml-3 pl-4 text-[10px]">
+      <select
+        value={projectId ?? ''}
+        disabled={!isEditable}
+        onChange={(e) => onSetProject(e.target.value || null)}
+        aria-label="Project"
+        className="bg-white/5 text-white/70 rounded px-1.5 py-0.5 focus:outline-none focus:ring-1 focus:ring-accent/50 disabled:opacity-50"
+      >
+        <option value="">No project</option>
+        {projects.map((project) => (
+          <option key={project.id} value={project.id}>
+            {project.name}
+          </option>
+        ))}
+      </select>
+
+      {tags.map((tag) => (
+        <span
+          key={tag}
+          className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-white/[0.06] text-white/50"
+        >
+          #{tag}
+          {isEditable && (
+            <button
+              onClick={() => onSetTags(tags.filter((t) => t !== tag))}
+              aria-label={`Remove tag ${tag}`}
+              className="text-white/30 hover:text-white/60 transition-colors"
+            >
+              ×
+            </button>
+          )}
+        </span>
+      ))}
+
+      {isEditable && (
+        <input
+          type="text"
+          value={newTag}
+          onChange={(e) => setNewTag(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleAddTags();
+          }}
+          onBlur={handleAddTags}
+          placeholder="Add tag..."
+          aria-label="Add tag"
+          className="w-20 bg-transparent text-white/60 placeholder-white/25 focus:outline-none"
+        />
+      )}
+    </div>
+  );
+}
+
+interface TaskFilterChipsProps {
+  projects: Project[];
+  tags: string[];
+  filter: TaskFilter;
+  onChange: (filter: TaskFilter) => void;
+  onAddProject: (name: string) => void;
+  onUpdateProject: (projectId: string, updates: Partial<Omit<Project, 'id'>>) => void;
+  onDeleteProject: (projectId: string) => void;
+}
+
+// Filter chips for projects and tags, plus creating and managing projects
+function TaskFilterChips({
+  projects,
+  tags,
+  filter,
+  onChange,
+  onAddProject,
+  onUpdateProject,
+  onDeleteProject,
+}: TaskFilterChipsProps) {
+  const [isAddingProject, setIsAddingProject] = useState(false);
+  const [projectName, setProjectName] = useState('');
+
+  const activeProject =
+    filter?.type === 'project' ? projects.find((p) => p.id === filter.projectId) : undefined;
+
+  const handleAddProject = () => {
+    const trimmed = projectName.trim();
+    if (trimmed) {
+      onAddProject(trimmed);
+    }
+    setProjectName('');
+    setIsAddingProject(false);
+  };
+
+  const cycleColor = (project: Project) => {
+    const index = PROJECT_COLORS.indexOf(project.color);
+    onUpdateProject(project.id, { color: PROJECT_COLORS[(index + 1) % PROJECT_COLORS.length] });
+  };
+
+  const chipClass = (isActive: boolean) =>
+    `flex-shrink-0 flex items-center gap-1.5 px-2.5 py-1 rounded-full text-[10px] font-medium transition-colors ${
+      isActive ? 'bg-accent text-white' : 'bg-white/[0.04] text-white/50 hover:text-white/70 hover:bg-white/[0.08]'
+    }`;
+
+  return (
+    <div className="flex-1 flex flex-wrap items-center gap-1.5">
+      <button onClick={() => onChange(null)} className={chipClass(!filter)}>
+        All
+      </button>
+
+      {projects.map((project) => (
+        <button
+          key={project.id}
+          onClick={() => onChange({ type: 'project', projectId: project.id })}
+          className={chipClass(filter?.type === 'project' && filter.projectId === project.id)}
+        >
+          <span className="w-2 h-2 rounded-full" style={{ backgroundColor: project.color }} />
+          {project.name}
+        </button>
+      ))}
+
+      {tags.map((tag) => (
+        <button
+          key={tag}
+          onClick={() => onChange({ type: 'tag', tag })}
+          className={chipClass(filter?.type === 'tag' && filter.tag === tag)}
+        >
+          #{tag}
+        </button>
+      ))}
+
+      {isAddingProject ? (
+        <input
+          autoFocus
+          type="text"
+          value={projectName}
+          onChange={(e) => setProjectName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleAddProject();
+            if (e.key === 'Escape') setIsAddingProject(false);
+          }}
+          onBlur={handleAddProject}
+          placeholder="Project name"
+          aria-label="Project name"
+          className="w-28 px-2.5 py-1 rounded-full bg-white/5 text-[10px] text-white/80 placeholder-white/25 focus:outline-none focus:ring-1 focus:ring-accent/50"
+        />
+      ) : (
+        <button
+          onClick={() => setIsAddingProject(true)}
+          className="flex-shrink-0 px-2.5 py-1 rounded-full text-[10px] text-white/30 hover:text-white/50 transition-colors"
+        >
+          + Project
+        </button>
+      )}
+
+      {/* Manage the project being filtered on */}
+      {activeProject && (
+        <div className="flex items-center gap-1 ml-auto">
+          <button
+            onClick={() => cycleColor(activeProject)}
+            title="Change colour"
+            className="p-1 rounded-full hover:bg-white/5 transition-colors"
+          >
+            <span className="block w-3 h-3 rounded-full" style={{ backgroundColor: activeProject.color }} />
+          </button>
+          <button
+            onClick={() => {
+              onDeleteProject(activeProject.id);
+              onChange(null);
+            }}
+            title="Delete project"
+            className="p-1 rounded-lg text-white/30 hover:text-red-400 hover:bg-red-400/10 transition-all"
+          >
+            <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 24 24">
+              <path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z" />
+            </svg>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
 // ============================================================================
 // SUBTASK ITEM COMPONENT
 // ============================================================================
@@ -64,6 +655,8 @@ interface SubtaskItemProps {
   onToggle: () => void;
   onDelete: () => void;
   onRename: (newTitle: string) => void;
+  onEstimate: (pomodoros: number | null) => void;
+  reorder?: Reorder;
 }
 
 function SubtaskItem({
@@ -72,6 +665,8 @@ function SubtaskItem({
   onToggle,
   onDelete,
   onRename,
+  onEstimate,
+  reorder,
 }: SubtaskItemProps) {
   const [isHovering, setIsHovering] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
@@ -107,9 +702,10 @@ function SubtaskItem({
 
   return (
     <div
+      {...(!isEditing ? reorder?.handlers : undefined)}
       className={`group flex items-center gap-2 py-1.5 px-2 rounded-md transition-all ${
-        isHovering ? 'bg-white/[0.03]' : ''
-      }`}
+        reorder?.isDropTarget ? 'bg-accent/10' : isHovering ? 'bg-white/[0.03]' : ''
+      } ${reorder?.isDragging ? 'opacity-40' : ''}`}
       onMouseEnter={() => setIsHovering(true)}
       onMouseLeave={() => setIsHovering(false)}
     >
@@ -158,6 +754,16 @@ function SubtaskItem({
         </span>
       )}
 
+      {/* Estimate */}
+      {!isEditing && (
+        <PomodoroEstimate
+          estimate={subtask.estimatedPomodoros}
+          isEditable={!isCompleted}
+          showPlaceholder={isHovering}
+          onChange={onEstimate}
+        />
+      )}
+
       {/* Delete button */}
       {isHovering && !parentCompleted && !isEditing && (
         <button
@@ -182,6 +788,8 @@ interface SubtaskListProps {
   onToggleSubtask: (subtaskId: string) => void;
   onDeleteSubtask: (subtaskId: string) => void;
   onRenameSubtask: (subtaskId: string, newTitle: string) => void;
+  onEstimateSubtask: (subtaskId: string, pomodoros: number | null) => void;
+  onMoveSubtask: (subtaskId: string, targetSubtaskId: string) => void;
   onAddSubtask: (title: string) => void;
 }
 
@@ -191,8 +799,11 @@ function SubtaskList({
   onToggleSubtask,
   onDeleteSubtask,
   onRenameSubtask,
+  onEstimateSubtask,
+  onMoveSubtask,
   onAddSubtask,
 }: SubtaskListProps) {
+  const getReorder = useDragReorder(onMoveSubtask);
   const [newSubtaskText, setNewSubtaskText] = useState('');
   const [isAddingSubtask, setIsAddingSubtask] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
@@ -253,6 +864,8 @@ function SubtaskList({
             onToggle={() => onToggleSubtask(subtask.id)}
             onDelete={() => onDeleteSubtask(subtask.id)}
             onRename={(newTitle) => onRenameSubtask(subtask.id, newTitle)}
+            onEstimate={(pomodoros) => onEstimateSubtask(subtask.id, pomodoros)}
+            reorder={parentCompleted ? undefined : getReorder(subtask.id)}
           />
         ))}
       </div>
@@ -324,7 +937,18 @@ interface TaskCardProps {
   onToggleSubtask: (subtaskId: string) => void;
   onDeleteSubtask: (subtaskId: string) => void;
   onRenameSubtask: (subtaskId: string, newTitle: string) => void;
+  onEstimateSubtask: (subtaskId: string, pomodoros: number | null) => void;
+  onMoveSubtask: (subtaskId: string, targetSubtaskId: string) => void;
   onRenameTask: (newTitle: string) => void;
+  onEstimateTask: (pomodoros: number | null) => void;
+  onSetDueDate: (date: string | null) => void;
+  onSetScheduledFor: (date: string | null) => void;
+  projects: Project[];
+  onSetProject: (projectId: string | null) => void;
+  onSetTags: (tags: string[]) => void;
+  onSetPriority: (priority: TaskPriority | null) => void;
+  onSetRecurrence: (recurrence: RecurrenceRule | null) => void;
+  reorder?: Reorder; // set while the list is in manual order
   isCompleted?: boolean;
 }
 
@@ -342,7 +966,18 @@ const TaskCard = forwardRef<HTMLDivElement, TaskCardProps>(
       onToggleSubtask,
       onDeleteSubtask,
       onRenameSubtask,
+      onEstimateSubtask,
+      onMoveSubtask,
       onRenameTask,
+      onEstimateTask,
+      onSetDueDate,
+      onSetScheduledFor,
+      projects,
+      onSetProject,
+      onSetTags,
+      onSetPriority,
+      onSetRecurrence,
+      reorder,
       isCompleted,
     },
     ref
@@ -356,6 +991,8 @@ const TaskCard = forwardRef<HTMLDivElement, TaskCardProps>(
     const completedSubtasks = subtasks.filter((s) => s.isCompleted).length;
     const hasSubtasks = subtasks.length > 0;
     const allSubtasksComplete = hasSubtasks && completedSubtasks === subtasks.length;
+    const project = projects.find((p) => p.id === task.projectId);
+    const tags = task.tags ?? [];
 
     useEffect(() => {
       if (isEditing && inputRef.current) {
@@ -393,11 +1030,14 @@ const TaskCard = forwardRef<HTMLDivElement, TaskCardProps>(
     return (
       <div
         ref={ref}
+        {...(!isEditing ? reorder?.handlers : undefined)}
         className={`mx-4 mb-2 rounded-xl overflow-hidden transition-all border-l-[3px] ${getBorderColor()} ${
           isHovering && !isEditing
             ? 'bg-white/[0.04] shadow-lg shadow-black/10'
             : 'bg-white/[0.02]'
-        } ${isCurrentTask ? 'ring-1 ring-accent/20' : ''}`}
+        } ${reorder?.isDropTarget ? 'ring-1 ring-accent/60' : isCurrentTask ? 'ring-1 ring-accent/20' : ''} ${
+          reorder?.isDragging ? 'opacity-40' : ''
+        }`}
         onMouseEnter={() => setIsHovering(true)}
         onMouseLeave={() => setIsHovering(false)}
       >
@@ -408,6 +1048,7 @@ const TaskCard = forwardRef<HTMLDivElement, TaskCardProps>(
             {/* Expand chevron */}
             <button
               onClick={onToggleExpand}
+              aria-label={isExpanded ? 'Collapse task' : 'Expand task'}
               className={`flex-shrink-0 w-5 h-5 flex items-center justify-center rounded transition-all ${
                 hasSubtasks
                   ? 'text-white/40 hover:text-white/60 hover:bg-white/5'
@@ -484,15 +1125,58 @@ const TaskCard = forwardRef<HTMLDivElement, TaskCardProps>(
                 </span>
               )}
 
-              {/* Pomodoro chip */}
-              {task.spentPomodoros > 0 && (
-                <span className="flex-shrink-0 flex items-center gap-1 text-[10px] font-medium px-2 py-0.5 rounded-full bg-orange-500/10 text-orange-400/80">
+              {/* Priority */}
+              {task.priority && (
+                <span
+                  className={`flex-shrink-0 text-[10px] font-semibold px-1.5 py-0.5 rounded ${PRIORITY_STYLES[task.priority]}`}
+                >
+                  P{task.priority}
+                </span>
+              )}
+
+              {/* Repeats */}
+              {task.recurrence && (
+                <span
+                  title="Repeats"
+                  className="flex-shrink-0 flex items-center gap-1 text-[10px] font-medium px-2 py-0.5 rounded-full bg-white/[0.06] text-white/40"
+                >
                   <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 24 24">
-                    <path d="M12 2C6.5 2 2 6.5 2 12s4.5 10 10 10 10-4.5 10-10S17.5 2 12 2zm0 18c-4.41 0-8-3.59-8-8s3.59-8 8-8 8 3.59 8 8-3.59 8-8 8zm.5-13H11v6l5.25 3.15.75-1.23-4.5-2.67V7z" />
+                    <path d="M7 7h10v3l4-4-4-4v3H5v6h2V7zm10 10H7v-3l-4 4 4 4v-3h12v-6h-2v4z" />
                   </svg>
-                  {task.spentPomodoros}
+                  {describeRecurrence(task.recurrence)}
+                </span>
+              )}
+
+              {/* Project and tags */}
+              {project && (
+                <span
+                  className="flex-shrink-0 text-[10px] font-medium px-2 py-0.5 rounded-full max-w-[6rem] truncate"
+                  style={projectChipStyle(project)}
+                >
+                  {project.name}
                 </span>
               )}
+              {tags.map((tag) => (
+                <span key={tag} className="flex-shrink-0 text-[10px] text-white/35">
+                  #{tag}
+                </span>
+              ))}
+
+              {/* Due and scheduled dates */}
+              <TaskDateChips
+                dueDate={task.dueDate}
+                scheduledFor={task.scheduledFor}
+                isCompleted={task.isCompleted}
+              />
+
+              {/* Pomodoros spent / estimated (click to estimate) */}
+              <PomodoroEstimate
+                estimate={getTaskEstimate(task)}
+                spent={task.spentPomodoros}
+                isEditable={!isCompleted}
+                showPlaceholder={isHovering && !isEditing}
+                onChange={onEstimateTask}
+              />
 
               {/* Focusing badge */}
               {isCurrentTask && (
@@ -559,15 +1243,59 @@ const TaskCard = forwardRef<HTMLDivElement, TaskCardProps>(
           </div>
         </div>
 
-        {/* Subtasks section (expanded) */}
+        {/* Dates, project, tags and subtasks section (expanded) */}
         {isExpanded && (
           <div className="px-3 pb-3">
+            <div className="flex items-center gap-4 mt-1 ml-3 pl-4">
+              <TaskDateField
+                label="Scheduled"
+                value={task.scheduledFor}
+                isEditable={!isCompleted}
+                onChange={onSetScheduledFor}
+              />
+              <TaskDateField
+                label="Due"
+                value={task.dueDate}
+                isEditable={!isCompleted}
+                onChange={onSetDueDate}
+              />
+              <select
+                value={task.priority ?? ''}
+                disabled={!!isCompleted}
+                onChange={(e) => onSetPriority(e.target.value ? (Number(e.target.value) as TaskPriority) : null)}
+                aria-label="Priority"
+                className="bg-white/5 text-[10px] text-white/70 rounded px-1.5 py-0.5 focus:outline-none focus:ring-1 focus:ring-accent/50 disabled:opacity-50"
+              >
+                <option value="">No priority</option>
+                {TASK_PRIORITIES.map((priority) => (
+                  <option key={priority} value={priority}>
+                    P{priority}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <RecurrenceField
+              recurrence={task.recurrence}
+              weekday={new Date(`${task.dueDate ?? task.scheduledFor ?? getTodayDate()}T00:00:00Z`).getUTCDay()}
+              isEditable={!isCompleted}
+              onChange={onSetRecurrence}
+            />
+            <TaskOrganizeFields
+              projectId={task.projectId}
+              tags={tags}
+              projects={projects}
+              isEditable={!isCompleted}
+              onSetProject={onSetProject}
+              onSetTags={onSetTags}
+            />
             <SubtaskList
               subtasks={subtasks}
               parentCompleted={!!isCompleted}
               onToggleSubtask={onToggleSubtask}
               onDeleteSubtask={onDeleteSubtask}
               onRenameSubtask={onRenameSubtask}
+              onEstimateSubtask={onEstimateSubtask}
+              onMoveSubtask={onMoveSubtask}
               onAddSubtask={onAddSubtask}
             />
           </div>
@@ -579,6 +1307,37 @@ const TaskCard = forwardRef<HTMLDivElement, TaskCardProps>(
 
 TaskCard.displayName = 'TaskCard';
 
+// ============================================================================
+// ESTIMATE ACCURACY COMPONENT
+// ============================================================================
+// How completed tasks' estimates held up, across everything finished so far
+function EstimateAccuracyReport({ accuracy }: { accuracy: EstimateAccuracy }) {
+  const { estimatedTasks, accurateTasks, underestimatedTasks, overestimatedTasks, averageRatio } = accuracy;
+
+  let verdict: string;
+  if (averageRatio > 1.1) {
+    verdict = `Tasks take ${averageRatio.toFixed(1)}x your estimate on average`;
+  } else if (averageRatio < 0.9) {
+    verdict = `Tasks take ${Math.round(averageRatio * 100)}% of your estimate on average`;
+  } else {
+    verdict = 'Your estimates are on target on average';
+  }
+
+  return (
+    <div className="mx-4 px-4 py-3 rounded-xl bg-white/[0.02] border border-white/[0.04]">
+      <p className="text-xs text-white/70">{verdict}</p>
+      <div className="flex items-center gap-3 mt-2 text-[10px] font-medium">
+        <span className="text-emerald-400/80">{accurateTasks} on target</span>
+        <span className="text-red-400/80">{underestimatedTasks} took longer</span>
+        <span className="text-orange-400/80">{overestimatedTasks} took less</span>
+        <span className="text-white/30 ml-auto">
+          {estimatedTasks} {estimatedTasks === 1 ? 'task' : 'tasks'}
+        </span>
+      </div>
+    </div>
+  );
+}
+
 // ============================================================================
 // MAIN TASKS VIEW COMPONENT
 // ============================================================================
@@ -595,25 +1354,57 @@ export function TasksView() {
     deleteSubtask,
     renameSubtask,
     renameTask,
+    setTaskEstimate,
+    setSubtaskEstimate,
+    setTaskDueDate,
+    setTaskScheduledFor,
+    projects,
+    addProject,
+    updateProject,
+    deleteProject,
+    setTaskProject,
+    setTaskTags,
+    setTaskPriority,
+    setTaskRecurrence,
+    moveTask,
+    moveSubtask,
   } = useAppStore();
+  const { taskSort, setTaskSort } = useSettingsStore();
+  const getReorder = useDragReorder(moveTask);
 
   const [newTaskText, setNewTaskText] = useState('');
   const [expandedTaskIds, setExpandedTaskIds] = useState<Set<string>>(new Set());
   const [isCompletedCollapsed, setIsCompletedCollapsed] = useState(true);
+  const [isEstimatesCollapsed, setIsEstimatesCollapsed] = useState(true);
+  const [filter, setFilter] = useState<TaskFilter>(null);
   const focusedTaskRef = useRef<HTMLDivElement>(null);
 
   const today = getTodayDate();
 
-  // Today's incomplete tasks
-  const todaysTasks = tasks.filter(
-    (task) => !task.isCompleted && task.createdAt === today
+  // Every tag in use, for the filter chips
+  const allTags = [...new Set(tasks.flatMap((task) => task.tags ?? []))].sort();
+
+  // A tag filter goes away once no task has the tag any more
+  const activeFilter = filter?.type === 'tag' && !allTags.includes(filter.tag) ? null : filter;
+  const visibleTasks = sortTasks(
+    tasks.filter((task) => matchesFilter(task, activeFilter)),
+    taskSort
   );
 
+  // Incomplete tasks, grouped by when they're due or planned
+  const sections: Record<TaskSection, Task[]> = { overdue: [], today: [], upcoming: [], someday: [] };
+  visibleTasks
+    .filter((task) => !task.isCompleted)
+    .forEach((task) => sections[getTaskSection(task, today)].push(task));
+
   // Completed today (regardless of when created)
-  const completedToday = tasks.filter(
+  const completedToday = visibleTasks.filter(
     (task) => task.isCompleted && task.completedAt === today
   );
 
+  // Estimates against actual pomodoros, over every completed task
+  const estimateAccuracy = getEstimateAccuracy(tasks);
+
   // Scroll focused task into view when the component mounts or currentTaskId changes
   useEffect(() => {
     if (currentTaskId && focusedTaskRef.current) {
@@ -629,7 +1420,11 @@ export function TasksView() {
   const handleAddTask = () => {
     const trimmed = newTaskText.trim();
     if (trimmed) {
-      addTask(trimmed);
+      // New tasks join the project or tag being looked at
+      addTask(trimmed, {
+        projectId: activeFilter?.type === 'project' ? activeFilter.projectId : undefined,
+        tags: activeFilter?.type === 'tag' ? [activeFilter.tag] : undefined,
+      });
       setNewTaskText('');
     }
   };
@@ -648,6 +1443,46 @@ export function TasksView() {
 
   const isAddDisabled = newTaskText.trim().length === 0;
 
+  const renderTaskCard = (task: Task, isCompleted = false) => (
+    <TaskCard
+      key={task.id}
+      task={task}
+      isCurrentTask={!isCompleted && task.id === currentTaskId}
+      isExpanded={expandedTaskIds.has(task.id)}
+      onToggle={() => toggleTask(task.id)}
+      onDelete={() => deleteTask(task.id)}
+      onFocus={() => setCurrentTaskId(task.id === currentTaskId ? null : task.id)}
+      onToggleExpand={() => toggleExpanded(task.id)}
+      onAddSubtask={(title) => addSubtask(task.id, title)}
+      onToggleSubtask={(subtaskId) => toggleSubtask(task.id, subtaskId)}
+      onDeleteSubtask={(subtaskId) => deleteSubtask(task.id, subtaskId)}
+      onRenameSubtask={(subtaskId, newTitle) => renameSubtask(task.id, subtaskId, newTitle)}
+      onEstimateSubtask={(subtaskId, pomodoros) => setSubtaskEstimate(task.id, subtaskId, pomodoros)}
+      onMoveSubtask={(subtaskId, targetSubtaskId) => moveSubtask(task.id, subtaskId, targetSubtaskId)}
+      onRenameTask={(newTitle) => renameTask(task.id, newTitle)}
+      onEstimateTask={(pomodoros) => setTaskEstimate(task.id, pomodoros)}
+      onSetDueDate={(date) => setTaskDueDate(task.id, date)}
+      onSetScheduledFor={(date) => setTaskScheduledFor(task.id, date)}
+      projects={projects}
+      onSetProject={(projectId) => setTaskProject(task.id, projectId)}
+      onSetTags={(tags) => setTaskTags(task.id, tags)}
+      onSetPriority={(priority) => setTaskPriority(task.id, priority)}
+      onSetRecurrence={(recurrence) => setTaskRecurrence(task.id, recurrence)}
+      reorder={taskSort === 'manual' && !isCompleted ? getReorder(task.id) : undefined}
+      isCompleted={isCompleted}
+      ref={!isCompleted && task.id === currentTaskId ? focusedTaskRef : undefined}
+    />
+  );
+
+  // Sections other than today only show up when they have something in them
+  const renderDatedSection = (title: string, sectionTasks: Task[]) =>
+    sectionTasks.length > 0 && (
+      <div className="py-3 border-t border-white/[0.04]">
+        <SectionHeader title={title} count={sectionTasks.length} />
+        <div className="space-y-0">{sectionTasks.map((task) => renderTaskCard(task))}</div>
+      </div>
+    );
+
   return (
     <div className="flex flex-col h-full">
       {/* Centered content container */}
@@ -685,15 +1520,48 @@ export function TasksView() {
           </div>
         </form>
 
+        {/* Project and tag filters, and the sort order */}
+        <div className="flex items-start gap-2 px-4 pb-3">
+          <TaskFilterChips
+            projects={projects}
+            tags={allTags}
+            filter={activeFilter}
+            onChange={setFilter}
+            onAddProject={(name) => addProject(name)}
+            onUpdateProject={updateProject}
+            onDeleteProject={deleteProject}
+          />
+          <select
+            value={taskSort}
+            onChange={(e) => setTaskSort(e.target.value as TaskSort)}
+            aria-label="Sort tasks"
+            className="flex-shrink-0 bg-white/[0.04] text-[10px] text-white/50 rounded-full px-2 py-1 focus:outline-none focus:ring-1 focus:ring-accent/50"
+          >
+            {SORT_OPTIONS.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
         <div className="mx-4 h-px bg-gradient-to-r from-transparent via-white/10 to-transparent" />
 
         {/* Task lists */}
         <div className="flex-1 overflow-y-auto">
+          {/* Overdue Section */}
+          {sections.overdue.length > 0 && (
+            <div className="py-3">
+              <SectionHeader title="Overdue" count={sections.overdue.length} />
+              <div className="space-y-0">{sections.overdue.map((task) => renderTaskCard(task))}</div>
+            </div>
+          )}
+
           {/* Today's Tasks Section */}
-          <div className="py-3">
-            <SectionHeader title="Today's Tasks" count={todaysTasks.length} />
+          <div className={`py-3 ${sections.overdue.length > 0 ? 'border-t border-white/[0.04]' : ''}`}>
+            <SectionHeader title="Today's Tasks" count={sections.today.length} />
 
-            {todaysTasks.length === 0 ? (
+            {sections.today.length === 0 ? (
               <div className="mx-4 py-8 text-center rounded-xl bg-white/[0.02] border border-white/[0.04]">
                 <div className="w-12 h-12 rounded-full bg-white/[0.04] flex items-center justify-center mx-auto mb-3">
                   <svg
@@ -715,30 +1583,17 @@ export function TasksView() {
               </div>
             ) : (
               <div className="space-y-0">
-                {todaysTasks.map((task) => (
-                  <TaskCard
-                    key={task.id}
-                    task={task}
-                    isCurrentTask={task.id === currentTaskId}
-                    isExpanded={expandedTaskIds.has(task.id)}
-                    onToggle={() => toggleTask(task.id)}
-                    onDelete={() => deleteTask(task.id)}
-                    onFocus={() => setCurrentTaskId(task.id === currentTaskId ? null : task.id)}
-                    onToggleExpand={() => toggleExpanded(task.id)}
-                    onAddSubtask={(title) => addSubtask(task.id, title)}
-                    onToggleSubtask={(subtaskId) => toggleSubtask(task.id, subtaskId)}
-                    onDeleteSubtask={(subtaskId) => deleteSubtask(task.id, subtaskId)}
-                    onRenameSubtask={(subtaskId, newTitle) =>
-                      renameSubtask(task.id, subtaskId, newTitle)
-                    }
-                    onRenameTask={(newTitle) => renameTask(task.id, newTitle)}
-                    ref={task.id === currentTaskId ? focusedTaskRef : undefined}
-                  />
-                ))}
+                {sections.today.map((task) => renderTaskCard(task))}
               </div>
             )}
           </div>
 
+          {/* Upcoming Section */}
+          {renderDatedSection('Upcoming', sections.upcoming)}
+
+          {/* Someday Section */}
+          {renderDatedSection('Someday', sections.someday)}
+
           {/* Completed Today Section */}
           {completedToday.length > 0 && (
             <div className="py-3 border-t border-white/[0.04]">
@@ -752,30 +1607,26 @@ export function TasksView() {
 
               {!isCompletedCollapsed && (
                 <div className="space-y-0">
-                  {completedToday.map((task) => (
-                    <TaskCard
-                      key={task.id}
-                      task={task}
-                      isCurrentTask={false}
-                      isExpanded={expandedTaskIds.has(task.id)}
-                      onToggle={() => toggleTask(task.id)}
-                      onDelete={() => deleteTask(task.id)}
-                      onFocus={() => {}}
-                      onToggleExpand={() => toggleExpanded(task.id)}
-                      onAddSubtask={(title) => addSubtask(task.id, title)}
-                      onToggleSubtask={(subtaskId) => toggleSubtask(task.id, subtaskId)}
-                      onDeleteSubtask={(subtaskId) => deleteSubtask(task.id, subtaskId)}
-                      onRenameSubtask={(subtaskId, newTitle) =>
-                        renameSubtask(task.id, subtaskId, newTitle)
-                      }
-                      onRenameTask={(newTitle) => renameTask(task.id, newTitle)}
-                      isCompleted
-                    />
-                  ))}
+                  {completedToday.map((task) => renderTaskCard(task, true))}
                 </div>
               )}
             </div>
           )}
+
+          {/* Estimate Accuracy Section */}
+          {estimateAccuracy.estimatedTasks > 0 && (
+            <div className="py-3 border-t border-white/[0.04]">
+              <SectionHeader
+                title="Estimates"
+                count={estimateAccuracy.estimatedTasks}
+                isCollapsible
+                isCollapsed={isEstimatesCollapsed}
+                onToggleCollapse={() => setIsEstimatesCollapsed(!isEstimatesCollapsed)}
+              />
+
+              {!isEstimatesCollapsed && <EstimateAccuracyReport accuracy={estimateAccuracy} />}
+            </div>
+          )}
         </div>
       </div>
     </div>
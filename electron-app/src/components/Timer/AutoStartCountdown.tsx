@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+import { TimerMode } from '../../types';
+import { timerService } from '../../services/timerService';
+
+const NEXT_BLOCK_LABELS: Record<TimerMode, string> = {
+  pomodoro: 'Focus',
+  shortBreak: 'Short break',
+  longBreak: 'Long break',
+  flow: 'Flow',
+};
+
+function getSecondsUntil(timestamp: number): number {
+  return Math.max(0, Math.ceil((timestamp - Date.now()) / 1000));
+}
+
+interface AutoStartCountdownProps {
+  mode: TimerMode;
+  autoStartAt: number;
+  compact?: boolean;
+}
+
+// Grace countdown shown while the cycle runner is about to start the next block
+export function AutoStartCountdown({ mode, autoStartAt, compact = false }: AutoStartCountdownProps) {
+  const [secondsLeft, setSecondsLeft] = useState(() => getSecondsUntil(autoStartAt));
+
+  useEffect(() => {
+    setSecondsLeft(getSecondsUntil(autoStartAt));
+    const interval = setInterval(() => setSecondsLeft(getSecondsUntil(autoStartAt)), 250);
+    return () => clearInterval(interval);
+  }, [autoStartAt]);
+
+  return (
+    <div
+      className={`no-drag flex items-center gap-2 rounded-full bg-white/10 text-white/70 ${
+        compact ? 'px-2 py-0.5 text-[10px]' : 'px-3 py-1.5 text-xs'
+      }`}
+    >
+      <span>
+        {NEXT_BLOCK_LABELS[mode]} starts in {secondsLeft}s
+      </span>
+      <button
+        onClick={() => timerService.cancelAutoStart()}
+        className="text-accent hover:text-accent-hover font-medium transition-colors"
+      >
+        Cancel
+      </button>
+    </div>
+  );
+}
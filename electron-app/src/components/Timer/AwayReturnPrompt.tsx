@@ -0,0 +1,72 @@
+import { AwayPeriod, TIMER_MODE_LABELS } from '../../types';
+import { keepAwayTime, discardAwayTime, resumeAfterAway } from '../../services/awayDetection';
+
+interface AwayReturnPromptProps {
+  period: AwayPeriod;
+}
+
+function formatAwayTime(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  return minutes < 1 ? 'under a minute' : `${minutes} min`;
+}
+
+// Offered on return from time away during focus: resume an auto-paused block,
+// or keep or discard the minutes a running one counted meanwhile
+export function AwayReturnPrompt({ period }: AwayReturnPromptProps) {
+  const label = TIMER_MODE_LABELS[period.mode];
+  const isPaused = period.behavior === 'pause';
+
+  const title = isPaused ? 'Paused while you were away' : 'Welcome back';
+  const detail = isPaused
+    ? `${label} paused after you stepped away for ${formatAwayTime(period.seconds)}.`
+    : `You were away for ${formatAwayTime(period.seconds)} while ${label.toLowerCase()} kept running.`;
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/40 backdrop-blur-sm z-40" />
+
+      {/* Popup */}
+      <div className="absolute inset-x-4 top-1/2 -translate-y-1/2 z-50 max-w-sm mx-auto bg-neutral-800/95 backdrop-blur-xl rounded-xl border border-white/10 shadow-2xl p-4">
+        <div className="text-center mb-4">
+          <h3 className="text-sm font-semibold text-white">{title}</h3>
+          <p className="text-xs text-white/50 mt-1">{detail}</p>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          {isPaused ? (
+            <>
+              <button
+                onClick={resumeAfterAway}
+                className="w-full py-2.5 rounded-lg bg-accent hover:bg-accent-hover text-white text-xs font-medium transition-colors"
+              >
+                Resume
+              </button>
+              <button
+                onClick={keepAwayTime}
+                className="w-full py-2 rounded-lg text-white/40 hover:text-white/60 text-xs transition-colors"
+              >
+                Stay Paused
+              </button>
+            </>
+          ) : (
+            <>
+              <button
+                onClick={discardAwayTime}
+                className="w-full py-2.5 rounded-lg bg-accent hover:bg-accent-hover text-white text-xs font-medium transition-colors"
+              >
+                Discard Away Time
+              </button>
+              <button
+                onClick={keepAwayTime}
+                className="w-full py-2 rounded-lg text-white/40 hover:text-white/60 text-xs transition-colors"
+              >
+                Keep as Focus
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
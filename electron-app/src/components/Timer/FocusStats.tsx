@@ -1,4 +1,5 @@
-import { useAppStore, calculateStreak, getTodaySummary, getWeekSummary } from '../../stores/useAppStore';
+import { useAppStore, calculateStreak, getTodaySummary, getWeekSummary, getFocusBreakdown } from '../../stores/useAppStore';
+import { DayActivity } from '../../types';
 
 // Get the last 7 days starting from today going backwards
 function getLast7Days(): { date: string; dayLabel: string }[] {
@@ -18,14 +19,14 @@ function getLast7Days(): { date: string; dayLabel: string }[] {
 }
 
 // Check if a day has activity
-function isDayActive(statsByDate: Record<string, { pomodoros: number; completedTasks: number; hasNote: boolean }>, date: string): boolean {
+function isDayActive(statsByDate: Record<string, DayActivity>, date: string): boolean {
   const activity = statsByDate[date];
   if (!activity) return false;
-  return activity.pomodoros > 0 || activity.completedTasks > 0 || activity.hasNote;
+  return activity.pomodoros > 0 || activity.focusSeconds > 0 || activity.completedTasks > 0 || activity.hasNote;
 }
 
 export function FocusStats() {
-  const { statsByDate } = useAppStore();
+  const { statsByDate, tasks, projects } = useAppStore();
 
   const streak = calculateStreak(statsByDate);
   const todaySummary = getTodaySummary(statsByDate);
@@ -33,6 +34,13 @@ export function FocusStats() {
   const last7Days = getLast7Days();
   const today = new Date().toISOString().split('T')[0];
 
+  // This week's focus minutes per project, most first
+  const breakdown = getFocusBreakdown(statsByDate, tasks, last7Days.map(({ date }) => date));
+  const projectMinutes = projects
+    .map((project) => ({ project, minutes: breakdown.byProject[project.id] ?? 0 }))
+    .filter(({ minutes }) => minutes > 0)
+    .sort((a, b) => b.minutes - a.minutes);
+
   return (
     <div className="w-full max-w-xs rounded-2xl bg-white/[0.04] border border-white/[0.08] px-4 py-3.5 flex flex-col gap-3">
       {/* Header row: Streak + Label */}
@@ -105,6 +113,26 @@ export function FocusStats() {
         <span className="text-white/15">·</span>
         <span>{weekSummary.activeDays} active days</span>
       </div>
+
+      {/* Week focus by project */}
+      {projectMinutes.length > 0 && (
+        <div className="flex flex-col gap-1 text-[11px]">
+          {projectMinutes.map(({ project, minutes }) => (
+            <div key={project.id} className="flex items-center gap-2 text-white/50">
+              <span className="w-1.5 h-1.5 rounded-full flex-shrink-0" style={{ backgroundColor: project.color }} />
+              <span className="truncate">{project.name}</span>
+              <span className="ml-auto text-white/40">{minutes} min</span>
+            </div>
+          ))}
+          {breakdown.withoutProject > 0 && (
+            <div className="flex items-center gap-2 text-white/30">
+              <span className="w-1.5 h-1.5 rounded-full flex-shrink-0 bg-white/20" />
+              <span>No project</span>
+              <span className="ml-auto">{breakdown.withoutProject} min</span>
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 }
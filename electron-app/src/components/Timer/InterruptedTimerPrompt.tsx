@@ -0,0 +1,92 @@
+import { useEffect, useState } from 'react';
+import { SavedTimer, TIMER_MODE_LABELS } from '../../types';
+import {
+  canResumeSavedTimer,
+  getSavedElapsedSeconds,
+  resumeInterruptedTimer,
+  recordInterruptedTimer,
+  discardInterruptedTimer,
+} from '../../services/timerRestore';
+
+interface InterruptedTimerPromptProps {
+  saved: SavedTimer;
+}
+
+function formatClock(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return `${minutes.toString().padStart(2, '0')}:${rest.toString().padStart(2, '0')}`;
+}
+
+// Offered on launch when a block was still running as the app closed
+export function InterruptedTimerPrompt({ saved }: InterruptedTimerPromptProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  // A countdown keeps running on the wall clock while the prompt is open
+  useEffect(() => {
+    if (saved.mode === 'flow') return;
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, [saved.mode]);
+
+  const label = TIMER_MODE_LABELS[saved.mode];
+  const isFlow = saved.mode === 'flow';
+  const canResume = canResumeSavedTimer(saved, now);
+
+  let title: string;
+  let detail: string;
+  if (isFlow) {
+    title = 'Pick up your flow?';
+    detail = `${Math.round(getSavedElapsedSeconds(saved) / 60)} min focused before CapyFocus closed.`;
+  } else if (canResume) {
+    title = 'Pick up where you left off?';
+    detail = `${label} is still running: ${formatClock(Math.ceil(((saved.targetEndTime ?? now) - now) / 1000))} left.`;
+  } else {
+    title = `${label} finished while CapyFocus was closed`;
+    detail = `It ended at ${new Date(saved.targetEndTime ?? saved.savedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.`;
+  }
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/40 backdrop-blur-sm z-40" />
+
+      {/* Popup */}
+      <div className="absolute inset-x-4 top-1/2 -translate-y-1/2 z-50 max-w-sm mx-auto bg-neutral-800/95 backdrop-blur-xl rounded-xl border border-white/10 shadow-2xl p-4">
+        <div className="text-center mb-4">
+          <h3 className="text-sm font-semibold text-white">{title}</h3>
+          <p className="text-xs text-white/50 mt-1">{detail}</p>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          {canResume && (
+            <button
+              onClick={resumeInterruptedTimer}
+              className="w-full py-2.5 rounded-lg bg-accent hover:bg-accent-hover text-white text-xs font-medium transition-colors"
+            >
+              Resume
+            </button>
+          )}
+          {(isFlow || !canResume) && (
+            <button
+              onClick={recordInterruptedTimer}
+              className={`w-full py-2.5 rounded-lg text-xs font-medium transition-colors ${
+                canResume
+                  ? 'bg-green-500/20 hover:bg-green-500/30 text-green-400'
+                  : 'bg-accent hover:bg-accent-hover text-white'
+              }`}
+            >
+              Record Session
+            </button>
+          )}
+          <button
+            onClick={discardInterruptedTimer}
+            className="w-full py-2 rounded-lg text-white/40 hover:text-white/60 text-xs transition-colors"
+          >
+            Discard
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,94 @@
+import { useEffect, useState } from 'react';
+import { useAppStore } from '../../stores/useAppStore';
+import { SessionPhase, BreathingStep, BREATHING_PATTERN, BREATHING_STEP_LABELS } from '../../types';
+
+const REFLECTION_PROMPTS = [
+  'What did you get done?',
+  'What is the very next step?',
+  'Did anything pull you out of focus?',
+];
+
+interface SessionPhasePanelProps {
+  phase: SessionPhase;
+  breathingStep: { step: BreathingStep; secondsLeft: number } | null;
+  onSkip: () => void;
+}
+
+// Guidance shown under the timer while a warm-up, breathing or cool-down phase runs
+export function SessionPhasePanel({ phase, breathingStep, onSkip }: SessionPhasePanelProps) {
+  const { setSelectedTab } = useAppStore();
+
+  return (
+    <div className="mt-5 w-full max-w-xs px-4 py-3 rounded-xl frosted-glass-light border border-white/[0.08] text-center">
+      {phase === 'warmup' && (
+        <p className="text-xs text-white/60">
+          Settle in: clear your desk, silence distractions and pick the first small step.
+        </p>
+      )}
+
+      {phase === 'breathing' && breathingStep && (
+        <BreathingGuide step={breathingStep.step} secondsLeft={breathingStep.secondsLeft} />
+      )}
+
+      {phase === 'cooldown' && (
+        <>
+          <p className="text-xs text-white/60 mb-2">Nice work. Take a moment before the break:</p>
+          <ul className="space-y-1 text-xs text-white/80">
+            {REFLECTION_PROMPTS.map((prompt) => (
+              <li key={prompt}>{prompt}</li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      <div className="flex items-center justify-center gap-2 mt-3">
+        {phase === 'cooldown' && (
+          <button
+            onClick={() => setSelectedTab('notes')}
+            className="px-3 py-1.5 rounded-full bg-white/10 hover:bg-white/20 text-xs text-white/70 transition-colors"
+          >
+            Write in Notes
+          </button>
+        )}
+        <button
+          onClick={onSkip}
+          className="px-3 py-1.5 rounded-full bg-white/10 hover:bg-white/20 text-xs text-white/70 transition-colors"
+        >
+          {phase === 'cooldown' ? 'Done' : 'Skip'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+interface BreathingGuideProps {
+  step: BreathingStep;
+  secondsLeft: number;
+}
+
+// Circle that grows on the inhale, holds, and shrinks on the exhale
+function BreathingGuide({ step, secondsLeft }: BreathingGuideProps) {
+  // Start small so the first inhale visibly grows
+  const [hasMounted, setHasMounted] = useState(false);
+  useEffect(() => {
+    const frame = requestAnimationFrame(() => setHasMounted(true));
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  const stepSeconds = BREATHING_PATTERN.find((entry) => entry.step === step)?.seconds ?? 4;
+  const scale = !hasMounted || step === 'exhale' ? 0.5 : 1;
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div className="w-16 h-16 flex items-center justify-center">
+        <div
+          className="w-16 h-16 rounded-full bg-teal-400/30 border border-teal-300/40 transition-transform ease-in-out"
+          style={{ transform: `scale(${scale})`, transitionDuration: `${stepSeconds}s` }}
+        />
+      </div>
+      <p className="text-sm text-white/80 font-medium">
+        {BREATHING_STEP_LABELS[step]} <span className="text-white/40 font-normal">{secondsLeft}</span>
+      </p>
+    </div>
+  );
+}
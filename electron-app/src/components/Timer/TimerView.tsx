@@ -1,9 +1,12 @@
-import { useEffect, useRef } from 'react';
+import { useEffect } from 'react';
 import { useTimer } from '../../hooks/useTimer';
-import { useAppStore, getTodaySummary, calculateStreak } from '../../stores/useAppStore';
+import { useAppStore, getTodaySummary, calculateStreak, getTaskEstimate } from '../../stores/useAppStore';
 import { useSettingsStore } from '../../stores/useSettingsStore';
-import { TimerMode, TIMER_MODE_LABELS } from '../../types';
+import { TimerMode, DayActivity, TIMER_MODE_LABELS } from '../../types';
 import { FocusStats } from './FocusStats';
+import { AutoStartCountdown } from './AutoStartCountdown';
+import { SessionPhasePanel } from './SessionPhasePanel';
+import { timerService } from '../../services/timerService';
 
 export function TimerView() {
   const timer = useTimer();
@@ -15,13 +18,10 @@ export function TimerView() {
     setShowPomodoroPopup,
     incrementTaskPomodoros,
     completeTask,
-    recordPomodoro,
     statsByDate,
   } = useAppStore();
   const { timerSize, showTaskProgressInTimer, mindLockEnabled } = useSettingsStore();
 
-  const prevSecondsRef = useRef(timer.secondsLeft);
-
   // Get current task details
   const currentTask = currentTaskId
     ? tasks.find((t) => t.id === currentTaskId)
@@ -37,6 +37,9 @@ export function TimerView() {
   };
   const taskProgress = getTaskProgress();
 
+  // Pomodoros spent against the estimate, when the task has one
+  const taskEstimate = currentTask && showTaskProgressInTimer ? getTaskEstimate(currentTask) : undefined;
+
   // Check if pause is allowed (mind lock)
   const canPause = !mindLockEnabled || timer.mode !== 'pomodoro';
 
@@ -53,25 +56,22 @@ export function TimerView() {
     }
   };
 
-  // Detect when pomodoro completes (seconds goes to 0 from > 0)
+  // Show the completion popup when a pomodoro finishes (the cycle runner may
+  // switch to the break right away, so listen for the completion event).
+  // Its stats are already recorded by the session tracker; the popup only
+  // credits the pomodoro to the task.
   useEffect(() => {
-    if (
-      timer.mode === 'pomodoro' &&
-      prevSecondsRef.current > 0 &&
-      timer.secondsLeft === 0 &&
-      !timer.isRunning &&
-      currentTask
-    ) {
-      setShowPomodoroPopup(true);
-    }
-    prevSecondsRef.current = timer.secondsLeft;
-  }, [timer.secondsLeft, timer.isRunning, timer.mode, currentTask, setShowPomodoroPopup]);
+    return timerService.onComplete((mode) => {
+      if (mode === 'pomodoro' && useAppStore.getState().currentTaskId) {
+        setShowPomodoroPopup(true);
+      }
+    });
+  }, [setShowPomodoroPopup]);
 
   const handleAddPomodoro = () => {
     if (currentTaskId) {
       incrementTaskPomodoros(currentTaskId);
     }
-    recordPomodoro(); // Record for stats
     setShowPomodoroPopup(false);
   };
 
@@ -80,7 +80,6 @@ export function TimerView() {
       incrementTaskPomodoros(currentTaskId);
       completeTask(currentTaskId);
     }
-    recordPomodoro(); // Record for stats
     setShowPomodoroPopup(false);
   };
 
@@ -88,11 +87,18 @@ export function TimerView() {
     setShowPomodoroPopup(false);
   };
 
-  const progressColor = {
-    pomodoro: '#6366f1',
-    shortBreak: '#22c55e',
-    longBreak: '#3b82f6',
-  }[timer.mode];
+  const progressColor = timer.phase
+    ? {
+        warmup: '#f59e0b',
+        breathing: '#14b8a6',
+        cooldown: '#a855f7',
+      }[timer.phase]
+    : {
+        pomodoro: '#6366f1',
+        shortBreak: '#22c55e',
+        longBreak: '#3b82f6',
+        flow: '#f97316',
+      }[timer.mode];
 
   const circumference = 2 * Math.PI * radius;
   const strokeDashoffset = circumference * (1 - timer.progress);
@@ -124,6 +130,16 @@ export function TimerView() {
                     • {taskProgress.completed}/{taskProgress.total}
                   </span>
                 )}
+                {currentTask && taskEstimate && (
+                  <span
+                    title="Pomodoros spent / estimated"
+                    className={`text-xs font-medium ${
+                      currentTask.spentPomodoros > taskEstimate ? 'text-red-400/80' : 'text-orange-400/80'
+                    }`}
+                  >
+                    • {currentTask.spentPomodoros}/{taskEstimate} 🍅
+                  </span>
+                )}
                 <svg className="w-3 h-3 text-white/30 flex-shrink-0 group-hover:text-white/50 transition-colors ml-auto" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
                   <path strokeLinecap="round" strokeLinejoin="round" d="M9 5l7 7-7 7" />
                 </svg>
@@ -172,7 +188,7 @@ export function TimerView() {
                 {timer.formattedTime}
               </span>
               <span className="text-xs text-white/50 mt-1">
-                {TIMER_MODE_LABELS[timer.mode]}
+                {timer.phaseLabel ?? TIMER_MODE_LABELS[timer.mode]}
               </span>
             </div>
           </div>
@@ -196,7 +212,7 @@ export function TimerView() {
 
           {/* Mode selector */}
           <div className="flex gap-2 mt-6">
-            {(['pomodoro', 'shortBreak', 'longBreak'] as TimerMode[]).map((mode) => (
+            {(['pomodoro', 'flow', 'shortBreak', 'longBreak'] as TimerMode[]).map((mode) => (
               <button
                 key={mode}
                 onClick={() => timer.setMode(mode)}
@@ -267,6 +283,7 @@ export function TimerView() {
             {/* Skip */}
             <button
               onClick={timer.skip}
+              title={timer.mode === 'flow' ? 'Finish flow' : undefined}
               className="w-11 h-11 rounded-full bg-white/10 hover:bg-white/20 flex items-center justify-center transition-colors"
             >
               <svg
@@ -279,6 +296,29 @@ export function TimerView() {
             </button>
           </div>
 
+          {/* Warm-up, breathing or cool-down guidance */}
+          {timer.phase && (
+            <SessionPhasePanel
+              phase={timer.phase}
+              breathingStep={timer.breathingStep}
+              onSkip={timer.skipPhase}
+            />
+          )}
+
+          {/* Break sized to the flow block that just ended */}
+          {timer.suggestedBreakSeconds && !timer.isRunning && (
+            <p className="mt-4 text-xs text-white/50">
+              Flow finished. Take a {Math.round(timer.suggestedBreakSeconds / 60)}-minute break.
+            </p>
+          )}
+
+          {/* Pending auto-advance */}
+          {timer.autoStartAt && (
+            <div className="mt-4">
+              <AutoStartCountdown mode={timer.mode} autoStartAt={timer.autoStartAt} />
+            </div>
+          )}
+
           {/* Mini Daily Summary */}
           <MiniDailySummary statsByDate={statsByDate} />
 
@@ -319,7 +359,7 @@ interface PomodoroCompletionPopupProps {
 }
 
 interface MiniDailySummaryProps {
-  statsByDate: Record<string, { pomodoros: number; completedTasks: number; notes: number }>;
+  statsByDate: Record<string, DayActivity>;
 }
 
 function MiniDailySummary({ statsByDate }: MiniDailySummaryProps) {
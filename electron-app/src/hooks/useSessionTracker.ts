@@ -6,17 +6,20 @@
  */
 
 import { useEffect, useRef, useCallback } from 'react';
-import { useAppStore } from '../stores/useAppStore';
+import { useAppStore, getTaskEstimate } from '../stores/useAppStore';
 import { aiCoachService } from '../services/aiCoach';
+import { timerService } from '../services/timerService';
+import { onInterruptedTimerResolved, getSavedElapsedSeconds } from '../services/timerRestore';
+import { onAwayPause } from '../services/awayDetection';
 import { useCoachStore } from '../stores/useCoachStore';
-import { UserFocusContext } from '../types';
+import { SavedTimer, TimerMode, UserFocusContext } from '../types';
 
 const isDev = import.meta.env.DEV;
 
 interface ActiveSession {
   id?: string;
   startTime: string;
-  mode: 'pomodoro' | 'shortBreak' | 'longBreak';
+  mode: TimerMode;
   taskId?: string;
   taskTitle?: string;
   pausesCount: number;
@@ -24,15 +27,27 @@ interface ActiveSession {
 
 /**
  * Hook to track timer sessions and generate insights on completion.
- * Should be used at the app root level.
+ * Should be used at the app root level. Pass `enabled = false` in secondary
+ * windows so each session is only logged once.
  */
-export function useSessionTracker() {
-  const { timer, currentTaskId, tasks, currentUser, statsByDate } = useAppStore();
+export function useSessionTracker(enabled = true) {
+  const {
+    timer,
+    currentTaskId,
+    tasks,
+    currentUser,
+    statsByDate,
+    recordPomodoro,
+    recordFlowSession,
+    setActiveSessionId,
+  } = useAppStore();
   const { generateInsight } = useCoachStore();
 
   // Track the active session
   const activeSession = useRef<ActiveSession | null>(null);
   const wasRunning = useRef(false);
+  // Block from before a restart that is about to be resumed; its row is reused
+  const resumedSession = useRef<SavedTimer | null>(null);
 
   // Get the current task info
   const getCurrentTask = useCallback(() => {
@@ -62,6 +77,7 @@ export function useSessionTracker() {
     // Use the aiCoachService to build full context
     const todayStats = statsByDate[new Date().toISOString().split('T')[0]] || {
       pomodoros: 0,
+      focusSeconds: 0,
       completedTasks: 0,
     };
 
@@ -70,6 +86,7 @@ export function useSessionTracker() {
       title: t.title,
       isCompleted: t.isCompleted,
       spentPomodoros: t.spentPomodoros,
+      estimatedPomodoros: getTaskEstimate(t),
     }));
 
     const currentTask = getCurrentTask();
@@ -79,7 +96,7 @@ export function useSessionTracker() {
       taskData,
       {
         pomodoros: todayStats.pomodoros,
-        focusMinutes: todayStats.pomodoros * 25,
+        focusMinutes: Math.round(todayStats.focusSeconds / 60),
         tasksCompleted: todayStats.completedTasks,
       },
       currentTask?.title
@@ -100,6 +117,22 @@ export function useSessionTracker() {
   const logSessionStart = useCallback(async () => {
     if (!currentUser) return;
 
+    // A block resumed after a restart carries on in the row it already has
+    const resumed = resumedSession.current;
+    resumedSession.current = null;
+    if (resumed?.sessionId && resumed.mode === timer.mode) {
+      const resumedTask = tasks.find((t) => t.id === resumed.taskId);
+      activeSession.current = {
+        id: resumed.sessionId,
+        startTime: new Date(resumed.runStartedAt).toISOString(),
+        mode: resumed.mode,
+        taskId: resumedTask?.id,
+        taskTitle: resumedTask?.title,
+        pausesCount: 0,
+      };
+      return;
+    }
+
     const currentTask = getCurrentTask();
     const session: ActiveSession = {
       startTime: new Date().toISOString(),
@@ -125,6 +158,7 @@ export function useSessionTracker() {
 
       if (logged) {
         activeSession.current.id = logged.id;
+        setActiveSessionId(logged.id);
         if (isDev) {
           console.log('[SessionTracker] Session started:', logged.id);
         }
@@ -134,7 +168,7 @@ export function useSessionTracker() {
         console.error('[SessionTracker] Failed to log session start:', error);
       }
     }
-  }, [currentUser, timer.mode, getCurrentTask]);
+  }, [currentUser, timer.mode, tasks, getCurrentTask, setActiveSessionId]);
 
   // Log session pause
   const logSessionPause = useCallback(async () => {
@@ -158,14 +192,23 @@ export function useSessionTracker() {
 
   // Log session completion and trigger insight generation
   const logSessionComplete = useCallback(
-    async (completed: boolean) => {
+    async (completed: boolean, elapsedSeconds?: number) => {
       if (!activeSession.current || !currentUser) return;
 
       const session = activeSession.current;
+      // Clear right away so the mode change that follows a completion
+      // isn't also logged as an abandoned session
+      activeSession.current = null;
+      if (session.id) {
+        setActiveSessionId(null);
+      }
+
       const endTime = new Date().toISOString();
       const startDate = new Date(session.startTime);
       const endDate = new Date(endTime);
-      const durationSeconds = Math.round((endDate.getTime() - startDate.getTime()) / 1000);
+      // Prefer the timer's own count, which leaves out pauses
+      const durationSeconds = elapsedSeconds
+        ?? Math.round((endDate.getTime() - startDate.getTime()) / 1000);
 
       // Update session in Supabase
       if (session.id) {
@@ -190,16 +233,13 @@ export function useSessionTracker() {
         }
       }
 
-      // Only generate insight for completed pomodoro sessions
-      if (completed && session.mode === 'pomodoro') {
+      // Only generate insight for completed focus sessions
+      if (completed && (session.mode === 'pomodoro' || session.mode === 'flow')) {
         // Trigger insight generation in background (non-blocking)
         generateInsightAsync(session.id);
       }
-
-      // Clear active session
-      activeSession.current = null;
     },
-    [currentUser]
+    [currentUser, setActiveSessionId]
   );
 
   // Generate insight asynchronously with retry
@@ -243,6 +283,8 @@ export function useSessionTracker() {
 
   // Track timer state changes
   useEffect(() => {
+    if (!enabled) return;
+
     const isNowRunning = timer.isRunning;
     const wasPreviouslyRunning = wasRunning.current;
 
@@ -251,21 +293,105 @@ export function useSessionTracker() {
       logSessionStart();
     }
 
-    // Timer paused (but not stopped/completed)
-    if (!isNowRunning && wasPreviouslyRunning && timer.secondsLeft > 0) {
+    // Timer paused (but not stopped/completed); flow has no countdown to run out
+    if (!isNowRunning && wasPreviouslyRunning && (timer.secondsLeft > 0 || timer.mode === 'flow')) {
       logSessionPause();
     }
 
     wasRunning.current = isNowRunning;
-  }, [timer.isRunning, timer.secondsLeft, logSessionStart, logSessionPause]);
+  }, [enabled, timer.isRunning, timer.secondsLeft, timer.mode, logSessionStart, logSessionPause]);
 
-  // Track timer completion (secondsLeft reaches 0)
+  // Time away that the block kept running through counts as a pause when it's
+  // flagged or discarded (an auto-pause is already caught above)
   useEffect(() => {
-    if (timer.secondsLeft === 0 && activeSession.current) {
-      // Timer completed naturally
-      logSessionComplete(true);
-    }
-  }, [timer.secondsLeft, logSessionComplete]);
+    if (!enabled) return;
+    return onAwayPause(() => {
+      logSessionPause();
+    });
+  }, [enabled, logSessionPause]);
+
+  // Record every finished block in the focus stats, whichever window (or the
+  // CLI, tray or mini widget) ran it and even if it ended while this window
+  // wasn't listening; the Timer's popup only credits the pomodoro to a task
+  useEffect(() => {
+    if (!enabled) return;
+    return timerService.recordCompletions((mode, elapsedSeconds) => {
+      const { currentTaskId: taskId } = useAppStore.getState();
+      if (mode === 'pomodoro') {
+        recordPomodoro(elapsedSeconds, taskId);
+      }
+      // Flow blocks have no fixed length, so their stats come from the time focused
+      if (mode === 'flow') {
+        recordFlowSession(elapsedSeconds, taskId);
+      }
+    });
+  }, [enabled, recordPomodoro, recordFlowSession]);
+
+  // Track timer completion - the cycle runner may switch modes right after
+  // 00:00, so listen for the completion event rather than watching secondsLeft
+  useEffect(() => {
+    return timerService.onComplete((_mode, elapsedSeconds) => {
+      if (activeSession.current) {
+        logSessionComplete(true, elapsedSeconds);
+      }
+    });
+  }, [logSessionComplete]);
+
+  // Close out the row of a block interrupted by a restart once the user decides
+  // what to do with it; a resumed block keeps its row
+  useEffect(() => {
+    if (!enabled) return;
+
+    return onInterruptedTimerResolved(async (saved, outcome) => {
+      if (!saved.sessionId) return;
+      if (outcome === 'resumed') {
+        resumedSession.current = saved;
+        return;
+      }
+      if (!currentUser) return;
+
+      const completed = outcome === 'recorded';
+      // A recorded countdown ran to its end time; otherwise count what had run
+      const endTime = completed && saved.targetEndTime ? saved.targetEndTime : saved.savedAt;
+      const durationSeconds = completed && saved.targetEndTime
+        ? Math.round((saved.targetEndTime - saved.runStartedAt) / 1000)
+        : getSavedElapsedSeconds(saved);
+
+      setActiveSessionId(null);
+      try {
+        await aiCoachService.updateTimerSession(saved.sessionId, {
+          end_time: new Date(endTime).toISOString(),
+          duration_seconds: durationSeconds,
+          completed,
+        });
+        if (isDev) {
+          console.log('[SessionTracker] Interrupted session closed:', { id: saved.sessionId, outcome });
+        }
+      } catch (error) {
+        if (isDev) {
+          console.error('[SessionTracker] Failed to close interrupted session:', error);
+        }
+      }
+    });
+  }, [enabled, currentUser, setActiveSessionId]);
+
+  // A row still open from the last run with no saved block to go with it
+  // (e.g. the app quit while paused) is closed as not completed
+  useEffect(() => {
+    if (!enabled || !currentUser) return;
+
+    const { activeSessionId, savedTimer } = useAppStore.getState();
+    if (!activeSessionId || activeSession.current || savedTimer?.sessionId === activeSessionId) return;
+
+    setActiveSessionId(null);
+    aiCoachService
+      .updateTimerSession(activeSessionId, { end_time: new Date().toISOString(), completed: false })
+      .catch((error) => {
+        if (isDev) {
+          console.error('[SessionTracker] Failed to close orphaned session:', error);
+        }
+      });
+  }, [enabled, currentUser, setActiveSessionId]);
 
   // Track manual reset/skip (session abandoned)
   const previousMode = useRef(timer.mode);
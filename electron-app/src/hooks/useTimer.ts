@@ -1,58 +1,38 @@
-import { useEffect, useRef, useCallback } from 'react';
-import { useAppStore } from '../stores/useAppStore';
-import { TIMER_DURATIONS } from '../types';
-import { useSettingsStore, getFocusDurationSeconds } from '../stores/useSettingsStore';
+import { useEffect, useCallback } from 'react';
+import { useAppStore, getNextTask } from '../stores/useAppStore';
+import { TimerMode, SESSION_PHASE_LABELS, BREATHING_STEP_LABELS } from '../types';
+import { useSettingsStore, getTimerDurations, getPhaseDurations } from '../stores/useSettingsStore';
+import { timerService, getBreathingStep } from '../services/timerService';
 
 export function useTimer() {
   const settings = useSettingsStore();
   const {
     timer,
-    setTimerSeconds,
-    setTimerRunning,
-    setTimerMode,
-    setTargetEndTime,
-    incrementPomodoros,
-    resetTimer,
     tasks,
     currentTaskId,
     setCurrentTaskId,
   } = useAppStore();
 
-  const intervalRef = useRef<number | null>(null);
-
   const start = useCallback(() => {
     if (timer.isRunning) return;
 
     // Auto-assign task: if starting a pomodoro with no task selected and autoAssignTask is enabled,
-    // select the first incomplete task
+    // select the highest-priority incomplete task (the top one in manual order on a tie)
     if (timer.mode === 'pomodoro' && settings.autoAssignTask && !currentTaskId) {
-      const firstIncompleteTask = tasks.find((t) => !t.isCompleted);
-      if (firstIncompleteTask) {
-        setCurrentTaskId(firstIncompleteTask.id);
+      const nextTask = getNextTask(tasks);
+      if (nextTask) {
+        setCurrentTaskId(nextTask.id);
       }
     }
 
-    // Store targetEndTime in global state (persists across section switches)
-    setTargetEndTime(Date.now() + timer.secondsLeft * 1000);
-    setTimerRunning(true);
-  }, [timer.isRunning, timer.secondsLeft, timer.mode, settings.autoAssignTask, currentTaskId, tasks, setCurrentTaskId, setTimerRunning, setTargetEndTime]);
+    timerService.start();
+  }, [timer.isRunning, timer.mode, settings.autoAssignTask, currentTaskId, tasks, setCurrentTaskId]);
 
+  // Mind Lock is enforced by the timer engine, whoever asks for the pause
   const pause = useCallback(() => {
     if (!timer.isRunning) return;
-
-    // Mind Lock: prevent pausing during pomodoro mode when enabled
-    if (settings.mindLockEnabled && timer.mode === 'pomodoro') {
-      return;
-    }
-
-    if (timer.targetEndTime) {
-      const remaining = Math.max(0, (timer.targetEndTime - Date.now()) / 1000);
-      setTimerSeconds(Math.ceil(remaining));
-    }
-
-    setTargetEndTime(null);
-    setTimerRunning(false);
-  }, [timer.isRunning, timer.targetEndTime, timer.mode, settings.mindLockEnabled, setTimerSeconds, setTimerRunning, setTargetEndTime]);
+    timerService.pause();
+  }, [timer.isRunning]);
 
   const toggle = useCallback(() => {
     if (timer.isRunning) {
@@ -62,95 +42,22 @@ export function useTimer() {
     }
   }, [timer.isRunning, start, pause]);
 
-  // Settings-aware reset: uses settings duration for pomodoro
+  // Durations come from settings via timerService
   const reset = useCallback(() => {
-    setTimerRunning(false);
-    setTargetEndTime(null);
-    if (timer.mode === 'pomodoro') {
-      setTimerSeconds(getFocusDurationSeconds(settings));
-    } else {
-      setTimerSeconds(TIMER_DURATIONS[timer.mode]);
-    }
-  }, [timer.mode, settings, setTimerSeconds, setTimerRunning, setTargetEndTime]);
-
-  // Settings-aware mode change
-  const changeMode = useCallback((mode: 'pomodoro' | 'shortBreak' | 'longBreak') => {
-    setTimerRunning(false);
-    setTargetEndTime(null);
-    setTimerMode(mode);
-    if (mode === 'pomodoro') {
-      setTimerSeconds(getFocusDurationSeconds(settings));
-    } else {
-      setTimerSeconds(TIMER_DURATIONS[mode]);
-    }
-  }, [settings, setTimerMode, setTimerSeconds, setTimerRunning, setTargetEndTime]);
-
-  const skip = useCallback(() => {
-    const { mode, completedPomodoros } = timer;
-
-    if (mode === 'pomodoro') {
-      if (completedPomodoros > 0 && (completedPomodoros + 1) % 4 === 0) {
-        changeMode('longBreak');
-      } else {
-        changeMode('shortBreak');
-      }
-    } else {
-      changeMode('pomodoro');
-    }
-  }, [timer, changeMode]);
+    timerService.reset();
+  }, []);
 
-  // Timer tick effect - uses global targetEndTime from store
-  useEffect(() => {
-    if (!timer.isRunning) {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
-      return;
-    }
+  const changeMode = useCallback((mode: TimerMode) => {
+    timerService.setMode(mode);
+  }, []);
 
-    intervalRef.current = window.setInterval(() => {
-      if (!timer.targetEndTime) return;
-
-      const remaining = Math.max(0, (timer.targetEndTime - Date.now()) / 1000);
-      const newSecondsLeft = Math.ceil(remaining);
-
-      if (newSecondsLeft <= 0) {
-        // Timer complete
-        setTimerRunning(false);
-        setTimerSeconds(0);
-        setTargetEndTime(null);
-
-        if (timer.mode === 'pomodoro') {
-          incrementPomodoros();
-        }
-
-        // Send notification
-        if (Notification.permission === 'granted') {
-          const titles = {
-            pomodoro: 'Focus session complete!',
-            shortBreak: 'Short break over',
-            longBreak: 'Long break over',
-          };
-          const bodies = {
-            pomodoro: 'Great work! Time for a break.',
-            shortBreak: 'Ready to focus again?',
-            longBreak: 'Refreshed? Let\'s get back to work!',
-          };
-          new Notification(titles[timer.mode], { body: bodies[timer.mode] });
-        }
-      } else {
-        setTimerSeconds(newSecondsLeft);
-      }
-    }, 100);
+  const skip = useCallback(() => {
+    timerService.skip();
+  }, []);
 
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
-    };
-  }, [timer.isRunning, timer.mode, timer.targetEndTime, setTimerSeconds, setTimerRunning, setTargetEndTime, incrementPomodoros]);
+  const skipPhase = useCallback(() => {
+    timerService.skipPhase();
+  }, []);
 
   // Request notification permission
   useEffect(() => {
@@ -159,25 +66,48 @@ export function useTimer() {
     }
   }, []);
 
+  // While a session phase runs, the display counts down the phase instead;
+  // flow counts up
+  const displaySeconds = timer.phase
+    ? timer.phaseSecondsLeft ?? 0
+    : timer.mode === 'flow' ? timer.elapsedSeconds ?? 0 : timer.secondsLeft;
+
   const formattedTime = useCallback(() => {
-    const totalSeconds = Math.max(0, Math.floor(timer.secondsLeft));
+    const totalSeconds = Math.max(0, Math.floor(displaySeconds));
     const minutes = Math.floor(totalSeconds / 60);
     const seconds = totalSeconds % 60;
     return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
-  }, [timer.secondsLeft]);
+  }, [displaySeconds]);
 
-  // Get total duration based on mode and settings
+  // Get total duration based on mode (or phase) and settings
   const getTotalDuration = useCallback(() => {
-    if (timer.mode === 'pomodoro') {
-      return getFocusDurationSeconds(settings);
+    if (timer.phase) {
+      return getPhaseDurations(settings)[timer.phase];
     }
-    return TIMER_DURATIONS[timer.mode];
-  }, [timer.mode, settings]);
+    return getTimerDurations(settings)[timer.mode];
+  }, [timer.mode, timer.phase, settings]);
 
   const progress = useCallback(() => {
+    // Flow fills towards the soft cap, or laps once an hour without one
+    if (timer.mode === 'flow' && !timer.phase) {
+      const softCap = Math.max(0, settings.flowSoftCap) * 60;
+      return softCap > 0
+        ? Math.min(1, displaySeconds / softCap)
+        : (displaySeconds % 3600) / 3600;
+    }
     const total = getTotalDuration();
-    return 1 - timer.secondsLeft / total;
-  }, [timer.secondsLeft, getTotalDuration]);
+    return total > 0 ? 1 - displaySeconds / total : 0;
+  }, [displaySeconds, getTotalDuration, timer.mode, timer.phase, settings.flowSoftCap]);
+
+  // Current inhale/hold/exhale step during the breathing phase
+  const breathingStep = timer.phase === 'breathing'
+    ? getBreathingStep(getTotalDuration() - displaySeconds)
+    : null;
+
+  // What to call the running phase (the breathing step while breathing)
+  const phaseLabel = breathingStep
+    ? BREATHING_STEP_LABELS[breathingStep.step]
+    : timer.phase ? SESSION_PHASE_LABELS[timer.phase] : null;
 
   return {
     ...timer,
@@ -186,9 +116,12 @@ export function useTimer() {
     toggle,
     reset,
     skip,
+    skipPhase,
     setMode: changeMode,
     formattedTime: formattedTime(),
     progress: progress(),
+    breathingStep,
+    phaseLabel,
     mindLockEnabled: settings.mindLockEnabled,
   };
 }
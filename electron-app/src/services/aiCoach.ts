@@ -1,4 +1,5 @@
 import { supabase } from './supabase';
+import { getEstimateAccuracy } from '../stores/useAppStore';
 import {
   AIConversation,
   AIMessage,
@@ -267,7 +268,7 @@ export class AICoachService {
 
   async buildFocusContext(
     userId: string,
-    tasks: { id: string; title: string; isCompleted: boolean; spentPomodoros: number }[],
+    tasks: { id: string; title: string; isCompleted: boolean; spentPomodoros: number; estimatedPomodoros?: number }[],
     todayStats: { pomodoros: number; focusMinutes: number; tasksCompleted: number },
     currentTask?: string
   ): Promise<UserFocusContext> {
@@ -314,6 +315,7 @@ export class AICoachService {
     const avgPomodoros = completedTasks.length > 0
       ? completedTasks.reduce((sum, t) => sum + t.spentPomodoros, 0) / completedTasks.length
       : 0;
+    const estimateAccuracy = getEstimateAccuracy(tasks);
 
     // Calculate streak (consecutive days with activity)
     const sortedDates = Array.from(sessionsByDate.keys()).sort().reverse();
@@ -338,6 +340,7 @@ export class AICoachService {
         totalTasks: tasks.length,
         completedTasks: completedTasks.length,
         averagePomodorosPerTask: Math.round(avgPomodoros * 10) / 10,
+        ...(estimateAccuracy.estimatedTasks > 0 && { estimateAccuracy }),
       },
       streak: {
         currentDays: currentStreak,
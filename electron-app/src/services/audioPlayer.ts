@@ -20,6 +20,15 @@ async function getAudioPath(fileName: string): Promise<string> {
 class AudioPlayer {
   private audio: HTMLAudioElement | null = null;
   private currentTrackIndex: number = 0;
+  private volume: number = 0.7;
+  private duckLevel: number = 1;
+  private duckTimeout: number | null = null;
+
+  private applyVolume(): void {
+    if (this.audio) {
+      this.audio.volume = this.volume * this.duckLevel;
+    }
+  }
 
   private getAudio(): HTMLAudioElement {
     if (!this.audio) {
@@ -39,7 +48,8 @@ class AudioPlayer {
       audio.src = audioPath;
     }
 
-    audio.volume = volume;
+    this.volume = volume;
+    this.applyVolume();
     audio.play().catch(console.error);
   }
 
@@ -50,9 +60,23 @@ class AudioPlayer {
   }
 
   setVolume(volume: number): void {
-    if (this.audio) {
-      this.audio.volume = volume;
+    this.volume = volume;
+    this.applyVolume();
+  }
+
+  // Lower the music to `level` of its volume for a moment (e.g. under a chime)
+  duck(level: number, durationMs: number): void {
+    if (this.duckTimeout) {
+      clearTimeout(this.duckTimeout);
     }
+    this.duckLevel = level;
+    this.applyVolume();
+
+    this.duckTimeout = window.setTimeout(() => {
+      this.duckTimeout = null;
+      this.duckLevel = 1;
+      this.applyVolume();
+    }, durationMs);
   }
 
   async changeTrack(trackIndex: number, volume: number, shouldPlay: boolean): Promise<void> {
@@ -60,7 +84,8 @@ class AudioPlayer {
     const audio = this.getAudio();
     const audioPath = await getAudioPath(MUSIC_TRACKS[trackIndex].fileName);
     audio.src = audioPath;
-    audio.volume = volume;
+    this.volume = volume;
+    this.applyVolume();
 
     if (shouldPlay) {
       audio.play().catch(console.error);
@@ -0,0 +1,82 @@
+// Away detection
+// The main process watches for the user leaving during a focus block (no input
+// for a while, screen locked, machine asleep) and reports the period once they
+// are back. What happens then follows the away behaviour setting: an
+// auto-paused block offers to resume, a flagged period counts as a pause, and
+// 'ask' lets the user keep the minutes or discard them from the block.
+import { useAppStore } from '../stores/useAppStore';
+import { AwayPeriod } from '../types';
+import { timerService } from './timerService';
+
+type AwayPauseListener = (period: AwayPeriod) => void;
+
+const pauseListeners = new Set<AwayPauseListener>();
+
+/** Listen for away time that should count as a pause of the running session */
+export function onAwayPause(listener: AwayPauseListener): () => void {
+  pauseListeners.add(listener);
+  return () => {
+    pauseListeners.delete(listener);
+  };
+}
+
+function emitPause(period: AwayPeriod): void {
+  pauseListeners.forEach((listener) => listener(period));
+}
+
+function settle(): AwayPeriod | null {
+  const { awayPeriod, setAwayPeriod } = useAppStore.getState();
+  if (!awayPeriod) return null;
+
+  setAwayPeriod(null);
+  return awayPeriod;
+}
+
+/** Count the away minutes as focus time */
+export function keepAwayTime(): void {
+  settle();
+}
+
+/** Take the away minutes out of the block; they count as a pause instead */
+export function discardAwayTime(): void {
+  const period = settle();
+  if (!period) return;
+
+  timerService.discardTime(period.seconds);
+  emitPause(period);
+}
+
+/** Carry on with a block that was paused while the user was away */
+export function resumeAfterAway(): void {
+  if (!settle()) return;
+  timerService.start();
+}
+
+/**
+ * Handle away periods reported by the main process. Run it in one window only.
+ * Returns a cleanup function.
+ */
+export function startAwayDetection(): () => void {
+  const unsubscribeAway = timerService.onAway((period) => {
+    if (period.behavior === 'flag') {
+      emitPause(period);
+    } else if (period.behavior === 'pause' || period.behavior === 'ask') {
+      useAppStore.getState().setAwayPeriod(period);
+    }
+  });
+
+  // An unanswered prompt goes away once its block does (or is resumed by hand)
+  const unsubscribeStore = useAppStore.subscribe((state) => {
+    const { awayPeriod, timer } = state;
+    if (!awayPeriod) return;
+    const isOver = timer.mode !== awayPeriod.mode || (awayPeriod.behavior === 'pause' && timer.isRunning);
+    if (isOver) {
+      state.setAwayPeriod(null);
+    }
+  });
+
+  return () => {
+    unsubscribeAway();
+    unsubscribeStore();
+  };
+}
@@ -2,8 +2,10 @@
 // Executes actions proposed by the AI Coach
 
 import { useAppStore } from '../stores/useAppStore';
-import { useSettingsStore, BackgroundSound } from '../stores/useSettingsStore';
-import { CoachAction, CoachActionType, TimerMode, TIMER_DURATIONS } from '../types';
+import { useSettingsStore, BackgroundSound, getTimerDurations } from '../stores/useSettingsStore';
+import { CoachAction, CoachActionType, TimerMode } from '../types';
+import { isPauseLocked } from '../../electron/timerEngine';
+import { timerService } from './timerService';
 
 // Result of executing an action
 export interface ActionResult {
@@ -26,6 +28,11 @@ function logAction(action: CoachAction, result: ActionResult) {
   }
 }
 
+// Configured length of a mode, used when the coach doesn't specify one
+function getDefaultDurationMinutes(mode: TimerMode): number {
+  return Math.round(getTimerDurations(useSettingsStore.getState())[mode] / 60);
+}
+
 // Execute a single action
 export function executeAction(action: CoachAction): ActionResult {
   const appStore = useAppStore.getState();
@@ -38,7 +45,7 @@ export function executeAction(action: CoachAction): ActionResult {
     case 'START_SESSION': {
       const payload = action.payload as { mode?: TimerMode; durationMinutes?: number };
       const mode = payload.mode || 'pomodoro';
-      const durationMinutes = payload.durationMinutes || 25;
+      const durationMinutes = payload.durationMinutes || getDefaultDurationMinutes(mode);
 
       // Don't start if already running
       if (appStore.timer.isRunning) {
@@ -50,10 +57,7 @@ export function executeAction(action: CoachAction): ActionResult {
         break;
       }
 
-      appStore.setTimerMode(mode);
-      appStore.setTimerSeconds(durationMinutes * 60);
-      appStore.setTimerRunning(true);
-      appStore.setTargetEndTime(Date.now() + durationMinutes * 60 * 1000);
+      timerService.start({ mode, durationSeconds: durationMinutes * 60 });
 
       result = {
         success: true,
@@ -73,8 +77,17 @@ export function executeAction(action: CoachAction): ActionResult {
         break;
       }
 
-      appStore.setTimerRunning(false);
-      appStore.setTargetEndTime(null);
+      // The timer would refuse; say why instead of claiming it paused
+      if (isPauseLocked(appStore.timer, { mindLock: settingsStore.mindLockEnabled })) {
+        result = {
+          success: false,
+          actionType: action.type,
+          message: 'Mind Lock is on',
+        };
+        break;
+      }
+
+      timerService.pause();
 
       result = {
         success: true,
@@ -94,8 +107,7 @@ export function executeAction(action: CoachAction): ActionResult {
         break;
       }
 
-      appStore.setTimerRunning(true);
-      appStore.setTargetEndTime(Date.now() + appStore.timer.secondsLeft * 1000);
+      timerService.start();
 
       result = {
         success: true,
@@ -106,7 +118,7 @@ export function executeAction(action: CoachAction): ActionResult {
     }
 
     case 'STOP_SESSION': {
-      appStore.resetTimer();
+      timerService.reset();
 
       result = {
         success: true,
@@ -116,14 +128,26 @@ export function executeAction(action: CoachAction): ActionResult {
       break;
     }
 
+    // Finishes a flow block; any other block gives way to the next in the cycle
+    case 'SKIP_SESSION': {
+      const isFlow = appStore.timer.mode === 'flow';
+      timerService.skip();
+
+      result = {
+        success: true,
+        actionType: action.type,
+        message: isFlow ? 'Flow session finished' : 'Skipped to the next block',
+      };
+      break;
+    }
+
     case 'SET_SESSION_DURATION': {
       const payload = action.payload as { mode?: TimerMode; durationMinutes: number };
       const mode = payload.mode || appStore.timer.mode;
       const durationMinutes = payload.durationMinutes;
 
       if (!appStore.timer.isRunning) {
-        appStore.setTimerMode(mode);
-        appStore.setTimerSeconds(durationMinutes * 60);
+        timerService.setMode(mode, durationMinutes * 60);
       }
 
       result = {
@@ -331,8 +355,8 @@ export function getActionDescription(action: CoachAction): string {
 
   switch (action.type) {
     case 'START_SESSION': {
-      const mode = payload.mode || 'pomodoro';
-      const duration = payload.durationMinutes || 25;
+      const mode = (payload.mode as TimerMode) || 'pomodoro';
+      const duration = payload.durationMinutes || getDefaultDurationMinutes(mode);
       return `Start ${mode === 'pomodoro' ? 'focus' : mode} session (${duration} min)`;
     }
     case 'PAUSE_SESSION':
@@ -341,6 +365,8 @@ export function getActionDescription(action: CoachAction): string {
       return 'Resume session';
     case 'STOP_SESSION':
       return 'Stop session';
+    case 'SKIP_SESSION':
+      return 'Skip to the next block';
     case 'SET_SESSION_DURATION': {
       const duration = payload.durationMinutes;
       return `Set duration to ${duration} min`;
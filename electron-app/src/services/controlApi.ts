@@ -0,0 +1,334 @@
+// Local control API
+// The main process runs an opt-in REST server on 127.0.0.1 (see Settings >
+// Integrations) and relays each authorized request here. Routes:
+//   GET  /timer                 timer state and the current task
+//   POST /timer/start           {"minutes": 25, "mode": "pomodoro", "task": "id or title"}
+//   POST /timer/pause, /timer/resume, /timer/skip, /timer/reset
+//   GET  /tasks                 open tasks (?all=1 includes completed ones)
+//   POST /tasks                 {"title": "Write report ~2 @fri", "estimatedPomodoros", "dueDate", "scheduledFor", "tags", "subtasks"}
+//   POST /tasks/:id/complete    (an open task's exact title works too)
+//   POST /notes/today           {"text": "..."} appends a timestamped line
+//   POST /cli                   {"args": ["start", "25"]} runs a capyfocus CLI command
+// Timer routes use the same actions as the coach and deep links.
+import { useAppStore, normalizeTag } from '../stores/useAppStore';
+import { useSettingsStore } from '../stores/useSettingsStore';
+import { NewTaskDetails, Task, TimerState } from '../types';
+import type { ControlApiRequest, ControlApiResponse } from '../types/electron';
+import { executeAction } from './coachActionDispatcher';
+import { appendToDailyNote } from './dailyNotes';
+import { startSession } from './deepLinks';
+import { parseQuickCapture } from './quickCapture';
+import { timerService } from './timerService';
+
+const PORT_CHANGE_DELAY_MS = 500;
+
+// CLI options that take no value
+const CLI_FLAGS = ['all'];
+
+type ControlRequest = Omit<ControlApiRequest, 'id'>;
+
+function ok(body: Record<string, unknown> = {}, status = 200): ControlApiResponse {
+  return { status, body: { ok: true, ...body } };
+}
+
+function fail(status: number, error: string): ControlApiResponse {
+  return { status, body: { ok: false, error } };
+}
+
+// An action result as a response: refused actions (e.g. pausing a stopped timer) are
+// conflicts. In Electron the timer answers over IPC, so the state the action left
+// is awaited rather than read from this window's store, which may not have it yet.
+async function fromResult(result: { success: boolean; message?: string }): Promise<ControlApiResponse> {
+  if (!result.success) return fail(409, result.message ?? 'Action failed');
+  return ok({ message: result.message, timer: getTimerSnapshot(await timerService.getState()) });
+}
+
+function toTaskJson(task: Task) {
+  return {
+    id: task.id,
+    title: task.title,
+    isCompleted: task.isCompleted,
+    createdAt: task.createdAt,
+    completedAt: task.completedAt ?? null,
+    spentPomodoros: task.spentPomodoros,
+    estimatedPomodoros: task.estimatedPomodoros ?? null,
+    dueDate: task.dueDate ?? null,
+    scheduledFor: task.scheduledFor ?? null,
+    priority: task.priority ?? null,
+    recurrence: task.recurrence ?? null,
+    projectId: task.projectId ?? null,
+    tags: task.tags ?? [],
+    subtasks: (task.subtasks ?? []).map(({ id, title, isCompleted }) => ({ id, title, isCompleted })),
+  };
+}
+
+function getTimerSnapshot(timer: TimerState) {
+  const { tasks, currentTaskId } = useAppStore.getState();
+  const currentTask = tasks.find((t) => t.id === currentTaskId);
+  return {
+    mode: timer.mode,
+    isRunning: timer.isRunning,
+    secondsLeft: timer.secondsLeft,
+    elapsedSeconds: timer.elapsedSeconds ?? 0,
+    completedPomodoros: timer.completedPomodoros,
+    currentTask: currentTask ? toTaskJson(currentTask) : null,
+  };
+}
+
+function asObject(body: unknown): Record<string, unknown> {
+  return body && typeof body === 'object' && !Array.isArray(body) ? (body as Record<string, unknown>) : {};
+}
+
+async function startTimer(body: Record<string, unknown>): Promise<ControlApiResponse> {
+  const { mode, minutes, task } = body;
+  if (mode !== undefined && typeof mode !== 'string') return fail(400, 'mode must be a string');
+  if (minutes !== undefined && typeof minutes !== 'number') return fail(400, 'minutes must be a number');
+  if (task !== undefined && typeof task !== 'string') return fail(400, 'task must be a string');
+
+  const result = startSession({ mode, minutes, task });
+  if (!result.success && result.message !== 'Timer already running') {
+    return fail(400, result.message ?? 'Could not start');
+  }
+  return fromResult(result);
+}
+
+function addTask(body: Record<string, unknown>): ControlApiResponse {
+  const parsed = typeof body.title === 'string' ? parseQuickCapture(body.title) : null;
+  if (!parsed) return fail(400, 'title is required');
+
+  const details: NewTaskDetails = { ...parsed.details };
+  const { estimatedPomodoros, dueDate, scheduledFor, tags, subtasks } = body;
+  if (estimatedPomodoros !== undefined) {
+    if (!(Number.isInteger(estimatedPomodoros) && (estimatedPomodoros as number) >= 1)) {
+      return fail(400, 'estimatedPomodoros must be a positive whole number');
+    }
+    details.estimatedPomodoros = estimatedPomodoros as number;
+  }
+  if (dueDate !== undefined) {
+    if (typeof dueDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(dueDate)) {
+      return fail(400, 'dueDate must be YYYY-MM-DD');
+    }
+    details.dueDate = dueDate;
+  }
+  if (scheduledFor !== undefined) {
+    if (typeof scheduledFor !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(scheduledFor)) {
+      return fail(400, 'scheduledFor must be YYYY-MM-DD');
+    }
+    details.scheduledFor = scheduledFor;
+  }
+  if (tags !== undefined) {
+    if (!Array.isArray(tags) || !tags.every((t) => typeof t === 'string')) {
+      return fail(400, 'tags must be a list of strings');
+    }
+    const normalized = tags.map((t: string) => normalizeTag(t)).filter(Boolean);
+    details.tags = [...new Set([...(details.tags ?? []), ...normalized])];
+  }
+  if (subtasks !== undefined) {
+    if (!Array.isArray(subtasks) || !subtasks.every((s) => typeof s === 'string')) {
+      return fail(400, 'subtasks must be a list of titles');
+    }
+    const titles = subtasks.map((s: string) => s.trim()).filter(Boolean);
+    details.subtasks = [...(details.subtasks ?? []), ...titles];
+  }
+
+  const { addTask: add } = useAppStore.getState();
+  const id = add(parsed.title, details);
+  const task = useAppStore.getState().tasks.find((t) => t.id === id)!;
+  return ok({ task: toTaskJson(task) }, 201);
+}
+
+function completeTask(idOrTitle: string): ControlApiResponse {
+  const { tasks, completeTask: complete } = useAppStore.getState();
+  const title = idOrTitle.trim().toLowerCase();
+  const match = tasks.find((t) => t.id === idOrTitle)
+    ?? tasks.find((t) => !t.isCompleted && t.title.toLowerCase() === title);
+  if (!match) return fail(404, `No task matches ${idOrTitle}`);
+
+  complete(match.id);
+  const task = useAppStore.getState().tasks.find((t) => t.id === match.id)!;
+  return ok({ task: toTaskJson(task) });
+}
+
+function appendNote(body: Record<string, unknown>): ControlApiResponse {
+  if (typeof body.text !== 'string' || !body.text.trim()) return fail(400, 'text is required');
+
+  const content = appendToDailyNote(body.text);
+  useAppStore.getState().recordNoteActivity();
+  return ok({ content });
+}
+
+// Split CLI arguments into positionals and --name value / --name=value options
+function splitCliArgs(args: string[]): { positionals: string[]; options: Record<string, string | true> } {
+  const positionals: string[] = [];
+  const options: Record<string, string | true> = {};
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const option = arg.match(/^--([a-z]+)(?:=(.*))?$/);
+    if (!option) {
+      positionals.push(arg);
+    } else if (option[2] !== undefined) {
+      options[option[1]] = option[2];
+    } else if (!CLI_FLAGS.includes(option[1]) && i + 1 < args.length && !args[i + 1].startsWith('--')) {
+      options[option[1]] = args[++i];
+    } else {
+      options[option[1]] = true;
+    }
+  }
+  return { positionals, options };
+}
+
+/**
+ * Map capyfocus CLI arguments (without the program name) onto a control API
+ * request, e.g. ["start", "25", "--task", "Write report"] -> POST /timer/start.
+ */
+export function parseCliCommand(args: string[]): ControlRequest | { error: string } {
+  const { positionals, options } = splitCliArgs(args);
+  const [command = 'status', subcommand, ...rest] = positionals;
+  const post = (path: string, body: unknown = null): ControlRequest => ({ method: 'POST', path, query: {}, body });
+
+  switch (command) {
+    case 'status':
+      return { method: 'GET', path: '/timer', query: {}, body: null };
+    case 'start': {
+      const minutes = subcommand === undefined ? undefined : Number(subcommand);
+      if (minutes !== undefined && Number.isNaN(minutes)) {
+        return { error: `Minutes must be a number: ${subcommand}` };
+      }
+      const { task, mode } = options;
+      if (task === true || mode === true) {
+        return { error: `--${task === true ? 'task' : 'mode'} needs a value` };
+      }
+      return post('/timer/start', { minutes, task, mode });
+    }
+    case 'pause':
+    case 'resume':
+    case 'skip':
+    case 'reset':
+      return post(`/timer/${command}`);
+    case 'stop':
+      return post('/timer/reset');
+    case 'tasks': {
+      const text = rest.join(' ').trim();
+      switch (subcommand ?? 'list') {
+        case 'list':
+          return { method: 'GET', path: '/tasks', query: options.all ? { all: '1' } : {}, body: null };
+        case 'add':
+          return text ? post('/tasks', { title: text }) : { error: 'Usage: capyfocus tasks add <title>' };
+        case 'done':
+          return text
+            ? post(`/tasks/${encodeURIComponent(text)}/complete`)
+            : { error: 'Usage: capyfocus tasks done <id or title>' };
+        default:
+          return { error: `Unknown tasks command: ${subcommand}` };
+      }
+    }
+    case 'note': {
+      // "note append <text>", or just "note <text>"
+      const words = subcommand === 'append' ? rest : positionals.slice(1);
+      const text = words.join(' ').trim();
+      return text ? post('/notes/today', { text }) : { error: 'Usage: capyfocus note append <text>' };
+    }
+    default:
+      return { error: `Unknown command: ${command}` };
+  }
+}
+
+async function runCliCommand(body: Record<string, unknown>): Promise<ControlApiResponse> {
+  const { args } = body;
+  if (!Array.isArray(args) || !args.every((a) => typeof a === 'string')) {
+    return fail(400, 'args must be a list of strings');
+  }
+
+  const command = parseCliCommand(args);
+  if ('error' in command) return fail(400, command.error);
+  return handleControlRequest(command);
+}
+
+/** Answer one control API request */
+export async function handleControlRequest({ method, path, query, body }: ControlRequest): Promise<ControlApiResponse> {
+  const data = asObject(body);
+  const route = `${method.toUpperCase()} ${path}`;
+
+  switch (route) {
+    case 'GET /timer':
+      return ok({ timer: getTimerSnapshot(await timerService.getState()) });
+    case 'POST /timer/start':
+      return startTimer(data);
+    case 'POST /timer/pause':
+      return fromResult(executeAction({ type: 'PAUSE_SESSION', payload: {} }));
+    case 'POST /timer/resume':
+      return fromResult(executeAction({ type: 'RESUME_SESSION', payload: {} }));
+    case 'POST /timer/skip':
+      return fromResult(executeAction({ type: 'SKIP_SESSION', payload: {} }));
+    case 'POST /timer/reset':
+      return fromResult(executeAction({ type: 'STOP_SESSION', payload: {} }));
+    case 'GET /tasks': {
+      const includeCompleted = query.all === '1' || query.all === 'true';
+      const tasks = useAppStore.getState().tasks.filter((t) => includeCompleted || !t.isCompleted);
+      return ok({ tasks: tasks.map(toTaskJson) });
+    }
+    case 'POST /tasks':
+      return addTask(data);
+    case 'POST /notes/today':
+      return appendNote(data);
+    case 'POST /cli':
+      return runCliCommand(data);
+  }
+
+  const completeMatch = method.toUpperCase() === 'POST' && path.match(/^\/tasks\/([^/]+)\/complete$/);
+  if (completeMatch) {
+    let idOrTitle: string;
+    try {
+      idOrTitle = decodeURIComponent(completeMatch[1]);
+    } catch {
+      return fail(400, 'Invalid task id');
+    }
+    return completeTask(idOrTitle);
+  }
+  return fail(404, `Unknown route: ${route}`);
+}
+
+/**
+ * Keep the control server in step with the Integrations settings and answer
+ * the requests it relays. Run it in the main window only.
+ * Returns a cleanup function; a no-op outside Electron.
+ */
+export function startControlApi(): () => void {
+  const api = window.electronAPI;
+  if (!api?.controlApiConfigure) return () => {};
+
+  const configure = () => {
+    const { controlApiEnabled, controlApiPort } = useSettingsStore.getState();
+    api.controlApiConfigure(controlApiEnabled, controlApiPort).catch(console.error);
+  };
+  configure();
+
+  // Typing a port shouldn't restart the server on every keystroke
+  let portTimeout: ReturnType<typeof setTimeout> | null = null;
+  const unsubscribeSettings = useSettingsStore.subscribe((state, prev) => {
+    if (state.controlApiEnabled !== prev.controlApiEnabled) {
+      if (portTimeout) clearTimeout(portTimeout);
+      configure();
+    } else if (state.controlApiPort !== prev.controlApiPort) {
+      if (portTimeout) clearTimeout(portTimeout);
+      portTimeout = setTimeout(configure, PORT_CHANGE_DELAY_MS);
+    }
+  });
+
+  const unsubscribeRequests = api.onControlApiRequest(async (request) => {
+    let response: ControlApiResponse;
+    try {
+      response = await handleControlRequest(request);
+    } catch (error) {
+      console.error('Control API request failed:', error);
+      response = fail(500, 'Internal error');
+    }
+    api.controlApiRespond(request.id, response).catch(console.error);
+  });
+
+  return () => {
+    if (portTimeout) clearTimeout(portTimeout);
+    unsubscribeSettings();
+    unsubscribeRequests();
+  };
+}
@@ -0,0 +1,63 @@
+// Daily notes
+// One note per local day, kept in localStorage under "notes:YYYY-MM-DD".
+// Writes from outside the Notes tab (e.g. the control API) announce
+// themselves with a 'daily-note-changed' event so an open editor reloads.
+
+const STORAGE_PREFIX = 'notes:';
+
+export const DAILY_NOTE_CHANGED_EVENT = 'daily-note-changed';
+
+/** Formats a Date object to "YYYY-MM-DD" in local time */
+export function formatDateKey(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+export function loadNoteFromStorage(dateKey: string): string {
+  try {
+    return localStorage.getItem(STORAGE_PREFIX + dateKey) || '';
+  } catch {
+    return '';
+  }
+}
+
+export function saveNoteToStorage(dateKey: string, content: string): void {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + dateKey, content);
+  } catch {
+    // localStorage not available - fail gracefully
+  }
+}
+
+/** Gets all dates that have saved notes */
+export function getDatesWithNotes(): Set<string> {
+  const dates = new Set<string>();
+  try {
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(STORAGE_PREFIX)) {
+        const value = localStorage.getItem(key);
+        if (value && value.trim().length > 0) {
+          dates.add(key.replace(STORAGE_PREFIX, ''));
+        }
+      }
+    }
+  } catch {
+    // localStorage not available
+  }
+  return dates;
+}
+
+/** Append a timestamped entry to a day's note (today by default); returns the new note */
+export function appendToDailyNote(text: string, dateKey = formatDateKey(new Date())): string {
+  const current = loadNoteFromStorage(dateKey);
+  const separator = current ? '\n\n' : '';
+  const timestamp = new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  const content = `${current}${separator}[${timestamp}] ${text.trim()}`;
+
+  saveNoteToStorage(dateKey, content);
+  window.dispatchEvent(new CustomEvent(DAILY_NOTE_CHANGED_EVENT, { detail: dateKey }));
+  return content;
+}
@@ -0,0 +1,184 @@
+// Deep links (capyfocus://)
+// Scripts, launchers and other apps drive CapyFocus through URLs:
+//   capyfocus://start?minutes=25&task=Write%20report   start focusing (mode=flow|shortBreak|longBreak too)
+//   capyfocus://pause, resume, skip, reset             timer controls
+//   capyfocus://add-task?title=Write%20report&start=1  add a task (quick capture syntax works)
+//   capyfocus://open/notes?date=2026-10-21             show a tab, notes for a given day
+//   capyfocus://reset-password?code=...                password recovery link from the email
+// The main process relays them to the main window, which maps them onto the
+// same actions the coach uses.
+import { useAppStore } from '../stores/useAppStore';
+import { Tab, TimerMode } from '../types';
+import { executeAction } from './coachActionDispatcher';
+import { parseQuickCapture, startFocusOnTask } from './quickCapture';
+import { supabaseService } from './supabase';
+
+export interface DeepLinkResult {
+  success: boolean;
+  message?: string;
+}
+
+const TIMER_MODES: TimerMode[] = ['pomodoro', 'flow', 'shortBreak', 'longBreak'];
+
+const TABS: Tab[] = ['timer', 'tasks', 'notes', 'music', 'account', 'calendar', 'settings', 'coach'];
+
+const MAX_SESSION_MINUTES = 240;
+
+function isTruthyParam(value: string | null): boolean {
+  return value === '1' || value === 'true' || value === 'yes';
+}
+
+// The task a link names, by id or title; a title that matches nothing becomes a new task
+function resolveTask(nameOrId: string): string {
+  const { tasks, addTask } = useAppStore.getState();
+  const title = nameOrId.trim().toLowerCase();
+  const match = tasks.find((t) => t.id === nameOrId)
+    ?? tasks.find((t) => !t.isCompleted && t.title.toLowerCase() === title);
+  return match ? match.id : addTask(nameOrId.trim());
+}
+
+export interface StartSessionOptions {
+  mode?: string;
+  minutes?: number;
+  task?: string; // id or title; an unknown title becomes a new task
+}
+
+/** Start a session the way a link (or the control API) asks for it */
+export function startSession({ mode = 'pomodoro', minutes, task }: StartSessionOptions): DeepLinkResult {
+  if (!TIMER_MODES.includes(mode as TimerMode)) {
+    return { success: false, message: `Unknown mode: ${mode}` };
+  }
+  if (minutes !== undefined && !(Number.isInteger(minutes) && minutes >= 1 && minutes <= MAX_SESSION_MINUTES)) {
+    return { success: false, message: `Minutes must be a whole number from 1 to ${MAX_SESSION_MINUTES}` };
+  }
+
+  if (task?.trim()) {
+    useAppStore.getState().setCurrentTaskId(resolveTask(task));
+  }
+
+  return executeAction({
+    type: 'START_SESSION',
+    payload: { mode, durationMinutes: minutes },
+  });
+}
+
+function addTaskFromLink(params: URLSearchParams): DeepLinkResult {
+  const parsed = parseQuickCapture(params.get('title') ?? '');
+  if (!parsed) {
+    return { success: false, message: 'A title is required' };
+  }
+
+  const taskId = useAppStore.getState().addTask(parsed.title, parsed.details);
+  if (isTruthyParam(params.get('start'))) {
+    startFocusOnTask(taskId);
+  }
+  return { success: true, message: `Added task: ${parsed.title}` };
+}
+
+function openTab(tab: string, params: URLSearchParams): DeepLinkResult {
+  const target = (tab || 'timer') as Tab;
+  if (!TABS.includes(target)) {
+    return { success: false, message: `Unknown tab: ${tab}` };
+  }
+
+  const { isCollapsed, setIsCollapsed, setSelectedTab } = useAppStore.getState();
+  if (target === 'notes') {
+    const date = params.get('date');
+    if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return { success: false, message: 'Dates are YYYY-MM-DD' };
+    }
+    if (date) {
+      // NotesView picks the date up when it mounts, or on the event if it is showing
+      sessionStorage.setItem('notes-target-date', date);
+      window.dispatchEvent(new Event('notes-target-date'));
+    }
+  }
+
+  setSelectedTab(target);
+  if (isCollapsed && window.electronAPI?.toggleCollapse) {
+    window.electronAPI.toggleCollapse().then(setIsCollapsed).catch(console.error);
+  }
+  return { success: true, message: `Opened ${target}` };
+}
+
+function resetPassword(url: URL): DeepLinkResult {
+  // A link nobody asked for from here is ignored, so it can't sign the app in
+  if (!supabaseService.isPasswordResetPending()) {
+    return { success: false, message: 'No password reset was requested from this app' };
+  }
+
+  const { setSelectedTab, setAuthView } = useAppStore.getState();
+  supabaseService
+    .recoverSessionFromUrl(url)
+    .catch((error) => console.error('Password recovery link failed:', error))
+    .finally(() => {
+      // Without a session the view explains the link has expired
+      setSelectedTab('account');
+      setAuthView('reset-password');
+    });
+  return { success: true, message: 'Opening password reset' };
+}
+
+/** Run a capyfocus:// link */
+export function handleDeepLink(link: string): DeepLinkResult {
+  let url: URL;
+  try {
+    url = new URL(link);
+  } catch {
+    return { success: false, message: 'Not a URL' };
+  }
+  if (url.protocol !== 'capyfocus:') {
+    return { success: false, message: `Not a capyfocus link: ${url.protocol}` };
+  }
+
+  // capyfocus://open/notes parses as host "open" and path "/notes"
+  const [route = '', ...rest] = `${url.host}${url.pathname}`.replace(/^\/+|\/+$/g, '').split('/');
+  const { searchParams: params } = url;
+
+  switch (route.toLowerCase()) {
+    case 'start':
+      return startSession({
+        mode: params.get('mode') ?? undefined,
+        minutes: params.has('minutes') ? Number(params.get('minutes')) : undefined,
+        task: params.get('task') ?? undefined,
+      });
+    case 'pause':
+      return executeAction({ type: 'PAUSE_SESSION', payload: {} });
+    case 'resume':
+      return executeAction({ type: 'RESUME_SESSION', payload: {} });
+    case 'reset':
+    case 'stop':
+      return executeAction({ type: 'STOP_SESSION', payload: {} });
+    case 'skip':
+      return executeAction({ type: 'SKIP_SESSION', payload: {} });
+    case 'add-task':
+      return addTaskFromLink(params);
+    case 'open':
+      return openTab(rest.join('/').toLowerCase(), params);
+    case 'reset-password':
+      return resetPassword(url);
+    default:
+      return { success: false, message: `Unknown route: ${route}` };
+  }
+}
+
+/**
+ * Run deep links relayed by the main process, including any that arrived
+ * before this window was listening. Run it in the main window only.
+ * Returns a cleanup function; a no-op outside Electron.
+ */
+export function startDeepLinks(): () => void {
+  const api = window.electronAPI;
+  if (!api?.onDeepLink) return () => {};
+
+  const run = (link: string) => {
+    const result = handleDeepLink(link);
+    if (!result.success) {
+      console.warn('Deep link not handled:', link, result.message);
+    }
+  };
+
+  const unsubscribe = api.onDeepLink(run);
+  api.deepLinkReady().then((links) => links.forEach(run)).catch(console.error);
+  return unsubscribe;
+}
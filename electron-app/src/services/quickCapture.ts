@@ -0,0 +1,107 @@
+// Quick capture
+// One line of text becomes a task. Inline syntax:
+//   Write report ~3 @fri #writing !1 + outline + draft
+//   ~N          estimated pomodoros
+//   @date       due date: today, tomorrow, a weekday (mon..sun), or YYYY-MM-DD
+//   #tag        a tag (starts with a letter); any number of them
+//   !1 .. !4    priority, P1 most urgent
+//   + subtask   each " + " starts a subtask
+// Tokens that don't parse (e.g. "@someone") are kept as text.
+import { useAppStore, normalizeTag } from '../stores/useAppStore';
+import { NewTaskDetails, TaskPriority } from '../types';
+import { timerService } from './timerService';
+
+export interface QuickCaptureResult {
+  title: string;
+  details: NewTaskDetails;
+}
+
+export const QUICK_CAPTURE_HINT = '~3 estimate  ·  @fri due  ·  #tag  ·  !1 priority  ·  + subtask';
+
+const MAX_ESTIMATED_POMODOROS = 99;
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+function addDays(date: Date, days: number): string {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result.toISOString().split('T')[0];
+}
+
+/** The YYYY-MM-DD date a due-date token stands for, or null if it isn't one */
+export function parseDueDate(token: string, now = new Date()): string | null {
+  const value = token.toLowerCase();
+  if (value === 'today') return addDays(now, 0);
+  if (value === 'tomorrow' || value === 'tmr') return addDays(now, 1);
+
+  // Weekdays by name or a prefix of at least three letters ("fri"); today counts
+  const weekday = value.length >= 3 ? WEEKDAYS.findIndex((day) => day.startsWith(value)) : -1;
+  if (weekday !== -1) {
+    return addDays(now, (weekday - now.getDay() + 7) % 7);
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value))) {
+    return value;
+  }
+  return null;
+}
+
+/** Parse a quick-capture line; null when nothing is left for a title */
+export function parseQuickCapture(input: string, now = new Date()): QuickCaptureResult | null {
+  const details: NewTaskDetails = {};
+
+  const words = input.split(/\s+/).filter((word) => {
+    const estimate = word.match(/^~(\d+)$/);
+    if (estimate) {
+      const count = Number(estimate[1]);
+      if (count >= 1 && count <= MAX_ESTIMATED_POMODOROS) {
+        details.estimatedPomodoros = count;
+        return false;
+      }
+    }
+
+    if (word.startsWith('@')) {
+      const dueDate = parseDueDate(word.slice(1), now);
+      if (dueDate) {
+        details.dueDate = dueDate;
+        return false;
+      }
+    }
+
+    const priority = word.match(/^!([1-4])$/);
+    if (priority) {
+      details.priority = Number(priority[1]) as TaskPriority;
+      return false;
+    }
+
+    if (/^#[a-z][\w-]*$/i.test(word)) {
+      const tag = normalizeTag(word);
+      details.tags = details.tags?.includes(tag) ? details.tags : [...(details.tags ?? []), tag];
+      return false;
+    }
+    return true;
+  });
+
+  const [title, ...subtasks] = words
+    .join(' ')
+    .split(/\s\+(?:\s|$)/)
+    .map((part) => part.trim());
+
+  if (!title) return null;
+
+  const subtaskTitles = subtasks.filter(Boolean);
+  if (subtaskTitles.length > 0) {
+    details.subtasks = subtaskTitles;
+  }
+  return { title, details };
+}
+
+/** Make a task current and start focusing: resumes a focus block, or leaves a break for one */
+export function startFocusOnTask(taskId: string): void {
+  const { timer, setCurrentTaskId } = useAppStore.getState();
+  setCurrentTaskId(taskId);
+  if (timer.mode !== 'pomodoro' && timer.mode !== 'flow') {
+    timerService.setMode('pomodoro');
+  }
+  timerService.start();
+}
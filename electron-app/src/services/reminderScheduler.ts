@@ -0,0 +1,76 @@
+// Gentle reminders
+// While a pomodoro is running, nudge the user every `reminderInterval` minutes
+// of actual focus with a quiet chime and a silent system notification naming
+// the current task and the time left. Focus time is counted from the timer's
+// own ticks, so nothing fires while the timer is paused or between blocks.
+import { useAppStore } from '../stores/useAppStore';
+import { useSettingsStore } from '../stores/useSettingsStore';
+import { TimerState } from '../types';
+import { soundEffects } from './soundEffects';
+
+// Reminders use a softer take on the chime volume
+const REMINDER_VOLUME_FACTOR = 0.5;
+
+function formatTimeLeft(seconds: number): string {
+  const minutes = Math.ceil(seconds / 60);
+  return minutes === 1 ? '1 minute left' : `${minutes} minutes left`;
+}
+
+function showReminder(secondsLeft: number): void {
+  const { tasks, currentTaskId } = useAppStore.getState();
+  const currentTask = tasks.find((t) => t.id === currentTaskId);
+
+  soundEffects.play('ping', useSettingsStore.getState().chimeVolume * REMINDER_VOLUME_FACTOR);
+
+  if (typeof Notification !== 'undefined' && Notification.permission === 'granted') {
+    new Notification(currentTask ? `Still on: ${currentTask.title}` : 'Still focusing', {
+      body: formatTimeLeft(secondsLeft),
+      silent: true,
+    });
+  }
+}
+
+/**
+ * Start firing gentle reminders during running pomodoros.
+ * Run it in one window only. Returns a cleanup function.
+ */
+export function startReminderScheduler(): () => void {
+  let focusedSeconds = 0;
+  let lastSecondsLeft: number | null = null;
+
+  const handleTimer = (timer: TimerState) => {
+    // Only the focus countdown itself counts
+    if (timer.mode !== 'pomodoro' || timer.phase) {
+      focusedSeconds = 0;
+      lastSecondsLeft = null;
+      return;
+    }
+
+    // The clock went up: a new block (or a reset) started
+    if (lastSecondsLeft === null || timer.secondsLeft > lastSecondsLeft) {
+      focusedSeconds = 0;
+    } else if (timer.isRunning && timer.secondsLeft < lastSecondsLeft) {
+      const previous = focusedSeconds;
+      focusedSeconds += lastSecondsLeft - timer.secondsLeft;
+
+      const { gentleReminders, reminderInterval } = useSettingsStore.getState();
+      const intervalSeconds = reminderInterval * 60;
+      const crossedInterval = intervalSeconds > 0
+        && Math.floor(focusedSeconds / intervalSeconds) > Math.floor(previous / intervalSeconds);
+
+      // No reminder right as the block ends; the completion notification covers it
+      if (gentleReminders && crossedInterval && timer.secondsLeft > 0) {
+        showReminder(timer.secondsLeft);
+      }
+    }
+
+    lastSecondsLeft = timer.secondsLeft;
+  };
+
+  handleTimer(useAppStore.getState().timer);
+  return useAppStore.subscribe((state, previousState) => {
+    if (state.timer !== previousState.timer) {
+      handleTimer(state.timer);
+    }
+  });
+}
@@ -0,0 +1,127 @@
+// Global shortcuts
+// The main process registers the bindings (kept in electron-store); this module
+// turns key presses recorded in Settings into Electron accelerators, formats
+// them for display, and runs the actions that live in the main window.
+import { useAppStore } from '../stores/useAppStore';
+import type { ShortcutAction, ShortcutError } from '../types/electron';
+
+export const SHORTCUT_ACTION_LABELS: Record<ShortcutAction, string> = {
+  toggleTimer: 'Start / Pause Timer',
+  skip: 'Skip',
+  reset: 'Reset Timer',
+  toggleMusic: 'Play / Pause Music',
+  showMainWindow: 'Show Main Window',
+  quickAddTask: 'Quick Add Task',
+  toggleMiniWidget: 'Toggle Mini Widget',
+  moveToActiveDisplay: 'Move to Active Display',
+};
+
+export const SHORTCUT_ERROR_MESSAGES: Record<ShortcutError, string> = {
+  invalid: 'Not a valid shortcut',
+  duplicate: 'Already used by another action',
+  unavailable: 'In use by the system or another app',
+};
+
+type KeyCombo = Pick<KeyboardEvent, 'code' | 'metaKey' | 'ctrlKey' | 'altKey' | 'shiftKey'>;
+
+const NAMED_KEYS: Record<string, string> = {
+  ArrowUp: 'Up',
+  ArrowDown: 'Down',
+  ArrowLeft: 'Left',
+  ArrowRight: 'Right',
+  Space: 'Space',
+  Tab: 'Tab',
+  Enter: 'Enter',
+  Backspace: 'Backspace',
+  Delete: 'Delete',
+  Insert: 'Insert',
+  Home: 'Home',
+  End: 'End',
+  PageUp: 'PageUp',
+  PageDown: 'PageDown',
+  Minus: '-',
+  Equal: '=',
+  BracketLeft: '[',
+  BracketRight: ']',
+  Backslash: '\\',
+  Semicolon: ';',
+  Quote: "'",
+  Comma: ',',
+  Period: '.',
+  Slash: '/',
+  Backquote: '`',
+};
+
+const MAC_MODIFIER_SYMBOLS: Record<string, string> = {
+  Command: '⌘',
+  Control: '⌃',
+  Alt: '⌥',
+  Shift: '⇧',
+};
+
+export function isMacPlatform(): boolean {
+  return typeof navigator !== 'undefined' && /Mac/i.test(navigator.platform);
+}
+
+// The key part of an accelerator, from the physical key so Shift and Alt
+// don't change it (Alt+2 is still '2', not '™')
+function getAcceleratorKey(code: string): string | null {
+  const match = code.match(/^(?:Key([A-Z])|Digit(\d)|(F\d{1,2})|Numpad(\d))$/);
+  if (match) {
+    const [, letter, digit, functionKey, numpad] = match;
+    return letter ?? digit ?? functionKey ?? `num${numpad}`;
+  }
+  return NAMED_KEYS[code] ?? null;
+}
+
+/**
+ * The Electron accelerator for a key press, or null while only modifiers are
+ * held or the combination can't be a global shortcut (a plain key without a
+ * modifier would swallow normal typing; function keys are the exception).
+ */
+export function acceleratorFromKeyboardEvent(event: KeyCombo, isMac = isMacPlatform()): string | null {
+  const key = getAcceleratorKey(event.code);
+  if (!key) return null;
+
+  const modifiers: string[] = [];
+  if (event.metaKey) modifiers.push(isMac ? 'Command' : 'Super');
+  if (event.ctrlKey) modifiers.push('Control');
+  if (event.altKey) modifiers.push('Alt');
+  if (event.shiftKey) modifiers.push('Shift');
+
+  const hasModifier = modifiers.some((modifier) => modifier !== 'Shift');
+  if (!hasModifier && !/^F\d{1,2}$/.test(key)) return null;
+
+  return [...modifiers, key].join('+');
+}
+
+/** An accelerator as shown to the user: ⌘⇧F on macOS, Ctrl+Shift+F elsewhere */
+export function formatAccelerator(accelerator: string, isMac = isMacPlatform()): string {
+  const parts = accelerator.split('+').map((part) => {
+    if (part === 'CommandOrControl' || part === 'CmdOrCtrl') return isMac ? 'Command' : 'Control';
+    if (part === 'Cmd') return 'Command';
+    if (part === 'Ctrl') return 'Control';
+    if (part === 'Option') return 'Alt';
+    return part;
+  });
+
+  if (isMac) {
+    return parts.map((part) => MAC_MODIFIER_SYMBOLS[part] ?? part).join('');
+  }
+  return parts.map((part) => (part === 'Control' ? 'Ctrl' : part)).join('+');
+}
+
+/**
+ * Run the shortcut actions handled by the main window (music playback).
+ * Run it in the main window only. Returns a cleanup function.
+ */
+export function startShortcutActions(): () => void {
+  if (!window.electronAPI?.onShortcutAction) return () => {};
+
+  return window.electronAPI.onShortcutAction((action) => {
+    const state = useAppStore.getState();
+    if (action === 'toggleMusic') {
+      state.setIsPlaying(!state.isPlaying);
+    }
+  });
+}
@@ -0,0 +1,156 @@
+// Sound effects singleton - short chimes for session start, end and break over.
+// Chimes are synthesized with Web Audio from the note lists below, so they ship
+// with the app and need no audio files. Music is ducked while one plays.
+import { useAppStore } from '../stores/useAppStore';
+import { useSettingsStore, getTimerDurations, ChimeSound } from '../stores/useSettingsStore';
+import { TimerState } from '../types';
+import { audioPlayer } from './audioPlayer';
+import { timerService } from './timerService';
+
+interface ChimeNote {
+  frequency: number; // Hz
+  offset: number; // seconds after the chime starts
+  duration: number; // seconds
+}
+
+interface Chime {
+  label: string;
+  wave: OscillatorType;
+  notes: ChimeNote[];
+}
+
+export const CHIMES: Record<ChimeSound, Chime> = {
+  bell: {
+    label: 'Bell',
+    wave: 'sine',
+    notes: [
+      { frequency: 880, offset: 0, duration: 1.6 },
+      { frequency: 1320, offset: 0, duration: 1.2 },
+    ],
+  },
+  marimba: {
+    label: 'Marimba',
+    wave: 'triangle',
+    notes: [
+      { frequency: 523.25, offset: 0, duration: 0.4 },
+      { frequency: 659.25, offset: 0.15, duration: 0.4 },
+      { frequency: 783.99, offset: 0.3, duration: 0.6 },
+    ],
+  },
+  ping: {
+    label: 'Ping',
+    wave: 'sine',
+    notes: [{ frequency: 1046.5, offset: 0, duration: 0.5 }],
+  },
+  rise: {
+    label: 'Rise',
+    wave: 'sine',
+    notes: [
+      { frequency: 440, offset: 0, duration: 0.5 },
+      { frequency: 554.37, offset: 0.2, duration: 0.5 },
+      { frequency: 659.25, offset: 0.4, duration: 0.8 },
+    ],
+  },
+  fall: {
+    label: 'Fall',
+    wave: 'sine',
+    notes: [
+      { frequency: 783.99, offset: 0, duration: 0.5 },
+      { frequency: 659.25, offset: 0.2, duration: 0.5 },
+      { frequency: 523.25, offset: 0.4, duration: 0.9 },
+    ],
+  },
+};
+
+// How far the music drops while a chime plays
+const DUCK_LEVEL = 0.25;
+const DUCK_RELEASE_MS = 300;
+
+function getChimeLength(chime: Chime): number {
+  return Math.max(...chime.notes.map((note) => note.offset + note.duration));
+}
+
+class SoundEffectsPlayer {
+  private context: AudioContext | null = null;
+
+  private getContext(): AudioContext | null {
+    if (typeof AudioContext === 'undefined') return null;
+    if (!this.context) {
+      this.context = new AudioContext();
+    }
+    return this.context;
+  }
+
+  play(sound: ChimeSound, volume: number): void {
+    const context = this.getContext();
+    const chime = CHIMES[sound];
+    if (!context || !chime || volume <= 0) return;
+
+    if (context.state === 'suspended') {
+      context.resume().catch(console.error);
+    }
+
+    const startAt = context.currentTime + 0.05;
+    for (const note of chime.notes) {
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      const noteStart = startAt + note.offset;
+      const noteEnd = noteStart + note.duration;
+
+      oscillator.type = chime.wave;
+      oscillator.frequency.value = note.frequency;
+      // Quick attack, exponential decay
+      gain.gain.setValueAtTime(0.0001, noteStart);
+      gain.gain.exponentialRampToValueAtTime(volume * 0.3, noteStart + 0.02);
+      gain.gain.exponentialRampToValueAtTime(0.0001, noteEnd);
+
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(noteStart);
+      oscillator.stop(noteEnd);
+    }
+
+    audioPlayer.duck(DUCK_LEVEL, getChimeLength(chime) * 1000 + DUCK_RELEASE_MS);
+  }
+}
+
+// Single global instance
+export const soundEffects = new SoundEffectsPlayer();
+
+/**
+ * Play the start/end/break-over chimes as the timer moves through a cycle.
+ * Run it in one window only. Returns a cleanup function.
+ */
+export function startSessionSounds(): () => void {
+  // A pomodoro that starts fresh (not resumed after a pause) gets the start chime
+  const isFreshStart = (timer: TimerState, previous: TimerState): boolean => {
+    if (!timer.isRunning || previous.isRunning || timer.mode !== 'pomodoro') return false;
+
+    const fullLength = getTimerDurations(useSettingsStore.getState()).pomodoro;
+    const wasPausedMidBlock = previous.mode === 'pomodoro'
+      && !previous.phase
+      && previous.secondsLeft > 0
+      && previous.secondsLeft < fullLength;
+    return !wasPausedMidBlock;
+  };
+
+  const unsubscribeTimer = useAppStore.subscribe((state, previousState) => {
+    if (state.timer === previousState.timer) return;
+
+    const { sessionStartSound, startChime, chimeVolume } = useSettingsStore.getState();
+    if (sessionStartSound && isFreshStart(state.timer, previousState.timer)) {
+      soundEffects.play(startChime, chimeVolume);
+    }
+  });
+
+  const unsubscribeComplete = timerService.onComplete((mode) => {
+    const { sessionEndSound, endChime, breakOverChime, chimeVolume } = useSettingsStore.getState();
+    if (!sessionEndSound) return;
+    const isFocus = mode === 'pomodoro' || mode === 'flow';
+    soundEffects.play(isFocus ? endChime : breakOverChime, chimeVolume);
+  });
+
+  return () => {
+    unsubscribeTimer();
+    unsubscribeComplete();
+  };
+}
@@ -0,0 +1,121 @@
+// Cross-window store sync
+// The main window and the mini widget each run their own zustand stores. Local
+// changes to the keys below are sent to the main process, which relays them to
+// the other windows. Conflict rule (per key): the change with the newest
+// timestamp wins; on a tie the window with the higher id wins. Every window
+// applies the same rule, so they all converge on the same value.
+import type { StoreApi } from 'zustand';
+import { useAppStore } from '../stores/useAppStore';
+import { useSettingsStore } from '../stores/useSettingsStore';
+import type { StoreSyncMessage } from '../types/electron';
+
+type SyncedStoreName = StoreSyncMessage['store'];
+
+// The timer is not listed: it is owned by the main-process timer service.
+// savedTimer and activeSessionId are, so every window persists the same values.
+const APP_SYNCED_KEYS = [
+  'tasks',
+  'currentTaskId',
+  'projects',
+  'notes',
+  'statsByDate',
+  'savedTimer',
+  'activeSessionId',
+  'currentTrackIndex',
+  'isPlaying',
+  'volume',
+];
+
+const STORES = {
+  app: useAppStore,
+  settings: useSettingsStore,
+} as unknown as Record<SyncedStoreName, StoreApi<Record<string, unknown>>>;
+
+// Settings sync every data field (actions are functions and stay local)
+function getSyncedKeys(store: SyncedStoreName, state: Record<string, unknown>): string[] {
+  if (store === 'app') return APP_SYNCED_KEYS;
+  return Object.keys(state).filter((key) => typeof state[key] !== 'function');
+}
+
+interface KeyVersion {
+  updatedAt: number;
+  origin: number;
+}
+
+function isNewer(candidate: KeyVersion, current: KeyVersion | undefined): boolean {
+  if (!current) return true;
+  if (candidate.updatedAt !== current.updatedAt) {
+    return candidate.updatedAt > current.updatedAt;
+  }
+  return candidate.origin > current.origin;
+}
+
+/**
+ * Start syncing the app and settings stores with the other windows.
+ * Returns a cleanup function; a no-op outside Electron.
+ */
+export function startStoreSync(): () => void {
+  if (!window.electronAPI?.syncStore) return () => {};
+
+  const versions = new Map<string, KeyVersion>();
+  let windowId = 0;
+  let applyingRemote = false;
+
+  const applyMessage = (message: StoreSyncMessage) => {
+    const store = STORES[message.store];
+    if (!store) return;
+
+    const patch: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(message.patch)) {
+      const versionKey = `${message.store}.${key}`;
+      const candidate = { updatedAt: message.updatedAt, origin: message.origin };
+      if (isNewer(candidate, versions.get(versionKey))) {
+        versions.set(versionKey, candidate);
+        patch[key] = value;
+      }
+    }
+
+    if (Object.keys(patch).length === 0) return;
+
+    applyingRemote = true;
+    try {
+      store.setState(patch);
+    } finally {
+      applyingRemote = false;
+    }
+  };
+
+  const unsubscribes = (Object.keys(STORES) as SyncedStoreName[]).map((name) =>
+    STORES[name].subscribe((state, prevState) => {
+      if (applyingRemote) return;
+
+      const updatedAt = Date.now();
+      const patch: Record<string, unknown> = {};
+      for (const key of getSyncedKeys(name, state)) {
+        if (state[key] !== prevState[key]) {
+          patch[key] = state[key];
+          versions.set(`${name}.${key}`, { updatedAt, origin: windowId });
+        }
+      }
+
+      if (Object.keys(patch).length > 0) {
+        window.electronAPI.syncStore({ store: name, patch, updatedAt }).catch(console.error);
+      }
+    })
+  );
+
+  // Catch up on anything changed before this window opened
+  window.electronAPI
+    .getStoreSnapshot()
+    .then((snapshot) => {
+      windowId = snapshot.windowId;
+      snapshot.messages.forEach(applyMessage);
+    })
+    .catch(console.error);
+
+  unsubscribes.push(window.electronAPI.onStoreSync(applyMessage));
+
+  return () => {
+    unsubscribes.forEach((unsubscribe) => unsubscribe());
+  };
+}
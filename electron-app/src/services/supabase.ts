@@ -15,6 +15,28 @@ export const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
   },
 });
 
+// Password reset runs on its own client so that only it uses PKCE: its links
+// carry a one-time code that only this install can redeem, while sign-up
+// confirmation and every other flow keep the settings above. The session the
+// code gives is handed to the main client and not kept here; the code verifier
+// is, so a link still works after the app restarts.
+const PASSWORD_RESET_STORAGE_KEY = 'capyfocus-password-reset';
+export const passwordResetClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+  auth: {
+    flowType: 'pkce',
+    storageKey: PASSWORD_RESET_STORAGE_KEY,
+    autoRefreshToken: false,
+    persistSession: true,
+    detectSessionInUrl: false,
+    storage: typeof window !== 'undefined' ? window.localStorage : undefined,
+  },
+});
+
+// When a reset was last requested from this app, so a recovery link is only
+// honoured while one is expected. Supabase's recovery links expire after an hour.
+const PASSWORD_RESET_KEY = 'password-reset-requested-at';
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+
 export class SupabaseService {
   // Authentication
   async signUp(email: string, password: string) {
@@ -43,16 +65,48 @@ export class SupabaseService {
   }
 
   async resetPasswordForEmail(email: string) {
-    // For Electron apps, use localhost:5173 for dev or a proper web URL for prod
+    // The link in the email opens the app through its capyfocus:// protocol.
     // The redirect URL must be whitelisted in Supabase dashboard under
     // Authentication > URL Configuration > Redirect URLs
-    const redirectUrl = 'http://localhost:5173/#/reset-password';
+    const redirectUrl = 'capyfocus://reset-password';
 
-    const { error } = await supabase.auth.resetPasswordForEmail(email, {
+    const { error } = await passwordResetClient.auth.resetPasswordForEmail(email, {
       redirectTo: redirectUrl,
     });
 
     if (error) throw error;
+    localStorage.setItem(PASSWORD_RESET_KEY, String(Date.now()));
+  }
+
+  // True while a reset requested from this app may still have its link clicked
+  isPasswordResetPending(): boolean {
+    const requestedAt = Number(localStorage.getItem(PASSWORD_RESET_KEY));
+    return requestedAt > 0 && Date.now() - requestedAt < PASSWORD_RESET_TTL_MS;
+  }
+
+  // Sign in from a password recovery link. Only a PKCE code is accepted, and only
+  // for a reset this app asked for: session tokens in a link would sign the app
+  // into whichever account the link's sender chose.
+  async recoverSessionFromUrl(url: URL) {
+    if (!this.isPasswordResetPending()) {
+      throw new Error('No password reset was requested from this app');
+    }
+    const code = url.searchParams.get('code');
+    if (!code) {
+      throw new Error('Recovery link is missing its code');
+    }
+
+    // A recovery link works once, whether or not the exchange succeeds
+    localStorage.removeItem(PASSWORD_RESET_KEY);
+    const { data, error } = await passwordResetClient.auth.exchangeCodeForSession(code);
+    localStorage.removeItem(PASSWORD_RESET_STORAGE_KEY);
+    if (error) throw error;
+
+    const { error: sessionError } = await supabase.auth.setSession({
+      access_token: data.session.access_token,
+      refresh_token: data.session.refresh_token,
+    });
+    if (sessionError) throw sessionError;
   }
 
   async updatePassword(newPassword: string) {
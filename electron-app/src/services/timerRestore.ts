@@ -0,0 +1,167 @@
+// Timer restore
+// The live timer is never persisted, but a running block is saved alongside it
+// (savedTimer) so quitting or crashing mid-session doesn't lose it. On the next
+// launch the saved block comes back as interruptedTimer: it can be resumed while
+// its end time is still ahead, or recorded or discarded once it has run out.
+// Flow blocks have no end time, so they can always be resumed.
+import { useAppStore } from '../stores/useAppStore';
+import { SavedTimer, TimerState } from '../types';
+import { timerService } from './timerService';
+
+export type InterruptedTimerOutcome = 'resumed' | 'recorded' | 'discarded';
+
+type ResolveListener = (saved: SavedTimer, outcome: InterruptedTimerOutcome) => void;
+
+// How often savedAt is refreshed while a block runs; a crash loses at most this much flow time
+const SAVED_AT_REFRESH_MS = 60_000;
+
+const resolveListeners = new Set<ResolveListener>();
+
+/** Seconds the saved block had run when it was last seen running */
+export function getSavedElapsedSeconds(saved: SavedTimer): number {
+  return Math.max(0, Math.floor((saved.savedAt - saved.runStartedAt) / 1000));
+}
+
+/** Whether the saved block can still be resumed (its end time hasn't passed) */
+export function canResumeSavedTimer(saved: SavedTimer, now = Date.now()): boolean {
+  return saved.mode === 'flow' || (saved.targetEndTime ?? 0) > now;
+}
+
+/** Listen for the interrupted block being resumed, recorded or discarded */
+export function onInterruptedTimerResolved(listener: ResolveListener): () => void {
+  resolveListeners.add(listener);
+  return () => {
+    resolveListeners.delete(listener);
+  };
+}
+
+function settle(outcome: InterruptedTimerOutcome): SavedTimer | null {
+  const { interruptedTimer, setInterruptedTimer, setSavedTimer } = useAppStore.getState();
+  if (!interruptedTimer) return null;
+
+  setInterruptedTimer(null);
+  setSavedTimer(null);
+  resolveListeners.forEach((listener) => listener(interruptedTimer, outcome));
+  return interruptedTimer;
+}
+
+/** Record the interrupted block as if it had finished */
+export function recordInterruptedTimer(): void {
+  const saved = settle('recorded');
+  if (!saved) return;
+
+  const { recordPomodoro, recordFlowSession, incrementTaskPomodoros, tasks } = useAppStore.getState();
+  if (saved.mode === 'flow') {
+    recordFlowSession(getSavedElapsedSeconds(saved), saved.taskId);
+  } else if (saved.mode === 'pomodoro') {
+    // It ran its full length on the wall clock
+    recordPomodoro(Math.round(((saved.targetEndTime ?? saved.savedAt) - saved.runStartedAt) / 1000), saved.taskId);
+    if (saved.taskId && tasks.some((t) => t.id === saved.taskId)) {
+      incrementTaskPomodoros(saved.taskId);
+    }
+  }
+}
+
+/** Throw the interrupted block away */
+export function discardInterruptedTimer(): void {
+  settle('discarded');
+}
+
+/** Pick the interrupted block up again (records it instead if it has run out meanwhile) */
+export function resumeInterruptedTimer(): void {
+  const { interruptedTimer } = useAppStore.getState();
+  if (!interruptedTimer) return;
+
+  const now = Date.now();
+  if (!canResumeSavedTimer(interruptedTimer, now)) {
+    recordInterruptedTimer();
+    return;
+  }
+
+  const saved = settle('resumed');
+  if (!saved) return;
+
+  // Flow picks up from the time focused before the app closed; a countdown
+  // keeps its original end time
+  if (saved.mode === 'flow') {
+    timerService.start({ mode: 'flow', elapsedSeconds: getSavedElapsedSeconds(saved) });
+  } else {
+    timerService.start({
+      mode: saved.mode,
+      durationSeconds: Math.ceil(((saved.targetEndTime ?? now) - now) / 1000),
+      elapsedSeconds: Math.floor((now - saved.runStartedAt) / 1000),
+    });
+  }
+}
+
+function isSameBlock(a: SavedTimer, b: SavedTimer): boolean {
+  return a.mode === b.mode
+    && a.targetEndTime === b.targetEndTime
+    && a.runStartedAt === b.runStartedAt
+    && a.sessionId === b.sessionId
+    && a.taskId === b.taskId;
+}
+
+function getRunningBlock(timer: TimerState, sessionId: string | null, taskId: string | null): SavedTimer | null {
+  if (!timer.isRunning || timer.phase || !timer.runStartedAt) return null;
+  return {
+    mode: timer.mode,
+    targetEndTime: timer.mode === 'flow' ? null : timer.targetEndTime,
+    runStartedAt: timer.runStartedAt,
+    sessionId,
+    taskId,
+    savedAt: Date.now(),
+  };
+}
+
+/**
+ * Keep savedTimer up to date and surface a block interrupted by the last quit.
+ * Run it in one window only. Returns a cleanup function.
+ */
+export function startTimerRestore(): () => void {
+  // Anything saved is from before this launch, unless the timer is still
+  // running (e.g. the window was reopened while the app kept going)
+  const checkInterrupted = (timer: TimerState) => {
+    const { savedTimer, interruptedTimer, setInterruptedTimer } = useAppStore.getState();
+    if (savedTimer && !interruptedTimer && !timer.isRunning) {
+      setInterruptedTimer(savedTimer);
+    }
+  };
+
+  if (window.electronAPI?.timerGetState) {
+    window.electronAPI.timerGetState().then(checkInterrupted).catch(console.error);
+  } else {
+    checkInterrupted(useAppStore.getState().timer);
+  }
+
+  return useAppStore.subscribe((state, previousState) => {
+    if (
+      state.timer === previousState.timer
+      && state.activeSessionId === previousState.activeSessionId
+      && state.currentTaskId === previousState.currentTaskId
+    ) {
+      return;
+    }
+
+    const running = getRunningBlock(state.timer, state.activeSessionId, state.currentTaskId);
+    if (running) {
+      // Starting something new while the prompt is open lets the old block go
+      if (state.interruptedTimer) {
+        discardInterruptedTimer();
+      }
+      const { savedTimer } = useAppStore.getState();
+      const isFresh = savedTimer
+        && isSameBlock(savedTimer, running)
+        && running.savedAt - savedTimer.savedAt < SAVED_AT_REFRESH_MS;
+      if (!isFresh) {
+        state.setSavedTimer(running);
+      }
+      return;
+    }
+
+    // Keep an unanswered interrupted block saved so it survives another restart
+    if (state.savedTimer && !state.interruptedTimer) {
+      state.setSavedTimer(null);
+    }
+  });
+}
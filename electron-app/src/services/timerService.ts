@@ -0,0 +1,216 @@
+// Timer service singleton - the renderer's handle on the one timer.
+// In Electron the clock runs in the main process: commands go over IPC and
+// every window mirrors the state it broadcasts. Outside Electron (browser dev,
+// tests) the same timer engine the main process uses runs here over the store.
+import { useAppStore } from '../stores/useAppStore';
+import { TimerMode, TimerState, AwayPeriod, BreathingStep, BREATHING_PATTERN } from '../types';
+import type { ElectronAPI, TimerConfig, TimerStartOptions } from '../types/electron';
+import {
+  createTimerEngine,
+  DEFAULT_TIMER_CONFIG,
+  IDLE_TIMER_FIELDS,
+  TimerEngine,
+} from '../../electron/timerEngine';
+
+// elapsedSeconds is the time the block actually ran (pauses excluded)
+type CompleteListener = (mode: TimerMode, elapsedSeconds: number) => void;
+type AwayListener = (period: AwayPeriod) => void;
+
+/**
+ * Where a guided breathing phase is, given the seconds elapsed since it began.
+ * Returns the current step and the seconds left in it.
+ */
+export function getBreathingStep(elapsedSeconds: number): { step: BreathingStep; secondsLeft: number } {
+  const cycleLength = BREATHING_PATTERN.reduce((sum, { seconds }) => sum + seconds, 0);
+  let position = ((elapsedSeconds % cycleLength) + cycleLength) % cycleLength;
+
+  for (const { step, seconds } of BREATHING_PATTERN) {
+    if (position < seconds) {
+      return { step, secondsLeft: seconds - position };
+    }
+    position -= seconds;
+  }
+  const last = BREATHING_PATTERN[BREATHING_PATTERN.length - 1];
+  return { step: last.step, secondsLeft: last.seconds };
+}
+
+class TimerService {
+  private completeListeners = new Set<CompleteListener>();
+  private awayListeners = new Set<AwayListener>();
+  // Browser fallback only
+  private localEngine: TimerEngine | null = null;
+  private localConfig: TimerConfig = DEFAULT_TIMER_CONFIG;
+
+  // True when the main process owns the countdown
+  private hasMainTimer(): boolean {
+    return typeof window !== 'undefined' && !!window.electronAPI?.timerStart;
+  }
+
+  /**
+   * Mirror the main-process timer into this window's store.
+   * Returns a cleanup function; a no-op outside Electron.
+   */
+  connect(): () => void {
+    if (!this.hasMainTimer()) return () => {};
+
+    const { setTimerState } = useAppStore.getState();
+    window.electronAPI.timerGetState().then(setTimerState).catch(console.error);
+
+    const unsubscribeState = window.electronAPI.onTimerState(setTimerState);
+    const unsubscribeComplete = window.electronAPI.onTimerComplete((mode, elapsedSeconds) => {
+      this.emitComplete(mode, elapsedSeconds);
+    });
+    const unsubscribeAway = window.electronAPI.onTimerAway((period) => {
+      this.awayListeners.forEach((listener) => listener(period));
+    });
+
+    return () => {
+      unsubscribeState();
+      unsubscribeComplete();
+      unsubscribeAway();
+    };
+  }
+
+  /** Listen for a block reaching 00:00, or a flow block being finished (fires once per completion) */
+  onComplete(listener: CompleteListener): () => void {
+    this.completeListeners.add(listener);
+    return () => {
+      this.completeListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Hand each finished block to `record` once, to count it in the stats. In
+   * Electron the main process holds them until they're taken, so one that ended
+   * while no window was listening (reloading, not loaded yet) comes through too.
+   * Use it in the main window only. Returns a cleanup function.
+   */
+  recordCompletions(record: CompleteListener): () => void {
+    if (!this.hasMainTimer()) return this.onComplete(record);
+
+    const take = () => {
+      window.electronAPI
+        .timerTakeCompletions()
+        .then((completions) => completions.forEach(({ mode, elapsedSeconds }) => record(mode, elapsedSeconds)))
+        .catch(console.error);
+    };
+    take();
+    return this.onComplete(take);
+  }
+
+  /** Listen for the user coming back from time away during focus (only detected in Electron) */
+  onAway(listener: AwayListener): () => void {
+    this.awayListeners.add(listener);
+    return () => {
+      this.awayListeners.delete(listener);
+    };
+  }
+
+  /**
+   * The timer's state as its owner sees it. In Electron it comes from the main
+   * process, which answers in order, so it includes every command sent before.
+   */
+  getState(): Promise<TimerState> {
+    if (!this.hasMainTimer()) return Promise.resolve(useAppStore.getState().timer);
+    return window.electronAPI.timerGetState().catch((error) => {
+      console.error(error);
+      return useAppStore.getState().timer;
+    });
+  }
+
+  // Every command resolves with the timer state it leaves behind
+
+  configure(config: TimerConfig): Promise<TimerState> {
+    return this.send(
+      (api) => api.timerConfigure(config),
+      (engine) => {
+        const previous = this.localConfig;
+        this.localConfig = config;
+        engine.reconfigure(previous);
+      }
+    );
+  }
+
+  start(options: TimerStartOptions = {}): Promise<TimerState> {
+    return this.send((api) => api.timerStart(options), (engine) => engine.start(options));
+  }
+
+  pause(): Promise<TimerState> {
+    return this.send((api) => api.timerPause(), (engine) => engine.pause());
+  }
+
+  reset(): Promise<TimerState> {
+    return this.send((api) => api.timerReset(), (engine) => engine.reset());
+  }
+
+  setMode(mode: TimerMode, durationSeconds?: number): Promise<TimerState> {
+    return this.send(
+      (api) => api.timerSetMode(mode, durationSeconds),
+      (engine) => engine.setMode(mode, durationSeconds)
+    );
+  }
+
+  skip(): Promise<TimerState> {
+    return this.send((api) => api.timerSkip(), (engine) => engine.skip());
+  }
+
+  /**
+   * Take time back out of the current block as if it hadn't run: the countdown
+   * gets it back and flow stops counting it. Never more than the block has run.
+   */
+  discardTime(seconds: number): Promise<TimerState> {
+    return this.send((api) => api.timerDiscardTime(seconds), (engine) => engine.discardTime(seconds));
+  }
+
+  /** Cancel a pending auto-advance; the next block stays selected but idle */
+  cancelAutoStart(): Promise<TimerState> {
+    return this.send((api) => api.timerCancelAutoStart(), (engine) => engine.cancelAutoStart());
+  }
+
+  /** End the current session phase early and move on to what follows it */
+  skipPhase(): Promise<TimerState> {
+    return this.send((api) => api.timerSkipPhase(), (engine) => engine.skipPhase());
+  }
+
+  // Hand a command to the main-process timer, or run it on the local engine.
+  // A failed IPC call is logged and answered with the last mirrored state.
+  private send(
+    viaMain: (api: ElectronAPI) => Promise<TimerState>,
+    locally: (engine: TimerEngine) => void
+  ): Promise<TimerState> {
+    if (this.hasMainTimer()) {
+      return viaMain(window.electronAPI).catch((error) => {
+        console.error(error);
+        return useAppStore.getState().timer;
+      });
+    }
+
+    locally(this.getLocalEngine());
+    return Promise.resolve(useAppStore.getState().timer);
+  }
+
+  private getLocalEngine(): TimerEngine {
+    if (!this.localEngine) {
+      this.localEngine = createTimerEngine({
+        // State saved by older versions may lack the newer fields
+        getState: () => ({ ...IDLE_TIMER_FIELDS, ...useAppStore.getState().timer }),
+        setState: (state) => useAppStore.getState().setTimerState(state),
+        getConfig: () => this.localConfig,
+        onComplete: (mode, elapsedSeconds) => this.emitComplete(mode, elapsedSeconds),
+        notify: ({ title, body, silent }) => {
+          if (typeof Notification !== 'undefined' && Notification.permission === 'granted') {
+            new Notification(title, { body, silent });
+          }
+        },
+      });
+    }
+    return this.localEngine;
+  }
+
+  private emitComplete(mode: TimerMode, elapsedSeconds: number): void {
+    this.completeListeners.forEach((listener) => listener(mode, elapsedSeconds));
+  }
+}
+
+// Single global instance
+export const timerService = new TimerService();
@@ -0,0 +1,94 @@
+// Tray menu sync
+// The menu-bar tray offers the current task and a quick pick of recent ones.
+// The main process knows nothing about tasks, so the main window sends it the
+// list whenever it changes and applies the tray's selections.
+import { useAppStore } from '../stores/useAppStore';
+import { DayActivity, Task } from '../types';
+import type { TrayTasks } from '../types/electron';
+
+// How many tasks the "Recent Tasks" submenu offers
+export const TRAY_RECENT_TASK_LIMIT = 5;
+
+/**
+ * Open tasks for the tray, most recently focused on first, then newest first.
+ * Includes the current task so it shows as checked.
+ */
+export function getRecentTasks(
+  tasks: Task[],
+  statsByDate: Record<string, DayActivity>,
+  limit = TRAY_RECENT_TASK_LIMIT
+): Task[] {
+  const lastFocusedAt = new Map<string, string>();
+  for (const day of Object.values(statsByDate)) {
+    for (const session of day.sessions) {
+      if (!session.taskId) continue;
+      const previous = lastFocusedAt.get(session.taskId);
+      if (!previous || session.endedAt > previous) {
+        lastFocusedAt.set(session.taskId, session.endedAt);
+      }
+    }
+  }
+
+  return tasks
+    .map((task, index) => ({ task, index }))
+    .filter(({ task }) => !task.isCompleted)
+    .sort((a, b) => {
+      const focusedA = lastFocusedAt.get(a.task.id) ?? '';
+      const focusedB = lastFocusedAt.get(b.task.id) ?? '';
+      if (focusedA !== focusedB) return focusedA > focusedB ? -1 : 1;
+      // New tasks are appended, so a higher index is newer
+      return b.index - a.index;
+    })
+    .slice(0, limit)
+    .map(({ task }) => task);
+}
+
+function getTrayTasks(): TrayTasks {
+  const { tasks, currentTaskId, statsByDate } = useAppStore.getState();
+  const currentTask = tasks.find((t) => t.id === currentTaskId);
+  return {
+    currentTask: currentTask ? { id: currentTask.id, title: currentTask.title } : null,
+    recentTasks: getRecentTasks(tasks, statsByDate).map(({ id, title }) => ({ id, title })),
+  };
+}
+
+/**
+ * Keep the tray's task items up to date and apply selections made there.
+ * Run it in one window only. Returns a cleanup function; a no-op outside Electron.
+ */
+export function startTrayMenuSync(): () => void {
+  const api = window.electronAPI;
+  if (!api?.updateTrayTasks) return () => {};
+
+  let lastSent = '';
+  const send = () => {
+    const trayTasks = getTrayTasks();
+    const serialized = JSON.stringify(trayTasks);
+    if (serialized === lastSent) return;
+    lastSent = serialized;
+    api.updateTrayTasks(trayTasks).catch(console.error);
+  };
+
+  send();
+  const unsubscribeStore = useAppStore.subscribe((state, previousState) => {
+    if (
+      state.tasks !== previousState.tasks
+      || state.currentTaskId !== previousState.currentTaskId
+      || state.statsByDate !== previousState.statsByDate
+    ) {
+      send();
+    }
+  });
+
+  const unsubscribeSelect = api.onTraySelectTask((taskId) => {
+    const { tasks, setCurrentTaskId } = useAppStore.getState();
+    if (tasks.some((t) => t.id === taskId && !t.isCompleted)) {
+      setCurrentTaskId(taskId);
+    }
+  });
+
+  return () => {
+    unsubscribeStore();
+    unsubscribeSelect();
+  };
+}
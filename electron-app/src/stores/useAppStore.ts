@@ -1,6 +1,12 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { Tab, Task, TimerMode, TimerState, MusicTrack, User, TIMER_DURATIONS, DayActivity, TodaySummary, WeekSummary, DaySummary } from '../types';
+import { Tab, Task, Project, PROJECT_COLORS, NewTaskDetails, TimerMode, TimerState, SavedTimer, AwayPeriod, MusicTrack, User, DayActivity, TodaySummary, WeekSummary, DaySummary, FocusBreakdown, EstimateAccuracy, TaskSection, TaskPriority, TaskSort, RecurrenceRule } from '../types';
+import { useSettingsStore, getTimerDurations } from './useSettingsStore';
+
+// Helper to get the configured length of a timer mode in seconds
+function getModeDuration(mode: TimerMode): number {
+  return getTimerDurations(useSettingsStore.getState())[mode];
+}
 
 export type AuthView = 'login' | 'forgot-password' | 'reset-password';
 
@@ -16,10 +22,82 @@ function getDateDaysAgo(daysAgo: number): string {
   return date.toISOString().split('T')[0];
 }
 
+// Helper to shift a YYYY-MM-DD date by whole days
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+// Helper to count the days from one YYYY-MM-DD date to another
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+// Empty stats entry for a day
+function createDayActivity(date: string): DayActivity {
+  return {
+    date,
+    pomodoros: 0,
+    focusSeconds: 0,
+    sessions: [],
+    completedTasks: 0,
+    hasNote: false,
+  };
+}
+
+// Add a finished focus block to today's stats
+function addFocusSession(
+  byDate: Record<string, DayActivity>,
+  mode: TimerMode,
+  focusSeconds: number,
+  taskId: string | null
+): Record<string, DayActivity> {
+  const today = getTodayDate();
+  const existing = byDate[today] || createDayActivity(today);
+  const seconds = Math.max(0, Math.round(focusSeconds));
+
+  return {
+    ...byDate,
+    [today]: {
+      ...existing,
+      pomodoros: mode === 'pomodoro' ? existing.pomodoros + 1 : existing.pomodoros,
+      focusSeconds: existing.focusSeconds + seconds,
+      sessions: [
+        ...existing.sessions,
+        { mode, endedAt: new Date().toISOString(), focusSeconds: seconds, taskId },
+      ],
+    },
+  };
+}
+
+// Bring stats saved before focus time was tracked up to date: those builds
+// counted 25 minutes per pomodoro (and kept flow time as whole minutes)
+export function migrateStatsByDate(byDate: Record<string, unknown>): Record<string, DayActivity> {
+  const migrated: Record<string, DayActivity> = {};
+  for (const [date, value] of Object.entries(byDate)) {
+    const legacy = value as Partial<DayActivity> & { flowMinutes?: number };
+    const pomodoros = legacy.pomodoros ?? 0;
+    migrated[date] = {
+      date: legacy.date ?? date,
+      pomodoros,
+      focusSeconds: legacy.focusSeconds ?? (pomodoros * 25 + (legacy.flowMinutes ?? 0)) * 60,
+      sessions: legacy.sessions ?? [],
+      completedTasks: legacy.completedTasks ?? 0,
+      hasNote: legacy.hasNote ?? false,
+    };
+  }
+  return migrated;
+}
+
+function toMinutes(seconds: number): number {
+  return Math.round(seconds / 60);
+}
+
 // Check if a day is active
 function isDayActive(activity: DayActivity | undefined): boolean {
   if (!activity) return false;
-  return activity.pomodoros > 0 || activity.completedTasks > 0 || activity.hasNote;
+  return activity.pomodoros > 0 || activity.focusSeconds > 0 || activity.completedTasks > 0 || activity.hasNote;
 }
 
 // Calculate streak
@@ -46,7 +124,7 @@ export function getTodaySummary(byDate: Record<string, DayActivity>): TodaySumma
 
   return {
     pomodoros: activity?.pomodoros ?? 0,
-    minutes: (activity?.pomodoros ?? 0) * 25, // 25 min per pomodoro
+    minutes: toMinutes(activity?.focusSeconds ?? 0),
     completedTasks: activity?.completedTasks ?? 0,
   };
 }
@@ -54,6 +132,7 @@ export function getTodaySummary(byDate: Record<string, DayActivity>): TodaySumma
 // Get this week's summary (last 7 days including today)
 export function getWeekSummary(byDate: Record<string, DayActivity>): WeekSummary {
   let pomodoros = 0;
+  let focusSeconds = 0;
   let activeDays = 0;
 
   for (let i = 0; i < 7; i++) {
@@ -61,6 +140,7 @@ export function getWeekSummary(byDate: Record<string, DayActivity>): WeekSummary
     const activity = byDate[date];
     if (activity) {
       pomodoros += activity.pomodoros;
+      focusSeconds += activity.focusSeconds;
       if (isDayActive(activity)) {
         activeDays++;
       }
@@ -69,32 +149,251 @@ export function getWeekSummary(byDate: Record<string, DayActivity>): WeekSummary
 
   return {
     pomodoros,
-    minutes: pomodoros * 25,
+    minutes: toMinutes(focusSeconds),
     activeDays,
   };
 }
 
-// Get summaries for all days in a given month (for Calendar)
+// Which list an open task belongs in. Past its due date it's overdue; due or
+// scheduled for today (or scheduled earlier and not done yet) it's for today,
+// as is an undated task added today; dated later it's upcoming; else someday.
+export function getTaskSection(
+  task: Pick<Task, 'createdAt' | 'dueDate' | 'scheduledFor'>,
+  today = getTodayDate()
+): TaskSection {
+  const { dueDate, scheduledFor } = task;
+  if (dueDate && dueDate < today) return 'overdue';
+  if (dueDate === today || (scheduledFor && scheduledFor <= today)) return 'today';
+  if (dueDate || scheduledFor) return 'upcoming';
+  return task.createdAt === today ? 'today' : 'someday';
+}
+
+// Order tasks for display. The stored order is the manual (drag-and-drop) one,
+// and it breaks ties in the others. Newest first when sorting by created.
+export function sortTasks<T extends Pick<Task, 'priority' | 'dueDate' | 'createdAt'>>(
+  tasks: T[],
+  sort: TaskSort
+): T[] {
+  if (sort === 'manual') return tasks;
+
+  const sorted = [...tasks];
+  if (sort === 'priority') {
+    sorted.sort((a, b) => (a.priority ?? 4) - (b.priority ?? 4));
+  } else if (sort === 'dueDate') {
+    // Undated tasks go last
+    sorted.sort((a, b) => (a.dueDate ?? '9999-12-31').localeCompare(b.dueDate ?? '9999-12-31'));
+  } else {
+    sorted.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+  return sorted;
+}
+
+// The open task to focus on next: the most urgent one, earliest in the manual order
+export function getNextTask<T extends Pick<Task, 'isCompleted' | 'priority'>>(tasks: T[]): T | undefined {
+  return tasks
+    .filter((task) => !task.isCompleted)
+    .reduce<T | undefined>(
+      (best, task) => (!best || (task.priority ?? 4) < (best.priority ?? 4) ? task : best),
+      undefined
+    );
+}
+
+// Move an item to where another one is, shifting the items in between: it
+// lands after the target when moving down and before it when moving up
+function moveItem<T extends { id: string }>(items: T[], id: string, targetId: string): T[] {
+  const from = items.findIndex((item) => item.id === id);
+  const to = items.findIndex((item) => item.id === targetId);
+  if (from === -1 || to === -1 || from === to) return items;
+
+  const moved = [...items];
+  const [item] = moved.splice(from, 1);
+  moved.splice(to, 0, item);
+  return moved;
+}
+
+// A rule made safe to store: weekly days kept to whole weekdays (0-6) and
+// intervals to a whole number of days, at least one. Null when it can't be used.
+export function sanitizeRecurrence(rule: RecurrenceRule | null | undefined): RecurrenceRule | null {
+  switch (rule?.type) {
+    case 'daily':
+    case 'weekdays':
+    case 'monthly':
+      return { type: rule.type };
+    case 'weekly': {
+      const days = Array.isArray(rule.days)
+        ? rule.days.filter((day) => Number.isInteger(day) && day >= 0 && day <= 6)
+        : [];
+      return { type: 'weekly', days: [...new Set(days)].sort((a, b) => a - b) };
+    }
+    case 'interval':
+      return Number.isFinite(rule.days) ? { type: 'interval', days: Math.max(1, Math.round(rule.days)) } : null;
+    default:
+      return null;
+  }
+}
+
+// The first day after `after` that a recurrence falls on. Monthly repeats keep
+// the day of month of `anchor`; a weekly rule without days repeats on its weekday.
+export function getNextOccurrence(rule: RecurrenceRule, after: string, anchor = after): string {
+  switch (rule.type) {
+    case 'daily':
+      return addDays(after, 1);
+    case 'interval':
+      return addDays(after, Number.isFinite(rule.days) ? Math.max(1, Math.round(rule.days)) : 1);
+    case 'weekdays':
+    case 'weekly': {
+      const days =
+        rule.type === 'weekdays'
+          ? [1, 2, 3, 4, 5]
+          : rule.days.length > 0 ? rule.days : [new Date(`${anchor}T00:00:00Z`).getUTCDay()];
+      // Every weekday comes round within a week; a rule naming none of them
+      // (only possible if it skipped sanitizing) falls back to a week later
+      for (let step = 1; step <= 7; step++) {
+        const next = addDays(after, step);
+        if (days.includes(new Date(`${next}T00:00:00Z`).getUTCDay())) return next;
+      }
+      return addDays(after, 7);
+    }
+    case 'monthly': {
+      const [year, month, day] = after.split('-').map(Number);
+      const anchorDay = Number(anchor.split('-')[2]);
+      const onMonth = (y: number, m: number) => {
+        const lastDay = new Date(Date.UTC(y, m, 0)).getUTCDate(); // m is 1-based here
+        return `${y}-${String(m).padStart(2, '0')}-${String(Math.min(anchorDay, lastDay)).padStart(2, '0')}`;
+      };
+      const thisMonth = onMonth(year, month);
+      if (Number(thisMonth.split('-')[2]) > day) return thisMonth;
+      return month === 12 ? onMonth(year + 1, 1) : onMonth(year, month + 1);
+    }
+  }
+}
+
+// The next instance of a repeating task that was just completed: a fresh copy
+// with its subtasks reset and its dates moved to the next occurrence (never
+// earlier than tomorrow). An undated task is scheduled for it.
+function createNextOccurrence(task: Task, rule: RecurrenceRule, today: string): Task {
+  const date = task.dueDate ?? task.scheduledFor;
+  const next = getNextOccurrence(rule, date && date > today ? date : today, date ?? today);
+  const shift = (d?: string) => (d ? addDays(d, daysBetween(date!, next)) : undefined);
+
+  return {
+    ...task,
+    id: crypto.randomUUID(),
+    isCompleted: false,
+    completedAt: undefined,
+    createdAt: today,
+    spentPomodoros: 0,
+    dueDate: shift(task.dueDate),
+    scheduledFor: date ? shift(task.scheduledFor) : next,
+    subtasks: task.subtasks?.map((subtask) => ({
+      ...subtask,
+      id: crypto.randomUUID(),
+      isCompleted: false,
+      createdAt: today,
+    })),
+  };
+}
+
+// After a task is marked complete: if it repeats, the series moves on to a new
+// instance placed right after it, and the completed one is left as history
+function continueRecurrence(tasks: Task[], id: string, today: string): Task[] {
+  const index = tasks.findIndex((t) => t.id === id);
+  const task = tasks[index];
+  if (!task?.recurrence || !task.isCompleted) return tasks;
+
+  const next = createNextOccurrence(task, task.recurrence, today);
+  const completed = { ...task, recurrence: undefined, nextOccurrenceId: next.id };
+  return [...tasks.slice(0, index), completed, next, ...tasks.slice(index + 1)];
+}
+
+// After a completed task is reopened: if completing it moved its series on, the
+// series comes back to it. The occurrence it added is removed and its rule
+// returned, unless that occurrence has been completed in turn.
+function reopenRecurrence(tasks: Task[], id: string): Task[] {
+  const task = tasks.find((t) => t.id === id);
+  if (!task?.nextOccurrenceId) return tasks;
+
+  const next = tasks.find((t) => t.id === task.nextOccurrenceId);
+  const reopened = { ...task, nextOccurrenceId: undefined };
+  if (!next || next.isCompleted) {
+    return tasks.map((t) => (t.id === id ? reopened : t));
+  }
+  return tasks
+    .filter((t) => t.id !== next.id)
+    .map((t) => (t.id === id ? { ...reopened, recurrence: next.recurrence } : t));
+}
+
+// Pomodoros planned for a task: its own estimate, else the sum of its subtasks'
+export function getTaskEstimate(task: Pick<Task, 'estimatedPomodoros' | 'subtasks'>): number | undefined {
+  if (task.estimatedPomodoros) return task.estimatedPomodoros;
+  const subtaskEstimate = (task.subtasks ?? []).reduce((sum, s) => sum + (s.estimatedPomodoros ?? 0), 0);
+  return subtaskEstimate > 0 ? subtaskEstimate : undefined;
+}
+
+// Compare estimates with the pomodoros completed tasks took. Tasks finished
+// without any tracked pomodoros say nothing about the estimate and are left out.
+export function getEstimateAccuracy(
+  tasks: Pick<Task, 'isCompleted' | 'spentPomodoros' | 'estimatedPomodoros' | 'subtasks'>[]
+): EstimateAccuracy {
+  let accurateTasks = 0;
+  let underestimatedTasks = 0;
+  let overestimatedTasks = 0;
+  let ratioSum = 0;
+
+  const estimated = tasks.filter((t) => t.isCompleted && t.spentPomodoros > 0 && getTaskEstimate(t));
+  for (const task of estimated) {
+    const estimate = getTaskEstimate(task) ?? 0;
+    const difference = task.spentPomodoros - estimate;
+    if (difference > 1) underestimatedTasks++;
+    else if (difference < -1) overestimatedTasks++;
+    else accurateTasks++;
+    ratioSum += task.spentPomodoros / estimate;
+  }
+
+  return {
+    estimatedTasks: estimated.length,
+    accurateTasks,
+    underestimatedTasks,
+    overestimatedTasks,
+    averageRatio: estimated.length > 0 ? Math.round((ratioSum / estimated.length) * 100) / 100 : 0,
+  };
+}
+
+// Get summaries for all days in a given month (for Calendar). With a project,
+// only focus logged against its tasks and its own tasks are counted.
 export function getMonthSummaries(
   year: number,
   month: number, // 0-based (0 = January)
   byDate: Record<string, DayActivity>,
   tasks: Task[],
-  hasNoteForDate: (date: string) => boolean
+  hasNoteForDate: (date: string) => boolean,
+  projectId?: string | null
 ): DaySummary[] {
   const summaries: DaySummary[] = [];
   const daysInMonth = new Date(year, month + 1, 0).getDate();
+  const scopedTasks = projectId ? tasks.filter((t) => t.projectId === projectId) : tasks;
+  const scopedTaskIds = new Set(scopedTasks.map((t) => t.id));
 
   for (let day = 1; day <= daysInMonth; day++) {
     const dateStr = `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
     const activity = byDate[dateStr];
-    const completedTasks = tasks.filter((t) => t.completedAt === dateStr);
+    const completedTasks = scopedTasks.filter((t) => t.completedAt === dateStr);
+    const dueTasks = scopedTasks.filter((t) => !t.isCompleted && t.dueDate === dateStr);
+
+    let pomodoros = activity?.pomodoros ?? 0;
+    let focusSeconds = activity?.focusSeconds ?? 0;
+    if (projectId) {
+      const sessions = (activity?.sessions ?? []).filter((s) => s.taskId && scopedTaskIds.has(s.taskId));
+      pomodoros = sessions.filter((s) => s.mode === 'pomodoro').length;
+      focusSeconds = sessions.reduce((sum, s) => sum + s.focusSeconds, 0);
+    }
 
     summaries.push({
       date: dateStr,
-      pomodoros: activity?.pomodoros ?? 0,
-      focusMinutes: (activity?.pomodoros ?? 0) * 25,
+      pomodoros,
+      focusMinutes: toMinutes(focusSeconds),
       completedTasks,
+      dueTasks,
       hasNote: hasNoteForDate(dateStr),
     });
   }
@@ -102,6 +401,47 @@ export function getMonthSummaries(
   return summaries;
 }
 
+// Split the focus logged on the given days by the project and tags of the task
+// each block was logged against. A block counts toward every tag its task has.
+export function getFocusBreakdown(
+  byDate: Record<string, DayActivity>,
+  tasks: Pick<Task, 'id' | 'projectId' | 'tags'>[],
+  dates: string[]
+): FocusBreakdown {
+  const tasksById = new Map(tasks.map((t) => [t.id, t]));
+  const projectSeconds: Record<string, number> = {};
+  const tagSeconds: Record<string, number> = {};
+  let withoutProjectSeconds = 0;
+
+  dates.forEach((date) => {
+    (byDate[date]?.sessions ?? []).forEach(({ taskId, focusSeconds }) => {
+      const task = taskId ? tasksById.get(taskId) : undefined;
+      if (task?.projectId) {
+        projectSeconds[task.projectId] = (projectSeconds[task.projectId] ?? 0) + focusSeconds;
+      } else {
+        withoutProjectSeconds += focusSeconds;
+      }
+      (task?.tags ?? []).forEach((tag) => {
+        tagSeconds[tag] = (tagSeconds[tag] ?? 0) + focusSeconds;
+      });
+    });
+  });
+
+  const toMinuteRecord = (seconds: Record<string, number>) =>
+    Object.fromEntries(Object.entries(seconds).map(([key, value]) => [key, toMinutes(value)]));
+
+  return {
+    byProject: toMinuteRecord(projectSeconds),
+    byTag: toMinuteRecord(tagSeconds),
+    withoutProject: toMinutes(withoutProjectSeconds),
+  };
+}
+
+// Tags are stored lowercase without a leading '#'; empty when nothing is left
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#+/, '').replace(/\s+/g, '-').toLowerCase();
+}
+
 interface AppState {
   // UI State
   selectedTab: Tab;
@@ -111,18 +451,30 @@ interface AppState {
 
   // Timer State
   timer: TimerState;
+  setTimerState: (timer: TimerState) => void;
   setTimerMode: (mode: TimerMode) => void;
   setTimerSeconds: (seconds: number) => void;
   setTimerRunning: (running: boolean) => void;
   setTargetEndTime: (time: number | null) => void;
   incrementPomodoros: () => void;
   resetTimer: () => void;
+  // In-flight block and its open timer_sessions row, kept across restarts
+  savedTimer: SavedTimer | null;
+  activeSessionId: string | null;
+  // Block that was running when the app last quit, awaiting resume/record/discard
+  interruptedTimer: SavedTimer | null;
+  setSavedTimer: (savedTimer: SavedTimer | null) => void;
+  setActiveSessionId: (sessionId: string | null) => void;
+  setInterruptedTimer: (interruptedTimer: SavedTimer | null) => void;
+  // Time away from the computer awaiting a keep/discard (or resume) answer
+  awayPeriod: AwayPeriod | null;
+  setAwayPeriod: (awayPeriod: AwayPeriod | null) => void;
 
   // Tasks State
   tasks: Task[];
   currentTaskId: string | null;
   showPomodoroPopup: boolean;
-  addTask: (title: string) => void;
+  addTask: (title: string, details?: NewTaskDetails) => string; // returns the new task's id
   toggleTask: (id: string) => void;
   deleteTask: (id: string) => void;
   setCurrentTaskId: (id: string | null) => void;
@@ -136,6 +488,24 @@ interface AppState {
   renameSubtask: (taskId: string, subtaskId: string, title: string) => void;
   // Task rename
   renameTask: (taskId: string, title: string) => void;
+  // Pomodoro estimates (null clears one)
+  setTaskEstimate: (taskId: string, pomodoros: number | null) => void;
+  setSubtaskEstimate: (taskId: string, subtaskId: string, pomodoros: number | null) => void;
+  // Dates (YYYY-MM-DD, null clears one)
+  setTaskDueDate: (taskId: string, date: string | null) => void;
+  setTaskScheduledFor: (taskId: string, date: string | null) => void;
+  // Priority and manual order (the order of the tasks and subtasks arrays)
+  setTaskPriority: (taskId: string, priority: TaskPriority | null) => void;
+  setTaskRecurrence: (taskId: string, recurrence: RecurrenceRule | null) => void;
+  moveTask: (taskId: string, targetTaskId: string) => void;
+  moveSubtask: (taskId: string, subtaskId: string, targetSubtaskId: string) => void;
+  // Projects and tags
+  projects: Project[];
+  addProject: (name: string, color?: string) => string; // returns the new project's id
+  updateProject: (id: string, updates: Partial<Omit<Project, 'id'>>) => void;
+  deleteProject: (id: string) => void; // its tasks are kept, without a project
+  setTaskProject: (taskId: string, projectId: string | null) => void;
+  setTaskTags: (taskId: string, tags: string[]) => void;
 
   // Notes State
   notes: string;
@@ -159,7 +529,9 @@ interface AppState {
 
   // Stats State
   statsByDate: Record<string, DayActivity>;
-  recordPomodoro: () => void;
+  // focusSeconds is the time actually focused in the block
+  recordPomodoro: (focusSeconds: number, taskId?: string | null) => void;
+  recordFlowSession: (focusSeconds: number, taskId?: string | null) => void;
   recordTaskCompletion: () => void;
   recordNoteActivity: () => void;
 }
@@ -176,17 +548,18 @@ export const useAppStore = create<AppState>()(
       // Timer State
       timer: {
         mode: 'pomodoro',
-        secondsLeft: TIMER_DURATIONS.pomodoro,
+        secondsLeft: getModeDuration('pomodoro'),
         isRunning: false,
         completedPomodoros: 0,
         targetEndTime: null,
       },
+      setTimerState: (timer) => set({ timer }),
       setTimerMode: (mode) =>
         set((state) => ({
           timer: {
             ...state.timer,
             mode,
-            secondsLeft: TIMER_DURATIONS[mode],
+            secondsLeft: getModeDuration(mode),
             isRunning: false,
             targetEndTime: null,
           },
@@ -214,29 +587,54 @@ export const useAppStore = create<AppState>()(
         set((state) => ({
           timer: {
             ...state.timer,
-            secondsLeft: TIMER_DURATIONS[state.timer.mode],
+            secondsLeft: getModeDuration(state.timer.mode),
             isRunning: false,
             targetEndTime: null,
           },
         })),
+      savedTimer: null,
+      activeSessionId: null,
+      interruptedTimer: null,
+      setSavedTimer: (savedTimer) => set({ savedTimer }),
+      setActiveSessionId: (sessionId) => set({ activeSessionId: sessionId }),
+      setInterruptedTimer: (interruptedTimer) => set({ interruptedTimer }),
+      awayPeriod: null,
+      setAwayPeriod: (awayPeriod) => set({ awayPeriod }),
 
       // Tasks State
       tasks: [],
       currentTaskId: null,
       showPomodoroPopup: false,
-      addTask: (title) =>
-        set((state) => ({
-          tasks: [
-            ...state.tasks,
-            {
-              id: crypto.randomUUID(),
-              title,
-              isCompleted: false,
-              createdAt: new Date().toISOString().split('T')[0],
-              spentPomodoros: 0,
-            },
-          ],
-        })),
+      addTask: (title, details = {}) => {
+        const id = crypto.randomUUID();
+        const today = getTodayDate();
+        const task: Task = {
+          id,
+          title,
+          isCompleted: false,
+          createdAt: today,
+          spentPomodoros: 0,
+        };
+        if (details.estimatedPomodoros) task.estimatedPomodoros = details.estimatedPomodoros;
+        if (details.dueDate) task.dueDate = details.dueDate;
+        if (details.scheduledFor) task.scheduledFor = details.scheduledFor;
+        if (details.priority) task.priority = details.priority;
+        const recurrence = sanitizeRecurrence(details.recurrence);
+        if (recurrence) task.recurrence = recurrence;
+        if (details.projectId) task.projectId = details.projectId;
+        if (details.tags?.length) task.tags = details.tags;
+        if (details.subtasks?.length) {
+          task.subtasks = details.subtasks.map((subtaskTitle) => ({
+            id: crypto.randomUUID(),
+            title: subtaskTitle,
+            isCompleted: false,
+            createdAt: today,
+          }));
+        }
+
+        set((state) => ({ tasks: [...state.tasks, task] }));
+        return id;
+      },
       toggleTask: (id) =>
         set((state) => {
           const today = getTodayDate();
@@ -246,12 +644,7 @@ export const useAppStore = create<AppState>()(
           // Update stats if completing a task
           let newStatsByDate = state.statsByDate;
           if (isCompletingTask) {
-            const existing = state.statsByDate[today] || {
-              date: today,
-              pomodoros: 0,
-              completedTasks: 0,
-              hasNote: false,
-            };
+            const existing = state.statsByDate[today] || createDayActivity(today);
             newStatsByDate = {
               ...state.statsByDate,
               [today]: {
@@ -261,21 +654,27 @@ export const useAppStore = create<AppState>()(
             };
           }
 
+          const tasks = state.tasks.map((t) =>
+            t.id === id
+              ? {
+                  ...t,
+                  isCompleted: !t.isCompleted,
+                  completedAt: !t.isCompleted ? today : undefined,
+                }
+              : t
+          );
+
+          const nextTasks = isCompletingTask ? continueRecurrence(tasks, id, today) : reopenRecurrence(tasks, id);
+          // Clear currentTaskId if we're completing the current task; focus on a
+          // removed occurrence moves back to the reopened task
+          let currentTaskId = state.currentTaskId === id && isCompletingTask ? null : state.currentTaskId;
+          if (currentTaskId && !nextTasks.some((t) => t.id === currentTaskId)) {
+            currentTaskId = id;
+          }
+
           return {
-            tasks: state.tasks.map((t) =>
-              t.id === id
-                ? {
-                    ...t,
-                    isCompleted: !t.isCompleted,
-                    completedAt: !t.isCompleted ? today : undefined,
-                  }
-                : t
-            ),
-            // Clear currentTaskId if we're completing the current task
-            currentTaskId:
-              state.currentTaskId === id && !task?.isCompleted
-                ? null
-                : state.currentTaskId,
+            tasks: nextTasks,
+            currentTaskId,
             statsByDate: newStatsByDate,
           };
         }),
@@ -302,12 +701,7 @@ export const useAppStore = create<AppState>()(
           // Update stats if completing a task
           let newStatsByDate = state.statsByDate;
           if (isCompletingTask) {
-            const existing = state.statsByDate[today] || {
-              date: today,
-              pomodoros: 0,
-              completedTasks: 0,
-              hasNote: false,
-            };
+            const existing = state.statsByDate[today] || createDayActivity(today);
             newStatsByDate = {
               ...state.statsByDate,
               [today]: {
@@ -317,12 +711,14 @@ export const useAppStore = create<AppState>()(
             };
           }
 
+          const tasks = state.tasks.map((t) =>
+            t.id === id
+              ? { ...t, isCompleted: true, completedAt: today }
+              : t
+          );
+
           return {
-            tasks: state.tasks.map((t) =>
-              t.id === id
-                ? { ...t, isCompleted: true, completedAt: today }
-                : t
-            ),
+            tasks: isCompletingTask ? continueRecurrence(tasks, id, today) : tasks,
             currentTaskId: state.currentTaskId === id ? null : state.currentTaskId,
             statsByDate: newStatsByDate,
           };
@@ -387,12 +783,7 @@ export const useAppStore = create<AppState>()(
               const allCompleted = subtasks.length > 0 && subtasks.every((s) => s.isCompleted);
               if (allCompleted) {
                 // Update stats for task completion
-                const existing = state.statsByDate[today] || {
-                  date: today,
-                  pomodoros: 0,
-                  completedTasks: 0,
-                  hasNote: false,
-                };
+                const existing = state.statsByDate[today] || createDayActivity(today);
                 const newStatsByDate = {
                   ...state.statsByDate,
                   [today]: {
@@ -407,6 +798,7 @@ export const useAppStore = create<AppState>()(
                     ? { ...t, isCompleted: true, completedAt: today }
                     : t
                 );
+                newTasks = continueRecurrence(newTasks, taskId, today);
 
                 return {
                   tasks: newTasks,
@@ -455,6 +847,115 @@ export const useAppStore = create<AppState>()(
           ),
         })),
 
+      setTaskEstimate: (taskId, pomodoros) =>
+        set((state) => ({
+          tasks: state.tasks.map((task) =>
+            task.id === taskId
+              ? { ...task, estimatedPomodoros: pomodoros || undefined }
+              : task
+          ),
+        })),
+
+      setTaskDueDate: (taskId, date) =>
+        set((state) => ({
+          tasks: state.tasks.map((task) =>
+            task.id === taskId ? { ...task, dueDate: date || undefined } : task
+          ),
+        })),
+
+      setTaskScheduledFor: (taskId, date) =>
+        set((state) => ({
+          tasks: state.tasks.map((task) =>
+            task.id === taskId ? { ...task, scheduledFor: date || undefined } : task
+          ),
+        })),
+
+      setTaskPriority: (taskId, priority) =>
+        set((state) => ({
+          tasks: state.tasks.map((task) =>
+            task.id === taskId ? { ...task, priority: priority ?? undefined } : task
+          ),
+        })),
+
+      setTaskRecurrence: (taskId, recurrence) =>
+        set((state) => ({
+          tasks: state.tasks.map((task) =>
+            task.id === taskId ? { ...task, recurrence: sanitizeRecurrence(recurrence) ?? undefined } : task
+          ),
+        })),
+
+      moveTask: (taskId, targetTaskId) =>
+        set((state) => ({ tasks: moveItem(state.tasks, taskId, targetTaskId) })),
+
+      moveSubtask: (taskId, subtaskId, targetSubtaskId) =>
+        set((state) => ({
+          tasks: state.tasks.map((task) =>
+            task.id === taskId
+              ? { ...task, subtasks: moveItem(task.subtasks ?? [], subtaskId, targetSubtaskId) }
+              : task
+          ),
+        })),
+
+      projects: [],
+      addProject: (name, color) => {
+        const id = crypto.randomUUID();
+        set((state) => ({
+          projects: [
+            ...state.projects,
+            { id, name, color: color ?? PROJECT_COLORS[state.projects.length % PROJECT_COLORS.length] },
+          ],
+        }));
+        return id;
+      },
+      updateProject: (id, updates) =>
+        set((state) => ({
+          projects: state.projects.map((project) =>
+            project.id === id ? { ...project, ...updates } : project
+          ),
+        })),
+      deleteProject: (id) =>
+        set((state) => ({
+          projects: state.projects.filter((project) => project.id !== id),
+          tasks: state.tasks.map((task) =>
+            task.projectId === id ? { ...task, projectId: undefined } : task
+          ),
+        })),
+
+      setTaskProject: (taskId, projectId) =>
+        set((state) => ({
+          tasks: state.tasks.map((task) =>
+            task.id === taskId ? { ...task, projectId: projectId || undefined } : task
+          ),
+        })),
+
+      setTaskTags: (taskId, tags) =>
+        set((state) => {
+          const normalized = [...new Set(tags.map(normalizeTag).filter(Boolean))];
+          return {
+            tasks: state.tasks.map((task) =>
+              task.id === taskId
+                ? { ...task, tags: normalized.length > 0 ? normalized : undefined }
+                : task
+            ),
+          };
+        }),
+
+      setSubtaskEstimate: (taskId, subtaskId, pomodoros) =>
+        set((state) => ({
+          tasks: state.tasks.map((task) =>
+            task.id === taskId
+              ? {
+                  ...task,
+                  subtasks: (task.subtasks ?? []).map((subtask) =>
+                    subtask.id === subtaskId
+                      ? { ...subtask, estimatedPomodoros: pomodoros || undefined }
+                      : subtask
+                  ),
+                }
+              : task
+          ),
+        })),
+
       // Notes State
       notes: '',
       setNotes: (notes) => set({ notes }),
@@ -477,34 +978,19 @@ export const useAppStore = create<AppState>()(
 
       // Stats State
       statsByDate: {},
-      recordPomodoro: () =>
+      recordPomodoro: (focusSeconds, taskId = null) =>
+        set((state) => ({
+          statsByDate: addFocusSession(state.statsByDate, 'pomodoro', focusSeconds, taskId),
+        })),
+      recordFlowSession: (focusSeconds, taskId = null) =>
         set((state) => {
-          const today = getTodayDate();
-          const existing = state.statsByDate[today] || {
-            date: today,
-            pomodoros: 0,
-            completedTasks: 0,
-            hasNote: false,
-          };
-          return {
-            statsByDate: {
-              ...state.statsByDate,
-              [today]: {
-                ...existing,
-                pomodoros: existing.pomodoros + 1,
-              },
-            },
-          };
+          if (focusSeconds <= 0) return {};
+          return { statsByDate: addFocusSession(state.statsByDate, 'flow', focusSeconds, taskId) };
         }),
       recordTaskCompletion: () =>
         set((state) => {
           const today = getTodayDate();
-          const existing = state.statsByDate[today] || {
-            date: today,
-            pomodoros: 0,
-            completedTasks: 0,
-            hasNote: false,
-          };
+          const existing = state.statsByDate[today] || createDayActivity(today);
           return {
             statsByDate: {
               ...state.statsByDate,
@@ -518,12 +1004,7 @@ export const useAppStore = create<AppState>()(
       recordNoteActivity: () =>
         set((state) => {
           const today = getTodayDate();
-          const existing = state.statsByDate[today] || {
-            date: today,
-            pomodoros: 0,
-            completedTasks: 0,
-            hasNote: false,
-          };
+          const existing = state.statsByDate[today] || createDayActivity(today);
           return {
             statsByDate: {
               ...state.statsByDate,
@@ -537,20 +1018,33 @@ export const useAppStore = create<AppState>()(
     }),
     {
       name: 'focusflow-storage',
+      version: 1,
+      migrate: (persistedState, version) => {
+        const persisted = persistedState as Partial<AppState>;
+        // v1: statsByDate records real focus seconds and a per-session log
+        if (version < 1 && persisted.statsByDate) {
+          persisted.statsByDate = migrateStatsByDate(persisted.statsByDate);
+        }
+        return persisted as AppState;
+      },
       partialize: (state) => ({
         tasks: state.tasks,
         currentTaskId: state.currentTaskId,
+        projects: state.projects,
         notes: state.notes,
         volume: state.volume,
         currentTrackIndex: state.currentTrackIndex,
         statsByDate: state.statsByDate,
+        savedTimer: state.savedTimer,
+        activeSessionId: state.activeSessionId,
       }),
       merge: (persistedState, currentState) => {
         const persisted = persistedState as Partial<AppState>;
         return {
           ...currentState,
           ...persisted,
-          // Always use fresh timer state (don't persist timer)
+          // The live timer always starts fresh; a block that was running comes
+          // back through savedTimer (see timerRestore)
           timer: currentState.timer,
         };
       },
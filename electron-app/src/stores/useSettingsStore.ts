@@ -1,21 +1,39 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import {
+  TimerMode,
+  SessionPhase,
+  AwayBehavior,
+  TaskSort,
+  TIMER_DURATIONS,
+  BREATHING_DURATION_SECONDS,
+  COOLDOWN_DURATION_SECONDS,
+} from '../types';
 
 // Types
 export type BackgroundSound = 'none' | 'rain' | 'forest' | 'cafe' | 'whitenoise' | 'lofi';
 export type Theme = 'dark' | 'soft-dark';
 export type TimerSize = 'normal' | 'large';
 export type FocusDuration = 25 | 45 | 60 | 'custom';
+export type ChimeSound = 'bell' | 'marimba' | 'ping' | 'rise' | 'fall';
 
 export interface Settings {
   // Focus Session
   focusDuration: FocusDuration;
   customFocusDuration: number; // in minutes, used when focusDuration is 'custom'
+  shortBreakDuration: number; // in minutes
+  longBreakDuration: number; // in minutes
+  longBreakInterval: number; // long break after every N pomodoros
+  flowSoftCap: number; // in minutes, nudge after this long in flow mode (0 = no cap)
+  autoStartBreaks: boolean;
+  autoStartPomodoros: boolean;
   warmupEnabled: boolean;
   warmupDuration: number; // in seconds
   breathingEnabled: boolean;
   cooldownEnabled: boolean;
   mindLockEnabled: boolean;
+  awayBehavior: AwayBehavior; // what to do with time away from the computer during focus
+  awayThreshold: number; // in minutes without input before you count as away
 
   // Sound & Environment
   backgroundSound: BackgroundSound;
@@ -25,6 +43,10 @@ export interface Settings {
   // Notifications
   sessionStartSound: boolean;
   sessionEndSound: boolean;
+  startChime: ChimeSound;
+  endChime: ChimeSound;
+  breakOverChime: ChimeSound;
+  chimeVolume: number; // 0-1
   gentleReminders: boolean;
   reminderInterval: number; // in minutes
 
@@ -32,22 +54,35 @@ export interface Settings {
   autoAssignTask: boolean;
   autoCompleteParentTask: boolean;
   showTaskProgressInTimer: boolean;
+  taskSort: TaskSort;
 
   // Appearance
   theme: Theme;
   timerSize: TimerSize;
   alwaysOnTop: boolean;
+
+  // Integrations
+  controlApiEnabled: boolean; // local REST control server for scripts and editors
+  controlApiPort: number;
 }
 
 interface SettingsState extends Settings {
   // Actions
   setFocusDuration: (duration: FocusDuration) => void;
   setCustomFocusDuration: (minutes: number) => void;
+  setShortBreakDuration: (minutes: number) => void;
+  setLongBreakDuration: (minutes: number) => void;
+  setLongBreakInterval: (pomodoros: number) => void;
+  setFlowSoftCap: (minutes: number) => void;
+  setAutoStartBreaks: (enabled: boolean) => void;
+  setAutoStartPomodoros: (enabled: boolean) => void;
   setWarmupEnabled: (enabled: boolean) => void;
   setWarmupDuration: (seconds: number) => void;
   setBreathingEnabled: (enabled: boolean) => void;
   setCooldownEnabled: (enabled: boolean) => void;
   setMindLockEnabled: (enabled: boolean) => void;
+  setAwayBehavior: (behavior: AwayBehavior) => void;
+  setAwayThreshold: (minutes: number) => void;
 
   setBackgroundSound: (sound: BackgroundSound) => void;
   setSoundVolume: (volume: number) => void;
@@ -55,17 +90,25 @@ interface SettingsState extends Settings {
 
   setSessionStartSound: (enabled: boolean) => void;
   setSessionEndSound: (enabled: boolean) => void;
+  setStartChime: (chime: ChimeSound) => void;
+  setEndChime: (chime: ChimeSound) => void;
+  setBreakOverChime: (chime: ChimeSound) => void;
+  setChimeVolume: (volume: number) => void;
   setGentleReminders: (enabled: boolean) => void;
   setReminderInterval: (minutes: number) => void;
 
   setAutoAssignTask: (enabled: boolean) => void;
   setAutoCompleteParentTask: (enabled: boolean) => void;
   setShowTaskProgressInTimer: (enabled: boolean) => void;
+  setTaskSort: (sort: TaskSort) => void;
 
   setTheme: (theme: Theme) => void;
   setTimerSize: (size: TimerSize) => void;
   setAlwaysOnTop: (enabled: boolean) => void;
 
+  setControlApiEnabled: (enabled: boolean) => void;
+  setControlApiPort: (port: number) => void;
+
   resetToDefaults: () => void;
 }
 
@@ -73,11 +116,19 @@ const defaultSettings: Settings = {
   // Focus Session
   focusDuration: 25,
   customFocusDuration: 30,
+  shortBreakDuration: 5,
+  longBreakDuration: 15,
+  longBreakInterval: 4,
+  flowSoftCap: 0,
+  autoStartBreaks: false,
+  autoStartPomodoros: false,
   warmupEnabled: false,
   warmupDuration: 60,
   breathingEnabled: false,
   cooldownEnabled: false,
   mindLockEnabled: false,
+  awayBehavior: 'ask',
+  awayThreshold: 5,
 
   // Sound & Environment
   backgroundSound: 'none',
@@ -87,6 +138,10 @@ const defaultSettings: Settings = {
   // Notifications
   sessionStartSound: true,
   sessionEndSound: true,
+  startChime: 'rise',
+  endChime: 'bell',
+  breakOverChime: 'marimba',
+  chimeVolume: 0.6,
   gentleReminders: false,
   reminderInterval: 5,
 
@@ -94,11 +149,16 @@ const defaultSettings: Settings = {
   autoAssignTask: false,
   autoCompleteParentTask: false,
   showTaskProgressInTimer: true,
+  taskSort: 'manual',
 
   // Appearance
   theme: 'dark',
   timerSize: 'normal',
   alwaysOnTop: true,
+
+  // Integrations
+  controlApiEnabled: false,
+  controlApiPort: 51730,
 };
 
 export const useSettingsStore = create<SettingsState>()(
@@ -109,11 +169,19 @@ export const useSettingsStore = create<SettingsState>()(
       // Focus Session actions
       setFocusDuration: (duration) => set({ focusDuration: duration }),
       setCustomFocusDuration: (minutes) => set({ customFocusDuration: minutes }),
+      setShortBreakDuration: (minutes) => set({ shortBreakDuration: minutes }),
+      setLongBreakDuration: (minutes) => set({ longBreakDuration: minutes }),
+      setLongBreakInterval: (pomodoros) => set({ longBreakInterval: pomodoros }),
+      setFlowSoftCap: (minutes) => set({ flowSoftCap: minutes }),
+      setAutoStartBreaks: (enabled) => set({ autoStartBreaks: enabled }),
+      setAutoStartPomodoros: (enabled) => set({ autoStartPomodoros: enabled }),
       setWarmupEnabled: (enabled) => set({ warmupEnabled: enabled }),
       setWarmupDuration: (seconds) => set({ warmupDuration: seconds }),
       setBreathingEnabled: (enabled) => set({ breathingEnabled: enabled }),
       setCooldownEnabled: (enabled) => set({ cooldownEnabled: enabled }),
       setMindLockEnabled: (enabled) => set({ mindLockEnabled: enabled }),
+      setAwayBehavior: (behavior) => set({ awayBehavior: behavior }),
+      setAwayThreshold: (minutes) => set({ awayThreshold: minutes }),
 
       // Sound & Environment actions
       setBackgroundSound: (sound) => set({ backgroundSound: sound }),
@@ -123,6 +191,10 @@ export const useSettingsStore = create<SettingsState>()(
       // Notifications actions
       setSessionStartSound: (enabled) => set({ sessionStartSound: enabled }),
       setSessionEndSound: (enabled) => set({ sessionEndSound: enabled }),
+      setStartChime: (chime) => set({ startChime: chime }),
+      setEndChime: (chime) => set({ endChime: chime }),
+      setBreakOverChime: (chime) => set({ breakOverChime: chime }),
+      setChimeVolume: (volume) => set({ chimeVolume: volume }),
       setGentleReminders: (enabled) => set({ gentleReminders: enabled }),
       setReminderInterval: (minutes) => set({ reminderInterval: minutes }),
 
@@ -130,12 +202,17 @@ export const useSettingsStore = create<SettingsState>()(
       setAutoAssignTask: (enabled) => set({ autoAssignTask: enabled }),
       setAutoCompleteParentTask: (enabled) => set({ autoCompleteParentTask: enabled }),
       setShowTaskProgressInTimer: (enabled) => set({ showTaskProgressInTimer: enabled }),
+      setTaskSort: (sort) => set({ taskSort: sort }),
 
       // Appearance actions
       setTheme: (theme) => set({ theme: theme }),
       setTimerSize: (size) => set({ timerSize: size }),
       setAlwaysOnTop: (enabled) => set({ alwaysOnTop: enabled }),
 
+      // Integrations actions
+      setControlApiEnabled: (enabled) => set({ controlApiEnabled: enabled }),
+      setControlApiPort: (port) => set({ controlApiPort: port }),
+
       resetToDefaults: () => set(defaultSettings),
     }),
     {
@@ -151,3 +228,33 @@ export function getFocusDurationSeconds(settings: Settings): number {
   }
   return settings.focusDuration * 60;
 }
+
+// Helper to get every timer mode's duration in seconds
+// A cleared (zero) break length falls back to the default
+export function getTimerDurations(settings: Settings): Record<TimerMode, number> {
+  return {
+    pomodoro: getFocusDurationSeconds(settings),
+    shortBreak: settings.shortBreakDuration ? settings.shortBreakDuration * 60 : TIMER_DURATIONS.shortBreak,
+    longBreak: settings.longBreakDuration ? settings.longBreakDuration * 60 : TIMER_DURATIONS.longBreak,
+    flow: TIMER_DURATIONS.flow,
+  };
+}
+
+// Helper to get the long-break cadence (at least every pomodoro)
+export function getLongBreakInterval(settings: Settings): number {
+  return Math.max(1, Math.round(settings.longBreakInterval || defaultSettings.longBreakInterval));
+}
+
+// Helper to get each session phase's length in seconds (0 = phase disabled)
+export function getPhaseDurations(settings: Settings): Record<SessionPhase, number> {
+  return {
+    warmup: settings.warmupEnabled ? Math.max(0, settings.warmupDuration) : 0,
+    breathing: settings.breathingEnabled ? BREATHING_DURATION_SECONDS : 0,
+    cooldown: settings.cooldownEnabled ? COOLDOWN_DURATION_SECONDS : 0,
+  };
+}
+
+// Helper to get how long without input counts as away, in seconds (at least a minute)
+export function getAwayThresholdSeconds(settings: Settings): number {
+  return Math.max(1, Math.round(settings.awayThreshold || defaultSettings.awayThreshold)) * 60;
+}
@@ -1,3 +1,93 @@
+import type { TimerMode, TimerState, AwayPeriod } from './index';
+import type { TimerCompletion, TimerConfig, TimerStartOptions } from '../../electron/timerEngine';
+
+// Timer commands and config are defined with the engine the main process runs
+export type { TimerConfig, TimerStartOptions } from '../../electron/timerEngine';
+
+export interface StoreSyncMessage {
+  store: 'app' | 'settings';
+  patch: Record<string, unknown>;
+  updatedAt: number; // ms timestamp of the change in the sending window
+  origin: number; // id of the sending window, stamped by main
+}
+
+export interface StoreSnapshot {
+  windowId: number;
+  messages: StoreSyncMessage[];
+}
+
+export type ShortcutAction =
+  | 'toggleTimer'
+  | 'skip'
+  | 'reset'
+  | 'toggleMusic'
+  | 'showMainWindow'
+  | 'quickAddTask'
+  | 'toggleMiniWidget'
+  | 'moveToActiveDisplay';
+
+// invalid: not an accelerator; duplicate: bound to another action too;
+// unavailable: taken by the system or another app
+export type ShortcutError = 'invalid' | 'duplicate' | 'unavailable';
+
+export interface ShortcutStatus {
+  action: ShortcutAction;
+  accelerator: string; // Electron accelerator, '' when unbound
+  error: ShortcutError | null;
+}
+
+export interface ShortcutUpdateResult {
+  ok: boolean;
+  error: ShortcutError | null;
+  conflictsWith: ShortcutAction | null; // set when refused as a duplicate
+  statuses: ShortcutStatus[];
+}
+
+// ring: progress ring only; timerTask / timerMusic: timer with the current
+// task or the music player; pill: one compact line
+export type MiniWidgetLayout = 'ring' | 'timerTask' | 'timerMusic' | 'pill';
+
+// A REST request to the local control API, answered by the main window
+export interface ControlApiRequest {
+  id: number;
+  method: string;
+  path: string; // without the query or a trailing slash
+  query: Record<string, string>;
+  body: unknown; // parsed JSON, null when empty
+}
+
+export interface ControlApiResponse {
+  status: number; // HTTP status
+  body: unknown;
+}
+
+export interface ControlApiStatus {
+  running: boolean;
+  port: number;
+  token: string;
+  error: string | null; // why the server isn't running
+}
+
+export interface StartupOptions {
+  launchAtLogin: boolean;
+  startMinimized: boolean; // stay in the tray, the main window loads hidden
+  openMiniWidgetOnLaunch: boolean;
+}
+
+export interface StartupOptionsStatus extends StartupOptions {
+  launchAtLoginSupported: boolean; // macOS and Windows
+}
+
+export interface TrayTask {
+  id: string;
+  title: string;
+}
+
+export interface TrayTasks {
+  currentTask: TrayTask | null;
+  recentTasks: TrayTask[]; // offered for quick selection, most recent first
+}
+
 export interface ElectronAPI {
   toggleCollapse: () => Promise<boolean>;
   getCollapsedState: () => Promise<boolean>;
@@ -5,10 +95,56 @@ export interface ElectronAPI {
   minimizeWindow: () => Promise<void>;
   closeMiniWidget: () => Promise<void>;
   toggleMiniWidget: () => Promise<void>;
+  miniWidgetGetLayout: () => Promise<MiniWidgetLayout>;
+  miniWidgetSetLayout: (layout: MiniWidgetLayout) => Promise<MiniWidgetLayout>;
+  miniWidgetShowMenu: () => Promise<void>;
+  onMiniWidgetLayout: (callback: (layout: MiniWidgetLayout) => void) => () => void;
+  closeQuickCapture: () => Promise<void>;
   setAlwaysOnTop: (enabled: boolean) => Promise<boolean>;
   // Audio helpers for dev/prod path resolution
   getAudioPath: (fileName: string) => Promise<string>;
   isPackaged: () => Promise<boolean>;
+  // Timer service (countdown runs in the main process)
+  timerGetState: () => Promise<TimerState>;
+  timerStart: (options?: TimerStartOptions) => Promise<TimerState>;
+  timerPause: () => Promise<TimerState>;
+  timerReset: () => Promise<TimerState>;
+  timerSkip: () => Promise<TimerState>;
+  timerSetMode: (mode: TimerMode, durationSeconds?: number) => Promise<TimerState>;
+  timerCancelAutoStart: () => Promise<TimerState>;
+  timerSkipPhase: () => Promise<TimerState>;
+  timerConfigure: (config: TimerConfig) => Promise<TimerState>;
+  timerDiscardTime: (seconds: number) => Promise<TimerState>;
+  // Finished blocks not yet recorded; only the main window gets them
+  timerTakeCompletions: () => Promise<TimerCompletion[]>;
+  onTimerState: (callback: (state: TimerState) => void) => () => void;
+  onTimerComplete: (callback: (mode: TimerMode, elapsedSeconds: number) => void) => () => void;
+  onTimerAway: (callback: (period: AwayPeriod) => void) => () => void;
+  // Cross-window store sync
+  syncStore: (message: Omit<StoreSyncMessage, 'origin'>) => Promise<void>;
+  getStoreSnapshot: () => Promise<StoreSnapshot>;
+  onStoreSync: (callback: (message: StoreSyncMessage) => void) => () => void;
+  // Deep links (capyfocus://)
+  deepLinkReady: () => Promise<string[]>; // links that arrived before this window listened
+  onDeepLink: (callback: (url: string) => void) => () => void;
+  // Global shortcuts
+  shortcutsGet: () => Promise<ShortcutStatus[]>;
+  shortcutsSet: (action: ShortcutAction, accelerator: string) => Promise<ShortcutUpdateResult>;
+  shortcutsReset: () => Promise<ShortcutStatus[]>;
+  shortcutsSuspend: (suspended: boolean) => Promise<ShortcutStatus[]>;
+  onShortcutAction: (callback: (action: ShortcutAction) => void) => () => void;
+  // Local control API
+  controlApiConfigure: (enabled: boolean, port: number) => Promise<ControlApiStatus>;
+  controlApiGetStatus: () => Promise<ControlApiStatus>;
+  controlApiRegenerateToken: () => Promise<ControlApiStatus>;
+  controlApiRespond: (id: number, response: ControlApiResponse) => Promise<void>;
+  onControlApiRequest: (callback: (request: ControlApiRequest) => void) => () => void;
+  onControlApiStatus: (callback: (status: ControlApiStatus) => void) => () => void;
+  startupOptionsGet: () => Promise<StartupOptionsStatus>;
+  startupOptionsSet: (changes: Partial<StartupOptions>) => Promise<StartupOptionsStatus>;
+  // Tray menu
+  updateTrayTasks: (tasks: TrayTasks) => Promise<void>;
+  onTraySelectTask: (callback: (taskId: string) => void) => () => void;
 }
 
 declare global {
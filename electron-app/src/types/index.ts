@@ -1,3 +1,5 @@
+import type { TimerMode, SessionPhase, TimerState as EngineTimerState } from '../../electron/timerEngine';
+
 export type Tab = 'timer' | 'tasks' | 'notes' | 'music' | 'account' | 'calendar' | 'settings' | 'coach';
 
 export interface Subtask {
@@ -5,6 +7,7 @@ export interface Subtask {
   title: string;
   isCompleted: boolean;
   createdAt: string; // YYYY-MM-DD format
+  estimatedPomodoros?: number; // planned pomodoros, when estimated
 }
 
 export interface Task {
@@ -14,17 +17,74 @@ export interface Task {
   createdAt: string; // YYYY-MM-DD format
   completedAt?: string; // YYYY-MM-DD format, only set when finished
   spentPomodoros: number;
+  estimatedPomodoros?: number; // planned pomodoros, when estimated
+  dueDate?: string; // YYYY-MM-DD format, when it has to be done by
+  scheduledFor?: string; // YYYY-MM-DD format, when you plan to work on it
+  priority?: TaskPriority; // 1 is most urgent; no priority sorts as P4
+  recurrence?: RecurrenceRule; // completing a repeating task adds its next occurrence
+  nextOccurrenceId?: string; // on a completed repeating instance: the occurrence it added
+  projectId?: string; // Project the task belongs to
+  tags?: string[]; // Free-form labels, lowercase without the '#'
   subtasks?: Subtask[]; // Optional array of subtasks
 }
 
-export type TimerMode = 'pomodoro' | 'shortBreak' | 'longBreak';
+export interface Project {
+  id: string;
+  name: string;
+  color: string; // hex colour, e.g. "#f97316"
+}
+
+export const PROJECT_COLORS = ['#f97316', '#eab308', '#22c55e', '#06b6d4', '#3b82f6', '#a855f7', '#ec4899', '#f43f5e'];
+
+// Where an open task sits in the task list, by its dates
+export type TaskSection = 'overdue' | 'today' | 'upcoming' | 'someday';
+
+// P1 (most urgent) to P4
+export type TaskPriority = 1 | 2 | 3 | 4;
+
+export const TASK_PRIORITIES: TaskPriority[] = [1, 2, 3, 4];
+
+// How a task repeats. Weekly days are 0 (Sunday) to 6; monthly repeats on the
+// day of month of the task's date, or the last day in shorter months.
+export type RecurrenceRule =
+  | { type: 'daily' }
+  | { type: 'weekdays' }
+  | { type: 'weekly'; days: number[] }
+  | { type: 'interval'; days: number }
+  | { type: 'monthly' };
+
+// How the task list is ordered; 'manual' is the drag-and-drop order
+export type TaskSort = 'manual' | 'priority' | 'dueDate' | 'created';
+
+// Optional details for a new task (e.g. parsed from quick capture)
+export interface NewTaskDetails {
+  subtasks?: string[];
+  estimatedPomodoros?: number;
+  dueDate?: string; // YYYY-MM-DD format
+  scheduledFor?: string; // YYYY-MM-DD format
+  priority?: TaskPriority;
+  recurrence?: RecurrenceRule;
+  projectId?: string;
+  tags?: string[];
+}
+
+// The timer types are shared with the main process, which runs the timer engine
+export type { TimerMode, SessionPhase, AwayBehavior, AwayPeriod } from '../../electron/timerEngine';
+export { AUTO_START_GRACE_SECONDS } from '../../electron/timerEngine';
+
+// The timer as the renderer holds it: state saved by older versions may lack
+// the fields added since the first release
+export type TimerState = Pick<EngineTimerState, 'mode' | 'secondsLeft' | 'isRunning' | 'completedPomodoros' | 'targetEndTime'>
+  & Partial<EngineTimerState>;
 
-export interface TimerState {
+// A running block, saved so it can be picked up again after a restart
+export interface SavedTimer {
   mode: TimerMode;
-  secondsLeft: number;
-  isRunning: boolean;
-  completedPomodoros: number;
-  targetEndTime: number | null;
+  targetEndTime: number | null; // null in flow mode
+  runStartedAt: number; // now minus the time already run
+  sessionId: string | null; // timer_sessions row logged for the block
+  taskId: string | null;
+  savedAt: number; // last time the block was seen running
 }
 
 export interface MusicTrack {
@@ -44,18 +104,57 @@ export const TIMER_DURATIONS: Record<TimerMode, number> = {
   pomodoro: 25 * 60,
   shortBreak: 5 * 60,
   longBreak: 15 * 60,
+  flow: 0, // counts up
 };
 
 export const TIMER_MODE_LABELS: Record<TimerMode, string> = {
   pomodoro: 'Focus',
   shortBreak: 'Short',
   longBreak: 'Long',
+  flow: 'Flow',
+};
+
+export const SESSION_PHASE_LABELS: Record<SessionPhase, string> = {
+  warmup: 'Warm-up',
+  breathing: 'Breathe',
+  cooldown: 'Cool-down',
 };
 
+// Guided breathing: one cycle is inhale, hold, exhale
+export type BreathingStep = 'inhale' | 'hold' | 'exhale';
+
+export const BREATHING_PATTERN: { step: BreathingStep; seconds: number }[] = [
+  { step: 'inhale', seconds: 4 },
+  { step: 'hold', seconds: 4 },
+  { step: 'exhale', seconds: 6 },
+];
+
+export const BREATHING_STEP_LABELS: Record<BreathingStep, string> = {
+  inhale: 'Breathe in',
+  hold: 'Hold',
+  exhale: 'Breathe out',
+};
+
+export const BREATHING_CYCLES = 4;
+export const BREATHING_DURATION_SECONDS =
+  BREATHING_CYCLES * BREATHING_PATTERN.reduce((sum, { seconds }) => sum + seconds, 0);
+
+export const COOLDOWN_DURATION_SECONDS = 2 * 60;
+
 // Stats types
+// One finished focus block (pomodoro or flow) as it was recorded
+export interface FocusSessionEntry {
+  mode: TimerMode;
+  endedAt: string; // ISO timestamp
+  focusSeconds: number; // time actually focused, pauses excluded
+  taskId: string | null;
+}
+
 export interface DayActivity {
   date: string; // "YYYY-MM-DD"
   pomodoros: number;
+  focusSeconds: number; // real focus time across pomodoros and flow blocks
+  sessions: FocusSessionEntry[];
   completedTasks: number;
   hasNote: boolean;
 }
@@ -72,12 +171,29 @@ export interface WeekSummary {
   activeDays: number;
 }
 
+// Focus minutes over some days, split by the project and tags of each block's task
+export interface FocusBreakdown {
+  byProject: Record<string, number>; // project id -> minutes
+  byTag: Record<string, number>; // tag -> minutes
+  withoutProject: number; // minutes on blocks with no task, or a task outside any project
+}
+
+// How the estimates of completed tasks compared with the pomodoros they took
+export interface EstimateAccuracy {
+  estimatedTasks: number; // completed tasks with an estimate and pomodoros spent
+  accurateTasks: number; // finished within one pomodoro of the estimate
+  underestimatedTasks: number; // took more than that
+  overestimatedTasks: number; // took fewer than that
+  averageRatio: number; // spent / estimated per task, averaged (1 = spot on)
+}
+
 // Calendar types
 export interface DaySummary {
   date: string; // "YYYY-MM-DD"
   pomodoros: number;
   focusMinutes: number;
   completedTasks: Task[];
+  dueTasks: Task[]; // still open, due this day
   hasNote: boolean;
 }
 
@@ -163,6 +279,7 @@ export interface UserFocusContext {
     totalTasks: number;
     completedTasks: number;
     averagePomodorosPerTask: number;
+    estimateAccuracy?: EstimateAccuracy; // once some estimated tasks are done
   };
 
   // Current streak info
@@ -215,6 +332,7 @@ export type CoachActionType =
   | 'PAUSE_SESSION'
   | 'RESUME_SESSION'
   | 'STOP_SESSION'
+  | 'SKIP_SESSION'
   | 'SET_SESSION_DURATION'
   // Environment actions
   | 'SET_BACKGROUND_SOUND'
@@ -215,6 +215,13 @@ export interface FocusContext {
     totalTasks: number;
     completedTasks: number;
     averagePomodorosPerTask: number;
+    estimateAccuracy?: {
+      estimatedTasks: number;
+      accurateTasks: number;
+      underestimatedTasks: number;
+      overestimatedTasks: number;
+      averageRatio: number;
+    };
   };
   streak: {
     currentDays: number;
@@ -276,6 +283,15 @@ export function buildContextPrompt(context: FocusContext): string {
   lines.push(`- Completed: ${context.taskStats.completedTasks}`);
   lines.push(`- Average pomodoros per task: ${context.taskStats.averagePomodorosPerTask.toFixed(1)}`);
 
+  const accuracy = context.taskStats.estimateAccuracy;
+  if (accuracy && accuracy.estimatedTasks > 0) {
+    lines.push(
+      `- Estimates: ${accuracy.accurateTasks}/${accuracy.estimatedTasks} estimated tasks within one pomodoro, ` +
+      `${accuracy.underestimatedTasks} took longer, ${accuracy.overestimatedTasks} took less ` +
+      `(actual/estimate ratio ${accuracy.averageRatio.toFixed(2)})`
+    );
+  }
+
   return lines.join('\n');
 }
 
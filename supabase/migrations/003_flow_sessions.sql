@@ -0,0 +1,7 @@
+-- Flow Sessions
+-- Allows count-up flow blocks to be logged alongside pomodoros and breaks
+
+ALTER TABLE timer_sessions DROP CONSTRAINT IF EXISTS timer_sessions_mode_check;
+ALTER TABLE timer_sessions
+  ADD CONSTRAINT timer_sessions_mode_check
+  CHECK (mode IN ('pomodoro', 'shortBreak', 'longBreak', 'flow'));